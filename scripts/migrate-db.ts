@@ -0,0 +1,74 @@
+import Database from 'better-sqlite3';
+import { config } from '../src/config/env';
+import { getMigrationStatus, runMigrations } from '../src/data/migrations';
+import Log from '../src/utils/log';
+
+/**
+ * Миграции схемы SQLite БД
+ *
+ *   status   — применённые и ожидающие миграции (по умолчанию)
+ *   dry-run  — прогнать ожидающие миграции и откатить
+ *   up       — применить ожидающие миграции
+ */
+function migrateDb(command: string) {
+    const db = new Database(config.database.path);
+
+    try {
+        if (command === 'status') {
+            printStatus(db);
+            return;
+        }
+
+        if (command === 'dry-run' || command === 'up') {
+            const pending = runMigrations(db, command === 'dry-run');
+
+            if (pending.length === 0) {
+                Log.info({}, 'Database schema is up to date');
+            } else {
+                Log.info({}, command === 'up' ? 'Migrations applied' : 'Migrations checked and rolled back', {
+                    versions: pending.map(migration => migration.version),
+                });
+            }
+
+            printStatus(db);
+            return;
+        }
+
+        throw new Error(`Unknown command: ${command}. Use status, dry-run or up`);
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Вывод состояния миграций
+ */
+function printStatus(db: Database.Database) {
+    const status = getMigrationStatus(db);
+
+    console.log(`Database: ${config.database.path}`);
+    console.log(`Schema version: ${status.current} (code: ${status.latest})`);
+
+    if (status.current > status.latest) {
+        console.log('⚠️  Database is newer than the code — update the code before starting the bots');
+    }
+
+    for (const migration of status.migrations) {
+        const version = String(migration.version).padStart(3, '0');
+        const state = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending';
+        console.log(`  ${version} ${migration.name.padEnd(24)} ${state}`);
+    }
+}
+
+// Запуск при прямом вызове
+if (require.main === module) {
+    try {
+        migrateDb(process.argv[2] || 'status');
+        process.exit(0);
+    } catch (error) {
+        Log.error({}, 'Database migration failed', error);
+        process.exit(1);
+    }
+}
+
+export { migrateDb };
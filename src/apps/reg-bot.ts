@@ -2,7 +2,7 @@ import { Telegraf } from 'telegraf';
 import { config, validateConfig } from '../config/env';
 import { initDatabase, closeDatabase } from '../data/db';
 import { authMiddleware, logCommand } from '../bot/middlewares/auth';
-import { registerRegHandlers } from '../bot/handlers/regHandlers';
+import { registerRegHandlers, resumeRegWizards } from '../bot/handlers/regHandlers';
 import Log from '../utils/log';
 
 /**
@@ -37,9 +37,13 @@ async function startRegBot() {
             { command: 'users', description: '👥 Список пользователей (админ)' },
             { command: 'promote', description: '⬆️ Повысить до владельца (админ)' },
             { command: 'demote', description: '⬇️ Понизить владельца (админ)' },
+            { command: 'planka_repair', description: '🔗 Подключить к Planka (админ)' },
             { command: 'stats', description: '📊 Статистика (админ)' },
         ]);
 
+        // Напоминания о незавершённых мастерах, прерванных перезапуском
+        await resumeRegWizards(bot.telegram);
+
         // Обработка ошибок
         bot.catch((error) => {
             Log.error({}, 'Registration bot error', error);
@@ -2,7 +2,7 @@ import { Telegraf } from 'telegraf';
 import { config, validateConfig } from '../config/env';
 import { initDatabase, closeDatabase } from '../data/db';
 import { authMiddleware, logCommand, privateOnly, ownerOnly } from '../bot/middlewares/auth';
-import { registerWorkHandlers } from '../bot/handlers/workHandlers';
+import { registerWorkHandlers, resumeWorkWizards } from '../bot/handlers/workHandlers';
 import { setupScheduledJobs } from '../jobs/scheduler';
 import Log from '../utils/log';
 
@@ -36,10 +36,18 @@ async function startWorkBot() {
             { command: 'my_tasks', description: '📋 Мои задачи' },
             { command: 'create_task', description: '📝 Создать задачу' },
             { command: 'stats', description: '📊 Статистика' },
+            { command: 'report', description: '📈 Отчёт по команде' },
             { command: 'deadlines', description: '📅 Дедлайны' },
             { command: 'search_tasks', description: '🔍 Поиск задач' },
+            { command: 'link_board', description: '🗂 Доска Planka для чата' },
+            { command: 'reminders', description: '⏰ Напоминания о дедлайнах' },
+            { command: 'timezone', description: '🕐 Часовой пояс' },
+            { command: 'settings', description: '⚙️ Настройки' },
         ]);
 
+        // Напоминания о незавершённых мастерах, прерванных перезапуском
+        await resumeWorkWizards(bot.telegram);
+
         // Запуск планировщика задач
         setupScheduledJobs();
 
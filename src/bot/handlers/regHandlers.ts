@@ -1,6 +1,6 @@
-import { Telegraf } from 'telegraf';
+import { Telegraf, Telegram } from 'telegraf';
 import { AuthContext } from '../middlewares/auth';
-import { getTexts } from '../replies';
+import { getTexts, keyboards, formatTimezone } from '../replies';
 import {
     generateInvite,
     getUserInvites,
@@ -12,6 +12,8 @@ import {
     completeRegistration,
     getAllUsers
 } from '../../usecases/registration/registerEmployee';
+import { repairPlankaUsers, getUnprovisionedUsers } from '../../usecases/registration/provisionPlanka';
+import { resolveTimezone, setUserTimezone } from '../../usecases/registration/userTimezone';
 import {
     promoteToOwner,
     demoteFromOwner,
@@ -21,19 +23,35 @@ import {
 import { Language, UserRole } from '../../interfaces/user';
 import { errorToUserMessage } from '../../utils/errors';
 import { assertValidEmail } from '../../utils/guard';
+import { defineWizard, resumeWizards, WizardPrompt } from '../../usecases/conversations/wizard';
 import Log from '../../utils/log';
 
 /**
  * Состояния регистрации
  */
 interface RegistrationState {
-    step: 'waiting_email' | 'confirming';
+    step: 'waiting_email' | 'confirming' | 'waiting_timezone';
     inviteToken?: string;
     email?: string;
-    createdAt: Date;
 }
 
-const registrationStates = new Map<number, RegistrationState>();
+const EMAIL_PROMPT = '📧 Теперь отправьте ваш email для завершения регистрации:';
+
+// Мастер регистрации: сессии хранятся в БД и переживают перезапуск
+const registrationWizard = defineWizard<RegistrationState>({
+    name: 'registration',
+    steps: {
+        waiting_email: {
+            resume: () => withResumedNote({ text: EMAIL_PROMPT }),
+        },
+        confirming: {
+            resume: session => session.email ? withResumedNote(emailConfirmPrompt(session.email)) : null,
+        },
+        waiting_timezone: {
+            resume: () => withResumedNote(timezonePrompt()),
+        },
+    },
+});
 
 /**
  * Регистрация обработчиков регистрационного бота
@@ -312,6 +330,74 @@ export function registerRegHandlers(bot: Telegraf<AuthContext>) {
         }
     });
 
+    // Команда /planka_repair - повторное подключение к Planka
+    bot.command('planka_repair', async (ctx) => {
+        if (!ctx.user || ctx.user.role !== UserRole.ADMIN) {
+            await ctx.reply('❌ Только администраторы могут подключать пользователей к Planka');
+            return;
+        }
+
+        const args = ctx.message.text.replace('/planka_repair', '').trim().split(/\s+/).filter(Boolean);
+        const resetPassword = args.includes('--reset');
+        const username = args.find(arg => arg !== '--reset')?.replace('@', '');
+
+        const usage = 'Использование: /planka_repair [@username] [--reset]\n' +
+            'Без параметра — повтор для всех, у кого подключение не удалось\n' +
+            '--reset — выдать пользователю новый пароль Planka';
+
+        // Сброс перезаписывает пароль существующего аккаунта — только для одного пользователя
+        if (resetPassword && !username) {
+            await ctx.reply(usage);
+            return;
+        }
+
+        if (!username && getUnprovisionedUsers().length === 0) {
+            await ctx.reply('✅ Все пользователи с email подключены к Planka.\n\n' + usage);
+            return;
+        }
+
+        try {
+            await ctx.reply('⏳ Подключаю пользователей к Planka...');
+
+            const { repaired, failed } = await repairPlankaUsers(
+                ctx.user.telegramId,
+                username,
+                { resetPassword }
+            );
+
+            let message = `🔗 **Подключение к Planka**\n\n✅ Успешно: ${repaired.length}\n`;
+
+            for (const result of repaired) {
+                if (result.credentialsSent) {
+                    message += formatUserLine(result.user).replace('\n', ' 🔑\n');
+                } else if (result.user.plankaCredentialsPending) {
+                    message += formatUserLine(result.user).replace('\n', ' — пароль не доставлен\n');
+                } else {
+                    message += formatUserLine(result.user);
+                }
+            }
+
+            if (failed.length > 0) {
+                message += `\n❌ Ошибки: ${failed.length}\n`;
+                for (const { user, error } of failed) {
+                    message += formatUserLine(user).replace('\n', ` — ${error}\n`);
+                }
+            }
+
+            await ctx.reply(message, { parse_mode: 'Markdown' });
+
+            Log.info(ctx, 'Planka repair requested', {
+                username,
+                resetPassword,
+                repaired: repaired.length,
+                failed: failed.length,
+            });
+
+        } catch (error: any) {
+            await ctx.reply(`❌ ${error.message}`);
+        }
+    });
+
     // Команда /stats - статистика системы
     bot.command('stats', async (ctx) => {
         if (!ctx.user) {
@@ -348,7 +434,7 @@ export function registerRegHandlers(bot: Telegraf<AuthContext>) {
         if (!userId) return;
 
         const text = ctx.message.text;
-        const state = registrationStates.get(userId);
+        const state = registrationWizard.get(userId);
 
         // Проверка токена инвайта
         if (!ctx.user && text.length === 10) {
@@ -363,23 +449,26 @@ export function registerRegHandlers(bot: Telegraf<AuthContext>) {
 
                 state.email = text;
                 state.step = 'confirming';
+                registrationWizard.save(state);
 
-                await ctx.reply(
-                    `📧 Email: ${text}\n\n` +
-                    'Подтвердите правильность email или отправьте другой:',
-                    {
-                        reply_markup: {
-                            inline_keyboard: [
-                                [{ text: '✅ Подтвердить', callback_data: 'confirm_email' }],
-                                [{ text: '❌ Отмена', callback_data: 'cancel_registration' }],
-                            ],
-                        },
-                    }
-                );
+                const prompt = emailConfirmPrompt(text);
+                await ctx.reply(prompt.text, { reply_markup: prompt.reply_markup });
             } catch {
                 await ctx.reply('❌ Неверный формат email. Попробуйте ещё раз:');
             }
         }
+
+        // Часовой пояс: название или текущее местное время
+        if (state && state.step === 'waiting_timezone') {
+            try {
+                const user = setUserTimezone(userId, resolveTimezone(text));
+                registrationWizard.clear(userId);
+
+                await ctx.reply(`✅ Часовой пояс: ${formatTimezone(user.timezone)}`);
+            } catch {
+                await ctx.reply('❌ Не удалось определить часовой пояс. Отправьте текущее время (например, 14:30) или название пояса (Asia/Tashkent):');
+            }
+        }
     });
 
     // Обработка callback-запросов
@@ -395,7 +484,7 @@ export function registerRegHandlers(bot: Telegraf<AuthContext>) {
 
         // Подтверждение email
         if (data === 'confirm_email') {
-            const state = registrationStates.get(userId);
+            const state = registrationWizard.get(userId);
 
             if (!state || !state.email || !state.inviteToken) {
                 await ctx.answerCbQuery('❌ Сессия истекла');
@@ -405,17 +494,20 @@ export function registerRegHandlers(bot: Telegraf<AuthContext>) {
             try {
                 const result = await completeRegistration(userId, state.email, true);
 
-                registrationStates.delete(userId);
+                registrationWizard.clear(userId);
 
                 let message = '✅ **Регистрация завершена!**\n\n';
-                message += `📧 Email: ${state.email}\n`;
+                message += `📧 Email: \`${state.email}\`\n`;
                 message += `👤 Роль: Сотрудник\n\n`;
 
-                if (result.plankaCredentials) {
-                    message += '🔐 **Данные для входа в Planka:**\n';
-                    message += `Email: ${result.plankaCredentials.email}\n`;
-                    message += `Пароль: \`${result.plankaCredentials.password}\`\n\n`;
-                    message += '⚠️ Обязательно сохраните пароль!';
+                if (result.planka === 'created') {
+                    message += result.credentialsSent
+                        ? '🔐 Аккаунт в Planka создан, данные для входа отправлены отдельным сообщением.'
+                        : '🔐 Аккаунт в Planka создан, но отправить пароль не удалось. Обратитесь к администратору — он выдаст новый пароль.';
+                } else if (result.planka === 'linked') {
+                    message += '🔗 Ваш аккаунт в Planka подключён и добавлен на доску.';
+                } else if (result.planka === 'failed') {
+                    message += '⚠️ Не удалось подключить аккаунт Planka. Администратор повторит подключение позже.';
                 }
 
                 message += '\n\nТеперь вы можете использовать основного бота для работы с задачами.';
@@ -423,6 +515,21 @@ export function registerRegHandlers(bot: Telegraf<AuthContext>) {
                 await ctx.editMessageText(message, { parse_mode: 'Markdown' });
                 await ctx.answerCbQuery('✅ Регистрация завершена!');
 
+                await askTimezone(ctx, userId);
+
+            } catch (error: any) {
+                await ctx.answerCbQuery(`❌ ${error.message}`);
+            }
+        }
+
+        // Выбор часового пояса
+        if (data.startsWith('set_timezone_')) {
+            try {
+                const user = setUserTimezone(userId, data.replace('set_timezone_', ''));
+                registrationWizard.clear(userId);
+
+                await ctx.editMessageText(`✅ Часовой пояс: ${formatTimezone(user.timezone)}`);
+                await ctx.answerCbQuery();
             } catch (error: any) {
                 await ctx.answerCbQuery(`❌ ${error.message}`);
             }
@@ -430,7 +537,7 @@ export function registerRegHandlers(bot: Telegraf<AuthContext>) {
 
         // Отмена регистрации
         if (data === 'cancel_registration') {
-            registrationStates.delete(userId);
+            registrationWizard.clear(userId);
             await ctx.editMessageText('❌ Регистрация отменена');
             await ctx.answerCbQuery();
         }
@@ -470,21 +577,19 @@ async function handleInviteToken(ctx: any, token: string) {
 
         if (result.needsEmail) {
             // Сохраняем состояние и запрашиваем email
-            registrationStates.set(userId, {
+            registrationWizard.start(userId, {
                 step: 'waiting_email',
                 inviteToken: token,
-                createdAt: new Date(),
             });
 
-            await ctx.reply(
-                '✅ Приглашение принято!\n\n' +
-                '📧 Теперь отправьте ваш email для завершения регистрации:'
-            );
+            await ctx.reply(`✅ Приглашение принято!\n\n${EMAIL_PROMPT}`);
         } else {
             await ctx.reply(
                 '✅ Регистрация завершена!\n\n' +
                 'Теперь вы можете использовать основного бота для работы с задачами.'
             );
+
+            await askTimezone(ctx, userId);
         }
 
         Log.info(ctx, 'Employee registered via invite', { token });
@@ -494,6 +599,62 @@ async function handleInviteToken(ctx: any, token: string) {
     }
 }
 
+/**
+ * Выбор часового пояса после регистрации
+ * Можно не отвечать — останется пояс по умолчанию, поменять его можно командой /timezone
+ */
+async function askTimezone(ctx: any, userId: number) {
+    registrationWizard.start(userId, { step: 'waiting_timezone' });
+
+    const prompt = timezonePrompt();
+    await ctx.reply(prompt.text, { reply_markup: prompt.reply_markup });
+}
+
+/**
+ * Подтверждение введённого email
+ */
+function emailConfirmPrompt(email: string): WizardPrompt {
+    return {
+        text: `📧 Email: ${email}\n\nПодтвердите правильность email или отправьте другой:`,
+        reply_markup: {
+            inline_keyboard: [
+                [{ text: '✅ Подтвердить', callback_data: 'confirm_email' }],
+                [{ text: '❌ Отмена', callback_data: 'cancel_registration' }],
+            ],
+        },
+    };
+}
+
+/**
+ * Запрос часового пояса
+ */
+function timezonePrompt(): WizardPrompt {
+    return {
+        text: '🕐 Выберите ваш часовой пояс — по нему считаются сроки задач и время дайджестов.\n\n' +
+            'Если вашего нет в списке, отправьте текущее местное время (например, 14:30) или название пояса (Europe/Moscow).',
+        reply_markup: keyboards.timezoneSelect().reply_markup,
+    };
+}
+
+/**
+ * Пометка, что регистрация продолжается после перезапуска
+ */
+function withResumedNote(prompt: WizardPrompt): WizardPrompt {
+    return {
+        ...prompt,
+        text: `🔄 Бот был перезапущен — продолжим регистрацию с того же места.\n\n${prompt.text}`,
+    };
+}
+
+/**
+ * Напоминания о незавершённой регистрации после перезапуска бота
+ */
+export async function resumeRegWizards(telegram: Telegram): Promise<number> {
+    return resumeWizards([registrationWizard], (userId, prompt) =>
+        telegram.sendMessage(userId, prompt.text, { reply_markup: prompt.reply_markup })
+    );
+}
+
 /**
  * Показ админского меню
  */
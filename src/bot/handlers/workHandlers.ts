@@ -1,32 +1,230 @@
-import { Telegraf } from 'telegraf';
+import { Telegraf, Telegram } from 'telegraf';
+import { InlineKeyboardMarkup } from 'telegraf/types';
 import { AuthContext } from '../middlewares/auth';
-import { getTexts, taskKeyboards, createTaskKeyboards, formatTask, formatTasksList } from '../replies';
+import {
+    getTexts,
+    keyboards,
+    taskKeyboards,
+    createTaskKeyboards,
+    formatTask,
+    formatTasksList,
+    formatTaskHistory,
+    formatTaskComments,
+    formatReminderOffsets,
+    formatDateTime,
+    formatTimezone,
+    formatHour,
+    formatPriority,
+    formatPriorityEmoji,
+    formatStatusName,
+    formatTaskListPage,
+} from '../replies';
 import { createTask, getAvailableAssignees, prepareTaskPreview } from '../../usecases/tasks/createTask';
+import { analyzeTaskText } from '../../usecases/tasks/analyzeTask';
+import { transcribeVoiceMessage, extractVoiceCommand } from '../../usecases/tasks/voiceTask';
+import { parseGroupTaskMention, buildGroupTaskText } from '../../usecases/tasks/groupTask';
+import { editTask, canEditTask } from '../../usecases/tasks/editTask';
+import { getTaskHistory } from '../../usecases/tasks/taskHistory';
+import {
+    addTaskComment,
+    getTaskComments,
+    getTaskIdByMessage,
+    rememberTaskMessage,
+} from '../../usecases/tasks/taskComments';
+import { searchTasks } from '../../usecases/tasks/searchTasks';
+import {
+    listTasks,
+    setListFilter,
+    saveTaskView,
+    getTaskViews,
+    findTaskView,
+    getTaskView,
+    deleteTaskView,
+    canListAllTasks,
+    isListFilterField,
+    isDefaultListFilters,
+    DEFAULT_TASK_LIST_FILTERS,
+    TASK_LIST_OPTIONS,
+} from '../../usecases/tasks/taskList';
+import { getChatBoardId } from '../../usecases/workspaces/resolveWorkspace';
+import {
+    parseReminderOffsets,
+    resolveReminderPreset,
+    getUserReminderOffsets,
+    setUserReminderOffsets,
+} from '../../usecases/tasks/reminderSchedule';
+import {
+    SnoozeOption,
+    snoozeReminder,
+    startTaskFromReminder,
+    completeTaskFromReminder,
+} from '../../usecases/tasks/reminderActions';
+import {
+    requestDeadlineExtension,
+    approveExtension,
+    rejectExtension,
+    counterExtension,
+    respondToCounter,
+    validateProposedDueDate,
+    getExtendableTask,
+} from '../../usecases/tasks/deadlineExtension';
+import {
+    getLinkableBoards,
+    getLinkedBoardName,
+    linkBoard,
+    unlinkBoard,
+} from '../../usecases/workspaces/linkBoard';
+import { resolveTimezone, setUserTimezone } from '../../usecases/registration/userTimezone';
+import { listDeadlines } from '../../usecases/tasks/listDeadlines';
+import { getTaskStats } from '../../usecases/tasks/getStats';
+import { isReportPeriod, buildTeamReport, sendTeamReport } from '../../usecases/tasks/teamReport';
 import { tasksRepo } from '../../data/repo/tasksRepo';
+import { settingsRepo, settingsHelpers } from '../../data/repo/settingsRepo';
+import { extensionRequestsRepo } from '../../data/repo/extensionRequestsRepo';
 import { usersRepo } from '../../data/repo/usersRepo';
-import { Language, Permission } from '../../interfaces/user';
-import { CreateTaskInput, TaskStatus } from '../../interfaces/task';
-import { parseDate, parsePriority, parseCategory, parseAssignee } from '../../utils/parse';
+import { contextHelpers } from '../../data/repo/convRepo';
+import { defineWizard, resumeWizards, WizardSession, WizardPrompt } from '../../usecases/conversations/wizard';
+import { Language, Permission, User } from '../../interfaces/user';
+import { LIMITS, VOICE_TASK_KEYWORDS } from '../../config/constants';
+import {
+    CreateTaskInput,
+    TaskDraft,
+    TaskStatus,
+    TaskAttachment,
+    TaskPriority,
+    TaskCategory,
+    Task,
+    TaskListFilters,
+} from '../../interfaces/task';
 import { assertNotEmpty, validateTaskInput } from '../../utils/guard';
-import { errorToUserMessage } from '../../utils/errors';
+import { assertFileSize, assertFileType } from '../../utils/guard';
+import { parseDate } from '../../utils/parse';
+import { AppError, ErrorCodes, errorToUserMessage } from '../../utils/errors';
 import Log from '../../utils/log';
-import { nanoid } from 'nanoid';
 
 /**
- * Состояния пользователей для создания задач
+ * Состояние мастера создания задачи
  */
-interface TaskCreationSession {
-    sessionId: string;
-    userId: number;
-    chatId: number;
+interface TaskCreationState {
     step: 'message' | 'list' | 'assignee' | 'files' | 'confirm';
+    chatId: number;
     data: Partial<CreateTaskInput>;
+    analysis?: Pick<TaskDraft, 'source' | 'inferred'>;
     messageId?: number;
-    createdAt: Date;
+    // Сообщение в группе, из которого создаётся задача
+    origin?: GroupTaskOrigin;
+}
+
+type TaskCreationSession = WizardSession<TaskCreationState>;
+
+interface GroupTaskOrigin {
+    chatId: number;
+    messageId: number;
+    threadId?: number;
+    title?: string;
+}
+
+// Мастер создания задачи: сессии хранятся в БД и переживают перезапуск
+const taskWizard = defineWizard<TaskCreationState>({
+    name: 'create_task',
+    steps: {
+        message: { resume: session => resumeTaskPrompt(session, lang => getTexts(lang).tasks.create.start) },
+        list: {},
+        assignee: {},
+        files: {
+            resume: session => resumeTaskPrompt(
+                session,
+                lang => getTexts(lang).tasks.create.waitingFiles,
+                lang => createTaskKeyboards.collectFiles(session.sessionId, lang)
+            ),
+        },
+        confirm: {
+            resume: session => resumeTaskPrompt(
+                session,
+                (lang, user) => prepareTaskPreview(session.data, lang, session.analysis, user.timezone),
+                lang => createTaskKeyboards.confirmCreate(session.sessionId, lang)
+            ),
+        },
+    },
+});
+
+/**
+ * Открытый список задач пользователя в чате: фильтры, страница, сохранённый вид
+ * Хранится в контексте диалога, кнопки списка меняют его
+ */
+interface TaskListState {
+    filters: TaskListFilters;
+    page: number;
+    viewId?: number;
+}
+
+const TASK_LIST_CONTEXT_KEY = 'task_list';
+
+/**
+ * Ввод названия для сохранения вида списка
+ */
+interface SaveViewState {
+    step: 'name';
+    filters: TaskListFilters;
 }
 
-// Хранилище сессий создания задач
-const taskSessions = new Map<number, TaskCreationSession>();
+const saveViewWizard = defineWizard<SaveViewState>({
+    name: 'save_task_view',
+    steps: {
+        name: {},
+    },
+});
+
+/**
+ * Ожидание текстового ввода при редактировании задачи
+ */
+interface TaskEditState {
+    step: 'input';
+    taskId: string;
+    field: 'title' | 'description' | 'dueDate' | 'reminderOffsets';
+}
+
+type TaskEditSession = WizardSession<TaskEditState>;
+
+const editWizard = defineWizard<TaskEditState>({
+    name: 'edit_task',
+    steps: {
+        input: {
+            resume: session => resumeInputPrompt(
+                session,
+                t => getEditPrompt(t, session.field),
+                t => editCancelKeyboard(t, session.taskId)
+            ),
+        },
+    },
+});
+
+/**
+ * Ввод данных для продления срока: дата и причина от исполнителя
+ * или встречная дата от автора задачи (step 'counter')
+ */
+interface ExtensionState {
+    step: 'date' | 'reason' | 'counter';
+    taskId: string;
+    requestId?: number;
+    proposedDueDate?: Date;
+}
+
+type ExtensionSession = WizardSession<ExtensionState>;
+
+const extensionWizard = defineWizard<ExtensionState>({
+    name: 'deadline_extension',
+    steps: {
+        date: {
+            resume: session => {
+                const task = tasksRepo.getByPlankaId(session.taskId);
+                return task ? resumeInputPrompt(session, t => t.extensions.enterDate(task.title)) : null;
+            },
+        },
+        reason: { resume: session => resumeInputPrompt(session, t => t.extensions.enterReason) },
+        counter: { resume: session => resumeInputPrompt(session, t => t.extensions.enterCounter) },
+    },
+});
 
 /**
  * Регистрация обработчиков команд рабочего бота
@@ -64,7 +262,7 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
         await ctx.replyWithMarkdown(message);
     });
 
-    // Команда /my_tasks - просмотр своих задач
+    // Команда /my_tasks [вид] - список задач с фильтрами и страницами
     bot.command('my_tasks', async (ctx) => {
         if (!ctx.user) {
             const t = getTexts(Language.RU);
@@ -74,19 +272,26 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
 
         const lang = ctx.user.language;
         const t = getTexts(lang);
+        const viewName = ctx.message.text.replace(/^\/my_tasks(@\w+)?/, '').trim();
 
         try {
-            const tasks = tasksRepo.getUserTasks(ctx.user.telegramId);
+            let state: TaskListState = { filters: DEFAULT_TASK_LIST_FILTERS, page: 1 };
 
-            if (tasks.length === 0) {
-                await ctx.reply(t.tasks.view.noTasks);
-                return;
+            if (viewName) {
+                const view = findTaskView(ctx.user.telegramId, viewName);
+
+                if (!view) {
+                    const names = getTaskViews(ctx.user.telegramId).map(v => v.name).join(', ');
+                    await ctx.reply(t.tasks.list.viewNotFound(viewName, names));
+                    return;
+                }
+
+                state = { filters: view.filters, page: 1, viewId: view.id };
             }
 
-            const message = formatTasksList(tasks, t.tasks.view.title('Ваши задачи'), lang);
-            const keyboard = taskKeyboards.tasksList(tasks, lang);
+            const list = renderTaskList(ctx, state);
 
-            await ctx.replyWithMarkdown(message, { reply_markup: keyboard });
+            await ctx.replyWithMarkdown(list.text, { reply_markup: list.reply_markup });
         } catch (error) {
             Log.error(ctx, 'Failed to get user tasks', error);
             await ctx.reply(errorToUserMessage(error, lang));
@@ -107,9 +312,10 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
             return;
         }
 
+        // В группах задачи создаются ответом с упоминанием бота
         if (ctx.chat?.type !== 'private') {
             const t = getTexts(ctx.user.language);
-            await ctx.reply(t.auth.privateOnly);
+            await ctx.reply(t.tasks.group.hint(ctx.botInfo.username));
             return;
         }
 
@@ -117,26 +323,13 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
         const t = getTexts(lang);
 
         // Проверяем, нет ли уже активной сессии
-        if (taskSessions.has(ctx.user.telegramId)) {
+        if (taskWizard.has(ctx.user.telegramId)) {
             await ctx.reply(t.tasks.create.alreadyCreating);
             return;
         }
 
         // Создаём новую сессию
-        const session: TaskCreationSession = {
-            sessionId: nanoid(10),
-            userId: ctx.user.telegramId,
-            chatId: ctx.chat.id,
-            step: 'message',
-            data: {
-                userId: ctx.user.telegramId,
-                username: ctx.from?.username || '',
-                chatId: ctx.chat.id,
-            },
-            createdAt: new Date(),
-        };
-
-        taskSessions.set(ctx.user.telegramId, session);
+        const session = startTaskSession(ctx.user.telegramId, ctx.from?.username, ctx.chat.id);
 
         await ctx.reply(t.tasks.create.start);
 
@@ -161,7 +354,7 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
         const t = getTexts(lang);
 
         try {
-            const stats = tasksRepo.getStats(ctx.chat?.id);
+            const stats = getTaskStats(getChatBoardId(ctx.chat?.id));
 
             const lines = [
                 t.tasks.stats.title,
@@ -172,33 +365,33 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
             ];
 
             for (const [status, count] of Object.entries(stats.byStatus)) {
-                const display = {
-                    todo: '📋 К выполнению',
-                    in_progress: '⚡ В работе',
-                    in_review: '👀 На проверке',
-                    done: '✅ Выполнено',
-                }[status] || status;
-                lines.push(`  ${display}: ${count}`);
+                lines.push(`  ${formatStatusName(status as TaskStatus, lang)}: ${count}`);
             }
 
             lines.push('');
             lines.push(t.tasks.stats.byPriority);
 
             for (const [priority, count] of Object.entries(stats.byPriority)) {
-                const emoji = {
-                    'низкий': '🟢',
-                    'средний': '🟡',
-                    'высокий': '🟠',
-                    'критический': '🔴',
-                }[priority] || '⚪';
-                lines.push(`  ${emoji} ${priority}: ${count}`);
+                const code = priority as TaskPriority;
+                lines.push(`  ${formatPriorityEmoji(code)} ${formatPriority(code, lang)}: ${count}`);
             }
 
-            if (stats.overdue > 0) {
+            if (stats.overdue > 0 || stats.dueToday > 0 || stats.dueThisWeek > 0) {
                 lines.push('');
+            }
+
+            if (stats.overdue > 0) {
                 lines.push(t.tasks.stats.overdue(stats.overdue));
             }
 
+            if (stats.dueToday > 0) {
+                lines.push(t.tasks.stats.dueToday(stats.dueToday));
+            }
+
+            if (stats.dueThisWeek > 0) {
+                lines.push(t.tasks.stats.dueThisWeek(stats.dueThisWeek));
+            }
+
             await ctx.replyWithMarkdown(lines.join('\n'));
         } catch (error) {
             Log.error(ctx, 'Failed to get stats', error);
@@ -206,6 +399,38 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
         }
     });
 
+    // Команда /report week|month - отчёт по команде с CSV (для владельцев)
+    bot.command('report', async (ctx) => {
+        if (!ctx.user) {
+            const t = getTexts(Language.RU);
+            await ctx.reply(t.auth.notRegistered);
+            return;
+        }
+
+        if (!ctx.isOwner && !ctx.isAdmin) {
+            const t = getTexts(ctx.user.language);
+            await ctx.reply(t.auth.ownerOnly);
+            return;
+        }
+
+        const lang = ctx.user.language;
+        const t = getTexts(lang);
+        const period = ctx.message.text.split(/\s+/)[1]?.toLowerCase() || 'week';
+
+        if (!isReportPeriod(period)) {
+            await ctx.reply(t.reports.usage);
+            return;
+        }
+
+        try {
+            const report = buildTeamReport(period, ctx.user.timezone, getChatBoardId(ctx.chat?.id));
+            await sendTeamReport(ctx.chat.id, report, lang, ctx.user.timezone);
+        } catch (error) {
+            Log.error(ctx, 'Failed to build team report', error);
+            await ctx.reply(errorToUserMessage(error, lang));
+        }
+    });
+
     // Команда /deadlines - просмотр дедлайнов
     bot.command('deadlines', async (ctx) => {
         if (!ctx.user) {
@@ -224,9 +449,7 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
         const t = getTexts(lang);
 
         try {
-            const overdue = tasksRepo.getOverdueTasks();
-            const today = tasksRepo.getUpcomingDeadlines(24);
-            const thisWeek = tasksRepo.getUpcomingDeadlines(24 * 7);
+            const { overdue, today: todayTasks, thisWeek: weekTasks } = listDeadlines(getChatBoardId(ctx.chat?.id));
 
             const lines = [t.tasks.deadlines.title, ''];
 
@@ -238,11 +461,6 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
                 lines.push('');
             }
 
-            const todayTasks = today.filter(t => {
-                const hours = (t.dueDate!.getTime() - Date.now()) / 1000 / 60 / 60;
-                return hours <= 24;
-            });
-
             if (todayTasks.length > 0) {
                 lines.push(t.tasks.deadlines.today);
                 for (const task of todayTasks) {
@@ -251,11 +469,6 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
                 lines.push('');
             }
 
-            const weekTasks = thisWeek.filter(t => {
-                const hours = (t.dueDate!.getTime() - Date.now()) / 1000 / 60 / 60;
-                return hours > 24 && hours <= 24 * 7;
-            });
-
             if (weekTasks.length > 0) {
                 lines.push(t.tasks.deadlines.thisWeek);
                 for (const task of weekTasks.slice(0, 5)) {
@@ -286,7 +499,7 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
         const t = getTexts(lang);
 
         // Получаем поисковый запрос из команды
-        const query = ctx.message.text.replace('/search_tasks', '').trim();
+        const query = ctx.message.text.replace(/^\/search_tasks(@\w+)?/, '').trim();
 
         if (!query) {
             await ctx.reply(t.tasks.search.prompt);
@@ -296,7 +509,7 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
         try {
             await ctx.reply(t.tasks.search.searching);
 
-            const tasks = tasksRepo.search(query, ctx.chat?.id);
+            const tasks = searchTasks(query, getChatBoardId(ctx.chat?.id), ctx.user.timezone);
 
             if (tasks.length === 0) {
                 await ctx.reply(t.tasks.search.notFound);
@@ -306,22 +519,192 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
             const message = formatTasksList(
                 tasks,
                 t.tasks.search.found(tasks.length),
-                lang
+                lang,
+                ctx.user.timezone
             );
             const keyboard = taskKeyboards.tasksList(tasks, lang);
 
             await ctx.replyWithMarkdown(message, { reply_markup: keyboard });
         } catch (error) {
+            if (error instanceof AppError && error.code === ErrorCodes.VALIDATION_ERROR && error.meta?.filter) {
+                await ctx.reply(t.tasks.search.invalidFilter(error.meta.filter));
+                return;
+            }
+
             Log.error(ctx, 'Failed to search tasks', error);
             await ctx.reply(errorToUserMessage(error, lang));
         }
     });
 
+    // Команда /link_board - привязка чата к доске Planka (для владельцев)
+    bot.command('link_board', async (ctx) => {
+        if (!ctx.user) {
+            const t = getTexts(Language.RU);
+            await ctx.reply(t.auth.notRegistered);
+            return;
+        }
+
+        if (!ctx.isOwner && !ctx.isAdmin) {
+            const t = getTexts(ctx.user.language);
+            await ctx.reply(t.auth.ownerOnly);
+            return;
+        }
+
+        const lang = ctx.user.language;
+        const t = getTexts(lang);
+        const chatTitle = 'title' in ctx.chat ? ctx.chat.title : undefined;
+        const boardId = ctx.message.text.replace(/^\/link_board(@\w+)?/, '').trim();
+
+        try {
+            // /link_board <boardId> — привязка без меню
+            if (boardId) {
+                await linkBoard(ctx.chat.id, boardId, ctx.user, chatTitle);
+                const name = await getLinkedBoardName(ctx.chat.id);
+                await ctx.replyWithMarkdown(t.workspaces.linked(name || boardId));
+                return;
+            }
+
+            const [boards, current] = await Promise.all([
+                getLinkableBoards(),
+                getLinkedBoardName(ctx.chat.id),
+            ]);
+
+            if (boards.length === 0) {
+                await ctx.reply(t.workspaces.noBoards);
+                return;
+            }
+
+            const buttons = boards.map(board => [
+                { text: board.name, callback_data: `link_board_${board.boardId}` },
+            ]);
+
+            if (current) {
+                buttons.push([{ text: t.buttons.unlinkBoard, callback_data: 'unlink_board' }]);
+            }
+
+            const header = current ? t.workspaces.current(current) : t.workspaces.defaultBoard;
+
+            await ctx.replyWithMarkdown(`${header}\n\n${t.workspaces.selectBoard}`, {
+                reply_markup: { inline_keyboard: buttons },
+            });
+        } catch (error) {
+            Log.error(ctx, 'Failed to link board', error);
+            await ctx.reply(errorToUserMessage(error, lang));
+        }
+    });
+
+    // Команда /reminders - напоминания о дедлайнах по умолчанию
+    bot.command('reminders', async (ctx) => {
+        if (!ctx.user) {
+            const t = getTexts(Language.RU);
+            await ctx.reply(t.auth.notRegistered);
+            return;
+        }
+
+        const lang = ctx.user.language;
+        const t = getTexts(lang);
+        const args = ctx.message.text.replace(/^\/reminders(@\w+)?/, '').trim();
+
+        try {
+            // /reminders 48h 3h 30m — свои интервалы без меню
+            if (args) {
+                setUserReminderOffsets(ctx.user.telegramId, parseReminderOffsets(args));
+            }
+
+            await ctx.replyWithMarkdown(formatReminderSettings(ctx.user.telegramId, lang), {
+                reply_markup: keyboards.reminderSelect('reminder_defaults_', lang).reply_markup,
+            });
+        } catch (error) {
+            Log.warn(ctx, 'Invalid reminder offsets', { args });
+            await ctx.reply(reminderErrorMessage(error, lang));
+        }
+    });
+
+    // Команда /timezone - часовой пояс для сроков, времени в сообщениях и дайджестов
+    bot.command('timezone', async (ctx) => {
+        if (!ctx.user) {
+            const t = getTexts(Language.RU);
+            await ctx.reply(t.auth.notRegistered);
+            return;
+        }
+
+        const lang = ctx.user.language;
+        const t = getTexts(lang);
+        const args = ctx.message.text.replace(/^\/timezone(@\w+)?/, '').trim();
+
+        try {
+            // /timezone Europe/Moscow или /timezone 14:30 — без меню
+            if (args) {
+                const user = setUserTimezone(ctx.user.telegramId, resolveTimezone(args));
+                await ctx.reply(t.timezone.saved(formatTimezone(user.timezone)));
+                return;
+            }
+
+            await ctx.replyWithMarkdown(formatTimezoneSettings(ctx.user.timezone, lang), {
+                reply_markup: keyboards.timezoneSelect().reply_markup,
+            });
+        } catch (error) {
+            Log.warn(ctx, 'Invalid timezone', { args });
+            await ctx.reply(timezoneErrorMessage(error, lang));
+        }
+    });
+
+    // Команда /settings - дайджесты, уведомления, часовой пояс и напоминания
+    bot.command('settings', async (ctx) => {
+        if (!ctx.user) {
+            const t = getTexts(Language.RU);
+            await ctx.reply(t.auth.notRegistered);
+            return;
+        }
+
+        const lang = ctx.user.language;
+        const showEvening = ctx.isOwner || ctx.isAdmin;
+
+        await ctx.replyWithMarkdown(formatSettingsMenu(ctx.user, showEvening), {
+            reply_markup: keyboards.settingsMenu(settingsRepo.getOrDefault(ctx.user.telegramId), lang, showEvening).reply_markup,
+        });
+    });
+
     // Обработка текстовых сообщений для создания задач
     bot.on('text', async (ctx) => {
         if (!ctx.user) return;
 
-        const session = taskSessions.get(ctx.user.telegramId);
+        // Ответ на сообщение бота по задаче — комментарий в Planka
+        const replyTo = ctx.message.reply_to_message;
+        const commentTaskId = replyTo ? getTaskIdByMessage(ctx.chat.id, replyTo.message_id) : null;
+        if (commentTaskId) {
+            await handleCommentReply(ctx, commentTaskId);
+            return;
+        }
+
+        // В группах бот реагирует только на обращение к нему
+        if (ctx.chat.type !== 'private') {
+            await handleGroupMention(ctx);
+            return;
+        }
+
+        // Название для сохранения вида списка задач
+        const viewSession = saveViewWizard.get(ctx.user.telegramId);
+        if (viewSession) {
+            await handleSaveViewInput(ctx, viewSession);
+            return;
+        }
+
+        // Ввод нового значения при редактировании задачи
+        const editSession = editWizard.get(ctx.user.telegramId);
+        if (editSession) {
+            await handleEditInput(ctx, editSession);
+            return;
+        }
+
+        // Ввод даты или причины для продления срока
+        const extensionSession = extensionWizard.get(ctx.user.telegramId);
+        if (extensionSession) {
+            await handleExtensionInput(ctx, extensionSession);
+            return;
+        }
+
+        const session = taskWizard.get(ctx.user.telegramId);
         if (!session || session.step !== 'message') return;
 
         const lang = ctx.user.language;
@@ -330,36 +713,165 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
         try {
             const text = ctx.message.text;
 
-            // Анализируем текст
-            session.data.title = text.substring(0, 100);
-            session.data.description = text;
-            session.data.priority = parsePriority(text) || undefined;
-            session.data.category = parseCategory(text) || undefined;
-            session.data.dueDate = parseDate(text) || undefined;
-
-            const assigneeName = parseAssignee(text);
-            if (assigneeName) {
-                const assignee = usersRepo.getAll().find(u =>
-                    u.username?.toLowerCase() === assigneeName.toLowerCase() ||
-                    u.fullName?.toLowerCase().includes(assigneeName.toLowerCase())
-                );
-                if (assignee) {
-                    session.data.assigneeId = String(assignee.telegramId);
-                }
-            }
+            await ctx.reply(t.tasks.create.analyzing);
+
+            // Анализируем текст (Gemini, при недоступности — регулярки)
+            const draft = await analyzeTaskText(text, ctx.user, getChatBoardId(session.chatId));
+            session.data = { ...session.data, ...draft.data };
+            session.analysis = { source: draft.source, inferred: draft.inferred };
+
+            Log.info(ctx, 'Task message analyzed', {
+                sessionId: session.sessionId,
+                source: draft.source,
+                inferred: draft.inferred,
+            });
 
             // Показываем предпросмотр
-            const preview = prepareTaskPreview(session.data);
+            const preview = prepareTaskPreview(session.data, lang, session.analysis, ctx.user.timezone);
             const keyboard = createTaskKeyboards.confirmCreate(session.sessionId, lang);
 
             const msg = await ctx.replyWithMarkdown(preview, { reply_markup: keyboard });
             session.messageId = msg.message_id;
             session.step = 'confirm';
+            taskWizard.save(session);
 
         } catch (error) {
             Log.error(ctx, 'Failed to process task message', error);
             await ctx.reply(errorToUserMessage(error, lang));
-            taskSessions.delete(ctx.user.telegramId);
+            taskWizard.clear(ctx.user.telegramId);
+        }
+    });
+
+    // Голосовые сообщения: "помощник, ..." -> предпросмотр задачи
+    bot.on('voice', async (ctx) => {
+        if (!ctx.user || (!ctx.isOwner && !ctx.isAdmin)) return;
+
+        const isPrivate = ctx.chat.type === 'private';
+        const lang = ctx.user.language;
+        const t = getTexts(lang);
+        const voice = ctx.message.voice;
+
+        if (voice.duration > LIMITS.MAX_VOICE_DURATION_SEC) {
+            if (isPrivate) {
+                await ctx.reply(t.tasks.voice.tooLong(LIMITS.MAX_VOICE_DURATION_SEC));
+            }
+            return;
+        }
+
+        if (taskWizard.has(ctx.user.telegramId)) {
+            if (isPrivate) {
+                await ctx.reply(t.tasks.create.alreadyCreating);
+            }
+            return;
+        }
+
+        try {
+            if (isPrivate) {
+                await ctx.reply(t.tasks.voice.transcribing);
+            }
+
+            const fileUrl = await ctx.telegram.getFileLink(voice.file_id);
+            const transcript = await transcribeVoiceMessage(fileUrl.toString(), voice.file_unique_id);
+            const command = extractVoiceCommand(transcript);
+
+            // В группах без обращения к помощнику молчим — это обычный разговор
+            if (command === null) {
+                if (isPrivate) {
+                    await ctx.reply(t.tasks.voice.noWakeWord(
+                        lang === Language.UZ ? 'yordamchi' : VOICE_TASK_KEYWORDS[0]
+                    ));
+                }
+                return;
+            }
+
+            if (!command) {
+                await ctx.reply(t.tasks.voice.empty);
+                return;
+            }
+
+            await ctx.replyWithMarkdown(t.tasks.voice.transcribed(command), {
+                reply_parameters: { message_id: ctx.message.message_id },
+            });
+
+            const session = startTaskSession(ctx.user.telegramId, ctx.from.username, ctx.chat.id);
+
+            const draft = await analyzeTaskText(command, ctx.user, getChatBoardId(session.chatId));
+            session.data = { ...session.data, ...draft.data };
+            session.analysis = { source: draft.source, inferred: draft.inferred };
+
+            const preview = prepareTaskPreview(session.data, lang, session.analysis, ctx.user.timezone);
+            const keyboard = createTaskKeyboards.confirmCreate(session.sessionId, lang);
+
+            const msg = await ctx.replyWithMarkdown(preview, { reply_markup: keyboard });
+            session.messageId = msg.message_id;
+            session.step = 'confirm';
+            taskWizard.save(session);
+
+            Log.info(ctx, 'Voice task draft prepared', {
+                sessionId: session.sessionId,
+                source: draft.source,
+                duration: voice.duration,
+            });
+        } catch (error) {
+            Log.error(ctx, 'Failed to process voice message', error);
+            taskWizard.clear(ctx.user.telegramId);
+            if (isPrivate) {
+                await ctx.reply(t.tasks.voice.failed);
+            }
+        }
+    });
+
+    // Вложения на шаге сбора файлов
+    bot.on(['document', 'photo', 'video'], async (ctx) => {
+        if (!ctx.user) return;
+
+        const session = taskWizard.get(ctx.user.telegramId);
+        if (!session || session.step !== 'files') return;
+
+        const lang = ctx.user.language;
+        const t = getTexts(lang);
+        const file = getIncomingFile(ctx.message);
+
+        if (!file) return;
+
+        const attachments = session.data.attachments || [];
+
+        if (attachments.length >= LIMITS.MAX_FILES_PER_TASK) {
+            await ctx.reply(t.tasks.create.tooManyFiles(LIMITS.MAX_FILES_PER_TASK));
+            return;
+        }
+
+        try {
+            assertFileSize(file.size);
+            assertFileType(file.type);
+
+            const attachment: TaskAttachment = {
+                name: file.name,
+                fileId: file.fileId,
+                size: file.size,
+                type: file.type,
+            };
+
+            session.data.attachments = [...attachments, attachment];
+            taskWizard.save(session);
+
+            await ctx.reply(
+                t.tasks.create.fileAdded(file.name, session.data.attachments.length),
+                { reply_markup: createTaskKeyboards.collectFiles(session.sessionId, lang) }
+            );
+
+            Log.info(ctx, 'Attachment added to task session', {
+                sessionId: session.sessionId,
+                filename: file.name,
+                size: file.size,
+            });
+        } catch (error) {
+            const reason = error instanceof AppError && error.code === ErrorCodes.VALIDATION_ERROR
+                ? t.tasks.create.fileTypeNotAllowed
+                : errorToUserMessage(error, lang);
+
+            Log.warn(ctx, 'Attachment rejected', { filename: file.name, type: file.type, size: file.size });
+            await ctx.reply(t.tasks.create.fileRejected(file.name, reason));
         }
     });
 
@@ -375,9 +887,16 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
         const t = getTexts(lang);
 
         try {
+            // Список задач: страницы, фильтры, виды (my_tasks — кнопка из дайджеста)
+            if (data === 'my_tasks' || data.startsWith('tl_')) {
+                await handleTaskListCallback(ctx, data);
+                return;
+            }
+
             // Просмотр задачи
             if (data.startsWith('view_task_')) {
                 const taskId = data.replace('view_task_', '');
+                editWizard.clear(ctx.user.telegramId);
                 const task = tasksRepo.getByPlankaId(taskId);
 
                 if (!task) {
@@ -385,8 +904,14 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
                     return;
                 }
 
-                const message = formatTask(task, lang);
-                const keyboard = taskKeyboards.taskActions(taskId, ctx.isOwner, lang);
+                const message = formatTask(task, lang, ctx.user.timezone);
+                const keyboard = taskKeyboards.taskActions(
+                    taskId,
+                    ctx.isOwner,
+                    lang,
+                    task.status,
+                    task.assigneeId === String(ctx.user.telegramId)
+                );
 
                 await ctx.editMessageText(message, {
                     parse_mode: 'Markdown',
@@ -396,9 +921,27 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
                 return;
             }
 
-            // Обновление задачи
-            if (data.startsWith('refresh_task_')) {
-                const taskId = data.replace('refresh_task_', '');
+            // Привязка чата к доске
+            if (data.startsWith('link_board_') || data === 'unlink_board') {
+                const chatId = ctx.chat!.id;
+
+                if (data === 'unlink_board') {
+                    unlinkBoard(chatId, ctx.user);
+                    await ctx.editMessageText(t.workspaces.unlinked);
+                } else {
+                    const chatTitle = ctx.chat && 'title' in ctx.chat ? ctx.chat.title : undefined;
+                    await linkBoard(chatId, data.replace('link_board_', ''), ctx.user, chatTitle);
+                    const name = await getLinkedBoardName(chatId);
+                    await ctx.editMessageText(t.workspaces.linked(name || ''), { parse_mode: 'Markdown' });
+                }
+
+                await ctx.answerCbQuery();
+                return;
+            }
+
+            // История задачи
+            if (data.startsWith('task_history_')) {
+                const taskId = data.replace('task_history_', '');
                 const task = tasksRepo.getByPlankaId(taskId);
 
                 if (!task) {
@@ -406,51 +949,519 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
                     return;
                 }
 
-                const message = formatTask(task, lang);
-                const keyboard = taskKeyboards.taskActions(taskId, ctx.isOwner, lang);
-
-                await ctx.editMessageText(message, {
+                await ctx.editMessageText(formatTaskHistory(task, getTaskHistory(taskId), lang, ctx.user.timezone), {
                     parse_mode: 'Markdown',
-                    reply_markup: keyboard,
+                    reply_markup: {
+                        inline_keyboard: [[{ text: t.buttons.back, callback_data: `view_task_${taskId}` }]],
+                    },
                 });
-                await ctx.answerCbQuery('🔄 ' + t.common.success);
+                await ctx.answerCbQuery();
                 return;
             }
 
-            // Подтверждение создания задачи
-            if (data.startsWith('confirm_create_')) {
+            // Последние комментарии из Planka
+            if (data.startsWith('task_comments_')) {
+                const taskId = data.replace('task_comments_', '');
+                const task = tasksRepo.getByPlankaId(taskId);
+
+                if (!task) {
+                    await ctx.answerCbQuery(t.common.notFound);
+                    return;
+                }
+
+                let comments;
+                try {
+                    comments = await getTaskComments(taskId);
+                } catch (error) {
+                    Log.error(ctx, 'Failed to load task comments', error, { taskId });
+                    await ctx.answerCbQuery(t.tasks.comments.failed);
+                    return;
+                }
+
+                await ctx.editMessageText(formatTaskComments(task, comments, lang, ctx.user.timezone), {
+                    reply_markup: {
+                        inline_keyboard: [[{ text: t.buttons.back, callback_data: `view_task_${taskId}` }]],
+                    },
+                });
+                rememberTaskMessage(ctx.callbackQuery.message, taskId);
+                await ctx.answerCbQuery();
+                return;
+            }
+
+            // Открытие редактора задачи
+            if (data.startsWith('edit_task_')) {
+                const taskId = data.replace('edit_task_', '');
+                const task = tasksRepo.getByPlankaId(taskId);
+
+                if (!task) {
+                    await ctx.answerCbQuery(t.common.notFound);
+                    return;
+                }
+
+                if (!canEditTask(task, ctx.user)) {
+                    await ctx.answerCbQuery(t.auth.noPermission);
+                    return;
+                }
+
+                editWizard.clear(ctx.user.telegramId);
+
+                await ctx.editMessageText(formatTaskEditor(task, lang, ctx.user.timezone), {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboards.taskEdit(taskId, lang).reply_markup,
+                });
+                await ctx.answerCbQuery();
+                return;
+            }
+
+            // Редактирование: текстовые поля и выбор значений
+            const editMatch = data.match(/^edit_(name|desc|due|priority|category|status|assignee|reminders)_(.+)$/);
+            if (editMatch) {
+                const [, field, taskId] = editMatch as [string, string, string];
+                const task = tasksRepo.getByPlankaId(taskId);
+
+                if (!task) {
+                    await ctx.answerCbQuery(t.common.notFound);
+                    return;
+                }
+
+                if (!canEditTask(task, ctx.user, field === 'status')) {
+                    await ctx.answerCbQuery(t.auth.noPermission);
+                    return;
+                }
+
+                if (field === 'name' || field === 'desc' || field === 'due') {
+                    const inputField = ({ name: 'title', desc: 'description', due: 'dueDate' } as const)[field];
+
+                    editWizard.start(ctx.user.telegramId, { step: 'input', taskId, field: inputField });
+
+                    await ctx.editMessageText(getEditPrompt(t, inputField), {
+                        reply_markup: editCancelKeyboard(t, taskId),
+                    });
+                } else if (field === 'priority') {
+                    await ctx.editMessageText(t.tasks.edit.selectPriority, {
+                        reply_markup: keyboards.prioritySelect(taskId, task.priority, lang).reply_markup,
+                    });
+                } else if (field === 'category') {
+                    await ctx.editMessageText(t.tasks.edit.selectCategory, {
+                        reply_markup: keyboards.categorySelect(taskId, task.category, lang).reply_markup,
+                    });
+                } else if (field === 'reminders') {
+                    await ctx.editMessageText(t.reminders.selectForTask(task.title), {
+                        reply_markup: keyboards.reminderSelect(
+                            `set_reminders_${taskId}_`,
+                            lang,
+                            `edit_task_${taskId}`
+                        ).reply_markup,
+                    });
+                } else if (field === 'status') {
+                    await ctx.editMessageText(t.tasks.edit.selectStatus, {
+                        reply_markup: keyboards.statusSelect(taskId, task.status, lang).reply_markup,
+                    });
+                } else {
+                    await ctx.editMessageText(t.tasks.edit.selectAssignee, {
+                        reply_markup: keyboards.taskAssigneeSelect(taskId, getAvailableAssignees(), lang).reply_markup,
+                    });
+                }
+
+                await ctx.answerCbQuery();
+                return;
+            }
+
+            // Напоминания задачи: готовый набор или переход к вводу своих интервалов
+            const remindersMatch = data.match(/^set_reminders_([^_]+)_(.+)$/);
+            if (remindersMatch) {
+                const [, taskId, preset] = remindersMatch as [string, string, string];
+
+                if (preset === 'custom') {
+                    editWizard.start(ctx.user.telegramId, { step: 'input', taskId, field: 'reminderOffsets' });
+
+                    await ctx.editMessageText(getEditPrompt(t, 'reminderOffsets'), {
+                        reply_markup: editCancelKeyboard(t, taskId),
+                    });
+                    await ctx.answerCbQuery();
+                    return;
+                }
+
+                const task = await editTask({ taskId, reminderOffsets: resolveReminderPreset(preset) }, ctx.user);
+
+                await ctx.editMessageText(formatTaskEditor(task, lang, ctx.user.timezone), {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboards.taskEdit(taskId, lang).reply_markup,
+                });
+                await ctx.answerCbQuery(t.reminders.saved);
+
+                Log.info(ctx, 'Task reminders updated', { taskId, preset });
+                return;
+            }
+
+            // Настройки: выбран час дайджеста
+            const digestHourMatch = data.match(/^settings_(morning|evening)_(\d{1,2})$/);
+            if (digestHourMatch) {
+                const hour = parseInt(digestHourMatch[2]!, 10);
+
+                if (digestHourMatch[1] === 'morning') {
+                    settingsRepo.setDigestHour(ctx.user.telegramId, hour);
+                } else {
+                    settingsRepo.setEveningDigestHour(ctx.user.telegramId, hour);
+                }
+
+                const showEvening = ctx.isOwner || ctx.isAdmin;
+                await ctx.editMessageText(formatSettingsMenu(ctx.user, showEvening), {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboards.settingsMenu(settingsRepo.getOrDefault(ctx.user.telegramId), lang, showEvening).reply_markup,
+                });
+                await ctx.answerCbQuery(t.settings.saved);
+
+                Log.info(ctx, 'Digest hour updated', { type: digestHourMatch[1], hour });
+                return;
+            }
+
+            // Настройки: выбор часа утреннего или вечернего дайджеста
+            if (data === 'settings_morning' || data === 'settings_evening') {
+                const settings = settingsRepo.getOrDefault(ctx.user.telegramId);
+                const isMorning = data === 'settings_morning';
+
+                // Оба дайджеста в один час не нужны — занятый час не предлагаем
+                await ctx.editMessageText(isMorning ? t.settings.selectMorning : t.settings.selectEvening, {
+                    reply_markup: keyboards.hourSelect(
+                        `${data}_`,
+                        lang,
+                        isMorning ? settings.eveningDigestHour : settings.digestHour,
+                        'settings_back'
+                    ).reply_markup,
+                });
+                await ctx.answerCbQuery();
+                return;
+            }
+
+            // Настройки: переключатели и возврат в меню
+            if (data === 'settings_digest' || data === 'settings_notifications' || data === 'settings_back') {
+                if (data === 'settings_digest') {
+                    settingsHelpers.toggleDigest(ctx.user.telegramId);
+                }
+
+                if (data === 'settings_notifications') {
+                    settingsHelpers.toggleNotifications(ctx.user.telegramId);
+                }
+
+                const showEvening = ctx.isOwner || ctx.isAdmin;
+                await ctx.editMessageText(formatSettingsMenu(ctx.user, showEvening), {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboards.settingsMenu(settingsRepo.getOrDefault(ctx.user.telegramId), lang, showEvening).reply_markup,
+                });
+                await ctx.answerCbQuery(data === 'settings_back' ? undefined : t.settings.saved);
+                return;
+            }
+
+            // Настройки: часовой пояс и напоминания — их собственные меню
+            if (data === 'settings_timezone') {
+                await ctx.editMessageText(formatTimezoneSettings(ctx.user.timezone, lang), {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboards.timezoneSelect().reply_markup,
+                });
+                await ctx.answerCbQuery();
+                return;
+            }
+
+            if (data === 'settings_reminders') {
+                await ctx.editMessageText(formatReminderSettings(ctx.user.telegramId, lang), {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboards.reminderSelect('reminder_defaults_', lang).reply_markup,
+                });
+                await ctx.answerCbQuery();
+                return;
+            }
+
+            // Выбор часового пояса из списка
+            if (data.startsWith('set_timezone_')) {
+                const user = setUserTimezone(ctx.user.telegramId, data.replace('set_timezone_', ''));
+
+                await ctx.editMessageText(formatTimezoneSettings(user.timezone, lang), {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboards.timezoneSelect().reply_markup,
+                });
+                await ctx.answerCbQuery(t.timezone.saved(user.timezone));
+                return;
+            }
+
+            // Напоминания пользователя по умолчанию
+            if (data.startsWith('reminder_defaults_')) {
+                const preset = data.replace('reminder_defaults_', '');
+
+                if (preset === 'custom') {
+                    await ctx.answerCbQuery();
+                    await ctx.reply(t.reminders.customCommand);
+                    return;
+                }
+
+                setUserReminderOffsets(ctx.user.telegramId, resolveReminderPreset(preset));
+
+                await ctx.editMessageText(formatReminderSettings(ctx.user.telegramId, lang), {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboards.reminderSelect('reminder_defaults_', lang).reply_markup,
+                });
+                await ctx.answerCbQuery(t.reminders.saved);
+                return;
+            }
+
+            // Просьба о продлении срока: спрашиваем новую дату
+            if (data.startsWith('extend_task_')) {
+                const taskId = data.replace('extend_task_', '');
+                const task = getExtendableTask(taskId, ctx.user);
+
+                extensionWizard.start(ctx.user.telegramId, { step: 'date', taskId });
+
+                await ctx.reply(t.extensions.enterDate(task.title));
+                await ctx.answerCbQuery();
+                return;
+            }
+
+            // Решение по запросу на продление
+            const extensionMatch = data.match(/^ext_(approve|reject|counter|accept|decline)_(\d+)$/);
+            if (extensionMatch) {
+                const [, action, id] = extensionMatch as [string, string, string];
+                const requestId = parseInt(id);
+
+                if (action === 'counter') {
+                    const request = extensionRequestsRepo.getById(requestId);
+
+                    if (!request) {
+                        await ctx.answerCbQuery(t.common.notFound);
+                        return;
+                    }
+
+                    extensionWizard.start(ctx.user.telegramId, {
+                        step: 'counter',
+                        taskId: request.taskId,
+                        requestId,
+                    });
+
+                    await ctx.reply(t.extensions.enterCounter);
+                    await ctx.answerCbQuery();
+                    return;
+                }
+
+                let decision: string;
+
+                if (action === 'approve') {
+                    await approveExtension(requestId, ctx.user);
+                    decision = t.extensions.decisionApproved;
+                } else if (action === 'reject') {
+                    await rejectExtension(requestId, ctx.user);
+                    decision = t.extensions.decisionRejected;
+                } else {
+                    const accepted = action === 'accept';
+                    await respondToCounter(requestId, ctx.user, accepted);
+                    decision = accepted ? t.extensions.decisionApproved : t.extensions.decisionRejected;
+                }
+
+                // Текст запроса без Markdown — дописываем решение и убираем кнопки
+                const original = ctx.callbackQuery.message && 'text' in ctx.callbackQuery.message
+                    ? ctx.callbackQuery.message.text
+                    : '';
+                await ctx.editMessageText(`${original}\n\n${decision}`);
+                await ctx.answerCbQuery(decision);
+
+                Log.info(ctx, 'Extension request answered', { requestId, action });
+                return;
+            }
+
+            // Кнопки под напоминанием о дедлайне
+            const remindMatch = data.match(/^remind_(snooze|start|done)_([^_]+)(?:_(1h|tomorrow))?$/);
+            if (remindMatch) {
+                const [, action, taskId, option] = remindMatch as [string, string, string, SnoozeOption | undefined];
+                const viewOnly = {
+                    inline_keyboard: [[{ text: t.buttons.viewTask, callback_data: `view_task_${taskId}` }]],
+                };
+
+                if (action === 'snooze') {
+                    const until = snoozeReminder(taskId, ctx.user, option || '1h');
+
+                    await ctx.editMessageReplyMarkup(viewOnly);
+                    await ctx.answerCbQuery(t.reminders.snoozed(formatDateTime(until, lang, ctx.user.timezone)));
+                    return;
+                }
+
+                const task = action === 'start'
+                    ? await startTaskFromReminder(taskId, ctx.user)
+                    : await completeTaskFromReminder(taskId, ctx.user);
+
+                await ctx.editMessageText(formatTask(task, lang, ctx.user.timezone), {
+                    parse_mode: 'Markdown',
+                    reply_markup: taskKeyboards.taskActions(
+                        taskId,
+                        ctx.isOwner,
+                        lang,
+                        task.status,
+                        task.assigneeId === String(ctx.user.telegramId)
+                    ),
+                });
+                await ctx.answerCbQuery(t.tasks.edit.success);
+
+                Log.info(ctx, 'Reminder action', { taskId, action, status: task.status });
+                return;
+            }
+
+            // Редактирование: применение выбранного значения
+            const setMatch = data.match(/^set_(priority|category|status|assignee)_([^_]+)_(.+)$/);
+            if (setMatch) {
+                const [, field, taskId, value] = setMatch as [string, string, string, string];
+
+                const changes = {
+                    priority: { priority: TaskPriority[value as keyof typeof TaskPriority] },
+                    category: { category: TaskCategory[value as keyof typeof TaskCategory] },
+                    status: { status: value as TaskStatus },
+                    assignee: { assigneeId: value === 'none' ? '' : value },
+                }[field as 'priority' | 'category' | 'status' | 'assignee'];
+
+                const task = await editTask({ taskId, ...changes }, ctx.user);
+
+                // После смены статуса возвращаем к карточке, после прочих правок — в редактор
+                const showEditor = field !== 'status' && canEditTask(task, ctx.user);
+
+                await ctx.editMessageText(showEditor ? formatTaskEditor(task, lang, ctx.user.timezone) : formatTask(task, lang, ctx.user.timezone), {
+                    parse_mode: 'Markdown',
+                    reply_markup: showEditor
+                        ? keyboards.taskEdit(taskId, lang).reply_markup
+                        : taskKeyboards.taskActions(
+                            taskId,
+                            ctx.isOwner,
+                            lang,
+                            task.status,
+                            task.assigneeId === String(ctx.user.telegramId)
+                        ),
+                });
+                await ctx.answerCbQuery(t.tasks.edit.success);
+
+                Log.info(ctx, 'Task field updated', { taskId, field, value });
+                return;
+            }
+
+            // Обновление задачи
+            if (data.startsWith('refresh_task_')) {
+                const taskId = data.replace('refresh_task_', '');
+                const task = tasksRepo.getByPlankaId(taskId);
+
+                if (!task) {
+                    await ctx.answerCbQuery(t.common.notFound);
+                    return;
+                }
+
+                const message = formatTask(task, lang, ctx.user.timezone);
+                const keyboard = taskKeyboards.taskActions(
+                    taskId,
+                    ctx.isOwner,
+                    lang,
+                    task.status,
+                    task.assigneeId === String(ctx.user.telegramId)
+                );
+
+                await ctx.editMessageText(message, {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboard,
+                });
+                await ctx.answerCbQuery('🔄 ' + t.common.success);
+                return;
+            }
+
+            // Подтверждение создания задачи
+            if (data.startsWith('confirm_create_')) {
                 const sessionId = data.replace('confirm_create_', '');
-                const session = taskSessions.get(ctx.user.telegramId);
+                const session = taskWizard.get(ctx.user.telegramId);
 
                 if (!session || session.sessionId !== sessionId) {
                     await ctx.answerCbQuery(t.common.error);
                     return;
                 }
 
+                // Забираем черновик до создания: повторное нажатие
+                // или повтор callback-а не создаст вторую карточку
+                taskWizard.clear(ctx.user.telegramId);
+
                 await ctx.answerCbQuery(t.common.loading);
 
-                // Создаём задачу
-                const result = await createTask(session.data as CreateTaskInput);
+                // Создаём задачу; при ошибке возвращаем черновик для повтора
+                let result: Awaited<ReturnType<typeof createTask>>;
 
-                // Очищаем сессию
-                taskSessions.delete(ctx.user.telegramId);
+                try {
+                    result = await createTask(session.data as CreateTaskInput);
+                } catch (error) {
+                    taskWizard.save(session);
+                    throw error;
+                }
 
                 // Отправляем результат
-                const successMessage = t.tasks.create.success(
+                let successMessage = t.tasks.create.success(
                     result.task.title,
                     result.listName,
                     result.assignee?.fullName || result.assignee?.username
                 );
 
+                const report = t.tasks.create.attachmentsReport(
+                    result.attachments.uploaded,
+                    result.attachments.failed
+                );
+                if (report) {
+                    successMessage += `\n\n${report}`;
+                }
+
                 await ctx.editMessageText(successMessage, { parse_mode: 'Markdown' });
 
+                if (session.origin) {
+                    await announceGroupTask(ctx, session.origin, result);
+                }
+
                 Log.info(ctx, 'Task created', { taskId: result.task.id });
                 return;
             }
 
+            // Переход к сбору вложений
+            if (data.startsWith('add_files_')) {
+                const sessionId = data.replace('add_files_', '');
+                const session = taskWizard.get(ctx.user.telegramId);
+
+                if (!session || session.sessionId !== sessionId) {
+                    await ctx.answerCbQuery(t.common.error);
+                    return;
+                }
+
+                session.step = 'files';
+                taskWizard.save(session);
+
+                await ctx.editMessageText(t.tasks.create.waitingFiles, {
+                    reply_markup: createTaskKeyboards.collectFiles(session.sessionId, lang),
+                });
+                await ctx.answerCbQuery();
+                return;
+            }
+
+            // Файлы собраны — снова показываем предпросмотр
+            if (data.startsWith('files_done_')) {
+                const sessionId = data.replace('files_done_', '');
+                const session = taskWizard.get(ctx.user.telegramId);
+
+                if (!session || session.sessionId !== sessionId) {
+                    await ctx.answerCbQuery(t.common.error);
+                    return;
+                }
+
+                session.step = 'confirm';
+
+                const preview = prepareTaskPreview(session.data, lang, session.analysis, ctx.user.timezone);
+                const msg = await ctx.replyWithMarkdown(preview, {
+                    reply_markup: createTaskKeyboards.confirmCreate(session.sessionId, lang),
+                });
+                session.messageId = msg.message_id;
+                taskWizard.save(session);
+
+                await ctx.answerCbQuery();
+                return;
+            }
+
             // Отмена создания задачи
             if (data === 'cancel_task' || data === 'cancel') {
-                taskSessions.delete(ctx.user.telegramId);
+                taskWizard.clear(ctx.user.telegramId);
+                editWizard.clear(ctx.user.telegramId);
                 await ctx.editMessageText(t.common.cancelled);
                 await ctx.answerCbQuery();
                 return;
@@ -460,20 +1471,662 @@ export function registerWorkHandlers(bot: Telegraf<AuthContext>) {
 
         } catch (error) {
             Log.error(ctx, 'Callback query error', error);
-            await ctx.answerCbQuery(t.common.error);
+            await ctx.answerCbQuery(errorToUserMessage(error, lang));
         }
     });
+}
+
+/**
+ * Создание сессии мастера задачи
+ */
+function startTaskSession(userId: number, username: string | undefined, chatId: number): TaskCreationSession {
+    return taskWizard.start(userId, {
+        step: 'message',
+        chatId,
+        data: {
+            userId,
+            username: username || '',
+            chatId,
+        },
+    });
+}
+
+/**
+ * Продолжение мастера задачи после перезапуска: напоминание и текущий шаг
+ */
+function resumeTaskPrompt(
+    session: TaskCreationSession,
+    text: (lang: Language, user: User) => string,
+    keyboard?: (lang: Language) => WizardPrompt['reply_markup']
+): WizardPrompt | null {
+    const user = usersRepo.getByTelegramId(session.userId);
+
+    if (!user) {
+        return null;
+    }
+
+    const t = getTexts(user.language);
+
+    return {
+        text: `${t.tasks.create.resumed}\n\n${text(user.language, user)}`,
+        parse_mode: 'Markdown',
+        reply_markup: keyboard?.(user.language),
+    };
+}
+
+/**
+ * Продолжение ввода (редактирование, продление срока) после перезапуска
+ */
+function resumeInputPrompt(
+    session: { userId: number },
+    text: (t: ReturnType<typeof getTexts>) => string,
+    keyboard?: (t: ReturnType<typeof getTexts>) => WizardPrompt['reply_markup']
+): WizardPrompt | null {
+    const user = usersRepo.getByTelegramId(session.userId);
+
+    if (!user) {
+        return null;
+    }
+
+    const t = getTexts(user.language);
+
+    return {
+        text: `${t.common.resumed}\n\n${text(t)}`,
+        reply_markup: keyboard?.(t),
+    };
+}
+
+/**
+ * Подсказка для ввода нового значения поля задачи
+ */
+function getEditPrompt(t: ReturnType<typeof getTexts>, field: TaskEditState['field']): string {
+    return {
+        title: t.tasks.edit.enterName,
+        description: t.tasks.edit.enterDescription,
+        dueDate: t.tasks.edit.enterDueDate,
+        reminderOffsets: t.reminders.enterCustom,
+    }[field];
+}
+
+/**
+ * Кнопка отмены ввода — возврат в редактор задачи
+ */
+function editCancelKeyboard(t: ReturnType<typeof getTexts>, taskId: string): InlineKeyboardMarkup {
+    return {
+        inline_keyboard: [[{ text: t.buttons.cancel, callback_data: `edit_task_${taskId}` }]],
+    };
+}
+
+/**
+ * Напоминания о незавершённых мастерах после перезапуска бота
+ */
+export async function resumeWorkWizards(telegram: Telegram): Promise<number> {
+    return resumeWizards([taskWizard, editWizard, extensionWizard], (userId, prompt) =>
+        telegram.sendMessage(userId, prompt.text, {
+            parse_mode: prompt.parse_mode,
+            reply_markup: prompt.reply_markup,
+        })
+    );
+}
+
+/**
+ * Файл из входящего сообщения (документ, фото или видео)
+ */
+function getIncomingFile(message: any): {
+    fileId: string;
+    name: string;
+    size: number;
+    type: string;
+} | null {
+    if (message.document) {
+        return {
+            fileId: message.document.file_id,
+            name: message.document.file_name || `document_${message.document.file_unique_id}`,
+            size: message.document.file_size || 0,
+            type: message.document.mime_type || 'application/octet-stream',
+        };
+    }
+
+    if (message.photo && message.photo.length > 0) {
+        // Берём самое большое разрешение
+        const photo = message.photo[message.photo.length - 1];
+        return {
+            fileId: photo.file_id,
+            name: `photo_${photo.file_unique_id}.jpg`,
+            size: photo.file_size || 0,
+            type: 'image/jpeg',
+        };
+    }
+
+    if (message.video) {
+        return {
+            fileId: message.video.file_id,
+            name: message.video.file_name || `video_${message.video.file_unique_id}.mp4`,
+            size: message.video.file_size || 0,
+            type: message.video.mime_type || 'video/mp4',
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Текст редактора задачи
+ */
+function formatTaskEditor(task: Task, lang: Language, timeZone: string): string {
+    const t = getTexts(lang);
+    return `${formatTask(task, lang, timeZone)}\n\n${t.tasks.edit.selectField}`;
+}
+
+/**
+ * Текущие напоминания пользователя по умолчанию
+ */
+function formatReminderSettings(userId: number, lang: Language): string {
+    const t = getTexts(lang);
+    const settings = settingsRepo.getOrDefault(userId);
+    const offsets = formatReminderOffsets(getUserReminderOffsets(userId), lang);
+
+    const lines = [
+        t.reminders.title,
+        '',
+        t.reminders.current(settings.reminderOffsets ? offsets : t.reminders.byDefault(offsets)),
+    ];
+
+    if (!settings.notificationsEnabled) {
+        lines.push(t.reminders.notificationsOff);
+    }
+
+    lines.push('', t.reminders.select);
+
+    return lines.join('\n');
+}
+
+/**
+ * Ошибка ввода интервалов — подсказка с допустимыми значениями
+ */
+function reminderErrorMessage(error: unknown, lang: Language): string {
+    if (error instanceof AppError && error.code === ErrorCodes.VALIDATION_ERROR) {
+        return getTexts(lang).reminders.invalid(
+            LIMITS.MIN_REMINDER_OFFSET,
+            LIMITS.MAX_REMINDER_OFFSET / 1440,
+            LIMITS.MAX_REMINDERS_PER_TASK
+        );
+    }
+
+    return errorToUserMessage(error, lang);
+}
+
+/**
+ * Текст меню /settings
+ */
+function formatSettingsMenu(user: User, showEvening: boolean): string {
+    const t = getTexts(user.language);
+    const settings = settingsRepo.getOrDefault(user.telegramId);
+    const lines = [t.settings.title, ''];
+
+    lines.push(t.settings.digest(settings.digestEnabled));
+    lines.push(t.settings.morning(formatHour(settings.digestHour)));
+
+    if (showEvening) {
+        lines.push(t.settings.evening(formatHour(settings.eveningDigestHour)));
+    }
+
+    lines.push(t.settings.notifications(settings.notificationsEnabled));
+    lines.push(t.settings.timezone(formatTimezone(user.timezone).replace(/_/g, '\\_')));
+    lines.push(t.settings.reminders(formatReminderOffsets(getUserReminderOffsets(user.telegramId), user.language)));
+
+    return lines.join('\n');
+}
+
+/**
+ * Текст настроек часового пояса (подчёркивания в названии экранируются для Markdown)
+ */
+function formatTimezoneSettings(timeZone: string, lang: Language): string {
+    const t = getTexts(lang);
+
+    return [
+        t.timezone.title,
+        '',
+        t.timezone.current(formatTimezone(timeZone).replace(/_/g, '\\_')),
+        '',
+        t.timezone.select,
+        t.timezone.hint,
+    ].join('\n');
+}
+
+/**
+ * Ошибка ввода часового пояса — с примером правильного формата
+ */
+function timezoneErrorMessage(error: unknown, lang: Language): string {
+    if (error instanceof AppError && error.code === ErrorCodes.VALIDATION_ERROR) {
+        return getTexts(lang).timezone.invalid;
+    }
+
+    return errorToUserMessage(error, lang);
+}
+
+/**
+ * Текст и кнопки списка задач; состояние запоминается для кнопок списка
+ */
+function renderTaskList(ctx: AuthContext, state: TaskListState): { text: string; reply_markup: InlineKeyboardMarkup } {
+    const user = ctx.user!;
+    const lang = user.language;
+    const result = listTasks(user, state.filters, state.page, user.timezone);
+    const views = getTaskViews(user.telegramId);
+    const view = views.find(v => v.id === state.viewId);
+
+    contextHelpers.addToContext(ctx.chat!.id, user.telegramId, TASK_LIST_CONTEXT_KEY, {
+        ...state,
+        page: result.page,
+        viewId: view?.id,
+    });
+
+    return {
+        text: formatTaskListPage(result, state.filters, lang, user.timezone, view?.name),
+        reply_markup: taskKeyboards.listPage(result, state.filters, views, {
+            activeViewId: view?.id,
+            canSave: ctx.chat?.type === 'private',
+            canReset: !isDefaultListFilters(state.filters),
+        }, lang),
+    };
+}
+
+/**
+ * Кнопки списка задач
+ */
+async function handleTaskListCallback(ctx: AuthContext, data: string): Promise<void> {
+    const user = ctx.user!;
+    const lang = user.language;
+    const t = getTexts(lang);
+    const chatId = ctx.chat!.id;
+
+    if (data === 'tl_noop') {
+        await ctx.answerCbQuery();
+        return;
+    }
+
+    // Из дайджеста — новым сообщением, остальное — правка списка
+    if (data === 'my_tasks') {
+        const list = renderTaskList(ctx, { filters: DEFAULT_TASK_LIST_FILTERS, page: 1 });
+        await ctx.replyWithMarkdown(list.text, { reply_markup: list.reply_markup });
+        await ctx.answerCbQuery();
+        return;
+    }
+
+    const state: TaskListState = contextHelpers.getFromContext(chatId, user.telegramId, TASK_LIST_CONTEXT_KEY)
+        ?? { filters: DEFAULT_TASK_LIST_FILTERS, page: 1 };
+    let notice: string | undefined;
+
+    // Меню значений фильтра
+    const menuMatch = data.match(/^tl_menu_(\w+)$/);
+    if (menuMatch && isListFilterField(menuMatch[1]!)) {
+        const field = menuMatch[1];
+        const values = field === 'scope' && !canListAllTasks(user)
+            ? TASK_LIST_OPTIONS.scope.filter(scope => scope !== 'all')
+            : TASK_LIST_OPTIONS[field];
+
+        await ctx.editMessageReplyMarkup(taskKeyboards.listFilter(field, values, state.filters[field], lang));
+        await ctx.answerCbQuery();
+        return;
+    }
+
+    const setMatch = data.match(/^tl_set_(scope|status|priority|category|due|sort)_(.+)$/);
+    if (setMatch && isListFilterField(setMatch[1]!)) {
+        const value = setMatch[2] === 'any' ? undefined : setMatch[2];
+        state.filters = setListFilter(state.filters, setMatch[1], value);
+        state.page = 1;
+        state.viewId = undefined;
+    } else if (data.startsWith('tl_page_')) {
+        state.page = parseInt(data.replace('tl_page_', '')) || 1;
+    } else if (data === 'tl_reset') {
+        state.filters = DEFAULT_TASK_LIST_FILTERS;
+        state.page = 1;
+        state.viewId = undefined;
+    } else if (data.startsWith('tl_view_')) {
+        const view = getTaskView(user.telegramId, parseInt(data.replace('tl_view_', '')));
+
+        if (!view) {
+            await ctx.answerCbQuery(t.common.notFound);
+            return;
+        }
+
+        state.filters = view.filters;
+        state.page = 1;
+        state.viewId = view.id;
+    } else if (data.startsWith('tl_delview_')) {
+        const viewId = parseInt(data.replace('tl_delview_', ''));
+        const view = getTaskView(user.telegramId, viewId);
+
+        if (view && deleteTaskView(user.telegramId, viewId)) {
+            notice = t.tasks.list.viewDeleted(view.name);
+        }
+
+        state.viewId = undefined;
+    } else if (data === 'tl_save') {
+        if (getTaskViews(user.telegramId).length >= LIMITS.MAX_TASK_VIEWS) {
+            await ctx.answerCbQuery(t.tasks.list.viewsLimit(LIMITS.MAX_TASK_VIEWS), { show_alert: true });
+            return;
+        }
+
+        saveViewWizard.start(user.telegramId, { step: 'name', filters: state.filters });
+        await ctx.reply(t.tasks.list.enterViewName(LIMITS.MAX_TASK_VIEW_NAME_LENGTH));
+        await ctx.answerCbQuery();
+        return;
+    }
+
+    // tl_back и все изменения — перерисовка списка
+    const list = renderTaskList(ctx, state);
+
+    try {
+        await ctx.editMessageText(list.text, { parse_mode: 'Markdown', reply_markup: list.reply_markup });
+    } catch (error: any) {
+        // Кнопка, которая ничего не поменяла (тот же фильтр)
+        if (!error.response?.description?.includes('message is not modified')) {
+            throw error;
+        }
+    }
+
+    await ctx.answerCbQuery(notice);
+}
+
+/**
+ * Название нового вида списка
+ * Занятое название — просим другое, остальные ошибки завершают ввод
+ */
+async function handleSaveViewInput(
+    ctx: AuthContext & { message: { text: string } },
+    session: WizardSession<SaveViewState>
+): Promise<void> {
+    const user = ctx.user!;
+    const lang = user.language;
+    const t = getTexts(lang);
+    const name = ctx.message.text.trim();
+
+    try {
+        const view = saveTaskView(user.telegramId, name, session.filters);
+        saveViewWizard.clear(user.telegramId);
+
+        await ctx.reply(t.tasks.list.viewSaved(view.name));
+
+        const list = renderTaskList(ctx, { filters: view.filters, page: 1, viewId: view.id });
+        await ctx.replyWithMarkdown(list.text, { reply_markup: list.reply_markup });
+    } catch (error) {
+        if (error instanceof AppError && error.code === ErrorCodes.ALREADY_EXISTS) {
+            await ctx.reply(t.tasks.list.viewExists(name));
+            return;
+        }
+
+        if (error instanceof AppError && error.code === ErrorCodes.VALIDATION_ERROR && !error.meta?.max) {
+            await ctx.reply(t.tasks.list.viewNameInvalid(LIMITS.MAX_TASK_VIEW_NAME_LENGTH));
+            return;
+        }
+
+        saveViewWizard.clear(user.telegramId);
 
-    // Очистка старых сессий каждые 5 минут
-    setInterval(() => {
-        const now = Date.now();
-        const timeout = 60 * 60 * 1000; // 1 час
+        if (error instanceof AppError && error.code === ErrorCodes.VALIDATION_ERROR) {
+            await ctx.reply(t.tasks.list.viewsLimit(LIMITS.MAX_TASK_VIEWS));
+            return;
+        }
+
+        Log.error(ctx, 'Failed to save task view', error);
+        await ctx.reply(errorToUserMessage(error, lang));
+    }
+}
 
-        for (const [userId, session] of taskSessions.entries()) {
-            if (now - session.createdAt.getTime() > timeout) {
-                taskSessions.delete(userId);
-                Log.info({ userId }, 'Task session expired', { sessionId: session.sessionId });
+/**
+ * Применение текстового ввода при редактировании
+ */
+async function handleEditInput(ctx: AuthContext & { message: { text: string } }, session: TaskEditSession): Promise<void> {
+    const user = ctx.user!;
+    const lang = user.language;
+    const t = getTexts(lang);
+    const text = ctx.message.text.trim();
+
+    try {
+        let task: Task;
+
+        if (session.field === 'dueDate') {
+            const dueDate = text === '-' ? null : parseDate(text, user.timezone);
+
+            if (dueDate === null && text !== '-') {
+                await ctx.reply(t.tasks.edit.invalidDate);
+                return;
             }
+
+            task = await editTask({ taskId: session.taskId, dueDate }, user);
+        } else if (session.field === 'reminderOffsets') {
+            let reminderOffsets: number[];
+
+            try {
+                reminderOffsets = parseReminderOffsets(text);
+            } catch (error) {
+                await ctx.reply(reminderErrorMessage(error, lang));
+                return;
+            }
+
+            task = await editTask({ taskId: session.taskId, reminderOffsets }, user);
+        } else {
+            task = await editTask({ taskId: session.taskId, [session.field]: text }, user);
         }
-    }, 5 * 60 * 1000);
-}
\ No newline at end of file
+
+        editWizard.clear(user.telegramId);
+
+        await ctx.replyWithMarkdown(formatTaskEditor(task, lang, user.timezone), {
+            reply_markup: keyboards.taskEdit(session.taskId, lang).reply_markup,
+        });
+
+        Log.info(ctx, 'Task field updated', { taskId: session.taskId, field: session.field });
+    } catch (error) {
+        Log.error(ctx, 'Failed to edit task', error);
+        editWizard.clear(user.telegramId);
+        await ctx.reply(errorToUserMessage(error, lang));
+    }
+}
+
+/**
+ * Пошаговый ввод для продления срока
+ */
+async function handleExtensionInput(ctx: AuthContext & { message: { text: string } }, session: ExtensionSession): Promise<void> {
+    const user = ctx.user!;
+    const lang = user.language;
+    const t = getTexts(lang);
+    const text = ctx.message.text.trim();
+
+    try {
+        if (session.step === 'reason') {
+            await requestDeadlineExtension(session.taskId, user, session.proposedDueDate!, text);
+            extensionWizard.clear(user.telegramId);
+            await ctx.reply(t.extensions.sent);
+            return;
+        }
+
+        const dueDate = parseDate(text, user.timezone);
+
+        if (!dueDate) {
+            await ctx.reply(t.tasks.edit.invalidDate);
+            return;
+        }
+
+        const task = tasksRepo.getByPlankaId(session.taskId);
+
+        if (!task) {
+            extensionWizard.clear(user.telegramId);
+            await ctx.reply(t.common.notFound);
+            return;
+        }
+
+        try {
+            validateProposedDueDate(task, dueDate);
+        } catch (error) {
+            await ctx.reply(t.extensions.invalidDate);
+            return;
+        }
+
+        if (session.step === 'counter') {
+            await counterExtension(session.requestId!, user, dueDate);
+            extensionWizard.clear(user.telegramId);
+            await ctx.reply(t.extensions.counterSent);
+            return;
+        }
+
+        session.proposedDueDate = dueDate;
+        session.step = 'reason';
+        extensionWizard.save(session);
+
+        await ctx.reply(t.extensions.enterReason);
+    } catch (error) {
+        Log.error(ctx, 'Failed to process extension input', error, { taskId: session.taskId });
+        extensionWizard.clear(user.telegramId);
+
+        const alreadyOpen = error instanceof AppError && error.code === ErrorCodes.ALREADY_EXISTS;
+        await ctx.reply(alreadyOpen ? t.extensions.alreadyOpen : errorToUserMessage(error, lang));
+    }
+}
+
+/**
+ * Ответ на сообщение по задаче -> комментарий в карточке Planka
+ */
+async function handleCommentReply(ctx: AuthContext & { message: { text: string } }, taskId: string): Promise<void> {
+    const user = ctx.user!;
+    const lang = user.language;
+    const t = getTexts(lang);
+
+    try {
+        await addTaskComment(taskId, ctx.message.text, user);
+        await ctx.reply(t.tasks.comments.added);
+
+        Log.info(ctx, 'Comment sent to Planka', { taskId });
+    } catch (error) {
+        Log.error(ctx, 'Failed to add task comment', error, { taskId });
+        await ctx.reply(errorToUserMessage(error, lang));
+    }
+}
+
+/**
+ * Обращение к боту в группе: ответ "@bot task" на сообщение превращает его в задачу
+ * Предпросмотр уходит владельцу в личные сообщения, чтобы не засорять чат
+ */
+async function handleGroupMention(ctx: AuthContext & { message: { text: string } }): Promise<void> {
+    const user = ctx.user!;
+    const extra = parseGroupTaskMention(ctx.message.text, ctx.botInfo.username);
+
+    if (extra === null || (!ctx.isOwner && !ctx.isAdmin)) return;
+
+    const chat = ctx.chat!;
+    const lang = user.language;
+    const t = getTexts(lang);
+    const message = ctx.message as any;
+    const replyTo = message.reply_to_message;
+    const replyParameters = { reply_parameters: { message_id: message.message_id } };
+
+    const taskText = buildGroupTaskText(replyTo?.text || replyTo?.caption || '', extra);
+
+    if (!taskText) {
+        await ctx.reply(t.tasks.group.empty, replyParameters);
+        return;
+    }
+
+    if (taskWizard.has(user.telegramId)) {
+        await ctx.reply(t.tasks.create.alreadyCreating, replyParameters);
+        return;
+    }
+
+    const session = startTaskSession(user.telegramId, ctx.from?.username, chat.id);
+    session.origin = {
+        chatId: chat.id,
+        messageId: replyTo?.message_id ?? message.message_id,
+        threadId: message.is_topic_message ? message.message_thread_id : undefined,
+        title: 'title' in chat ? chat.title : undefined,
+    };
+
+    let preview: string;
+
+    try {
+        const draft = await analyzeTaskText(taskText, user, getChatBoardId(chat.id));
+        session.data = { ...session.data, ...draft.data };
+        session.analysis = { source: draft.source, inferred: draft.inferred };
+
+        // Вложение исходного сообщения переносим в задачу
+        const file = replyTo ? getIncomingFile(replyTo) : null;
+        if (file) {
+            try {
+                assertFileSize(file.size);
+                assertFileType(file.type);
+
+                session.data.attachments = [{
+                    name: file.name,
+                    fileId: file.fileId,
+                    size: file.size,
+                    type: file.type,
+                }];
+            } catch (error) {
+                Log.warn(ctx, 'Group message attachment skipped', { filename: file.name, type: file.type });
+            }
+        }
+
+        preview = prepareTaskPreview(session.data, lang, session.analysis, user.timezone);
+        if (session.origin.title) {
+            preview = `${t.tasks.group.fromChat(session.origin.title.replace(/[_*`[\]]/g, ''))}\n\n${preview}`;
+        }
+    } catch (error) {
+        Log.error(ctx, 'Failed to process group task mention', error);
+        taskWizard.clear(user.telegramId);
+        await ctx.reply(errorToUserMessage(error, lang), replyParameters);
+        return;
+    }
+
+    try {
+        const msg = await ctx.telegram.sendMessage(user.telegramId, preview, {
+            parse_mode: 'Markdown',
+            reply_markup: createTaskKeyboards.confirmCreate(session.sessionId, lang),
+        });
+        session.messageId = msg.message_id;
+        session.step = 'confirm';
+        taskWizard.save(session);
+
+        Log.info(ctx, 'Group task draft sent privately', {
+            sessionId: session.sessionId,
+            source: session.analysis.source,
+        });
+    } catch (error) {
+        // Бот не может написать первым, пока пользователь не открыл с ним личный чат
+        Log.warn(ctx, 'Failed to send group task preview privately');
+        taskWizard.clear(user.telegramId);
+        await ctx.reply(t.tasks.group.openPrivate(ctx.botInfo.username), replyParameters);
+    }
+}
+
+/**
+ * Объявление о созданной задаче в ветке группы, откуда она пришла
+ * Ответ на объявление становится комментарием к задаче
+ */
+async function announceGroupTask(
+    ctx: AuthContext,
+    origin: GroupTaskOrigin,
+    result: Awaited<ReturnType<typeof createTask>>
+): Promise<void> {
+    const user = ctx.user!;
+    const t = getTexts(user.language);
+
+    try {
+        const message = await ctx.telegram.sendMessage(
+            origin.chatId,
+            t.tasks.group.announcement(
+                result.task.title,
+                user.fullName || user.username || String(user.telegramId),
+                result.assignee?.fullName || result.assignee?.username
+            ) + `\n\n${t.tasks.comments.replyHint}`,
+            {
+                message_thread_id: origin.threadId,
+                reply_parameters: { message_id: origin.messageId, allow_sending_without_reply: true },
+            }
+        );
+
+        rememberTaskMessage(message, result.task.plankaCardId!);
+    } catch (error) {
+        Log.error(ctx, 'Failed to announce task in group', error, {
+            chatId: origin.chatId,
+            taskId: result.task.plankaCardId,
+        });
+    }
+}
@@ -1,3 +1,5 @@
+import { pluralize } from '../../../utils/lang';
+
 /**
  * Русские тексты и фразы для бота
  */
@@ -15,6 +17,7 @@ export const ru = {
         cancel: '❌ Отмена',
         done: '✅ Готово',
         skip: '⏭ Пропустить',
+        resumed: '🔄 Бот был перезапущен — продолжим с того же места.',
     },
 
     // Авторизация
@@ -46,6 +49,24 @@ export const ru = {
 /help - справка`,
     },
 
+    // Регистрация
+    registration: {
+        plankaCredentials: (url: string, email: string, password: string) => `🔐 **Ваш аккаунт в Planka создан**
+
+🌐 \`${url}\`
+📧 Email: \`${email}\`
+🔑 Пароль: \`${password}\`
+
+⚠️ Сохраните пароль и удалите это сообщение. После входа пароль можно сменить в профиле Planka.`,
+        plankaPasswordReset: (url: string, email: string, password: string) => `🔐 **Новый пароль для Planka**
+
+🌐 \`${url}\`
+📧 Email: \`${email}\`
+🔑 Пароль: \`${password}\`
+
+⚠️ Администратор сбросил ваш пароль. Сохраните новый пароль и удалите это сообщение.`,
+    },
+
     // Задачи
     tasks: {
         // Создание
@@ -58,6 +79,28 @@ export const ru = {
             addFiles: '📎 Хотите прикрепить файлы к задаче?',
             waitingFiles: '📎 Отправьте файлы для прикрепления к задаче.\n\nПосле загрузки всех файлов нажмите "Готово"',
             fileAdded: (name: string, count: number) => `✅ Файл "${name}" добавлен!\nФайлов в очереди: ${count}`,
+            fileRejected: (name: string, reason: string) => `⚠️ Файл "${name}" не добавлен.\n${reason}`,
+            fileTypeNotAllowed: 'Этот тип файла не поддерживается.',
+            tooManyFiles: (max: number) => `⚠️ Можно прикрепить не больше ${max} файлов.`,
+            attachmentsReport: (uploaded: string[], failed: string[]) => {
+                const lines: string[] = [];
+                if (uploaded.length > 0) {
+                    lines.push(`📎 Загружено файлов: ${uploaded.length}`);
+                }
+                for (const name of failed) {
+                    lines.push(`⚠️ Не удалось загрузить: ${name}`);
+                }
+                return lines.join('\n');
+            },
+
+            analysis: {
+                ai: '🤖 — определено ИИ',
+                rules: '🔎 — найдено по ключевым словам (ИИ недоступен)',
+                defaulted: '_(по умолчанию)_',
+                notSet: '_не указан_',
+                category: (category: string) => `🏷 **Категория:** ${category}`,
+                dueDate: (date: string) => `📅 **Срок:** ${date}`,
+            },
 
             success: (title: string, list: string, assignee?: string) => {
                 let message = `✅ **Задача создана!**\n\n📌 ${title}\n📋 Список: ${list}`;
@@ -69,21 +112,79 @@ export const ru = {
 
             failed: 'ю Не удалось создать задачу. Попробуйте позже.',
             alreadyCreating: '⚠️ Вы уже создаёте задачу.\nЗавершите её или нажмите «Отмена», прежде чем начинать новую.',
+            resumed: '🔄 Бот был перезапущен — продолжим создание задачи с того же места.',
+        },
+
+        // История
+        history: {
+            title: (title: string) => `📜 **История задачи:** ${title}`,
+            empty: 'Событий пока нет.',
+            created: '🆕 Задача создана',
+            status: (from: string, to: string) => `📊 ${from} → ${to}`,
+            assigned: '👤 Назначен исполнитель',
+            assignedTo: (name: string) => `👤 Назначен исполнитель: ${name}`,
+            unassigned: '👤 Исполнитель снят',
+            dueDate: (date: string) => `📅 Новый срок: ${date}`,
+            dueDateRemoved: '📅 Срок снят',
+            edited: (fields: string) => `✏️ Изменено: ${fields}`,
+            fields: {
+                title: 'название',
+                description: 'описание',
+                priority: 'приоритет',
+                category: 'категория',
+            },
+        },
+
+        // Комментарии (Planka)
+        comments: {
+            title: (title: string) => `💬 Комментарии к задаче: ${title}`,
+            empty: 'Комментариев пока нет.',
+            replyHint: '↩️ Ответьте на это сообщение, чтобы добавить комментарий.',
+            added: '✅ Комментарий добавлен в Planka.',
+            failed: '❌ Не удалось загрузить комментарии.',
+        },
+
+        // Голосовые
+        voice: {
+            transcribing: '🎙 Распознаю голосовое сообщение...',
+            transcribed: (text: string) => `🎙 _${text}_`,
+            noWakeWord: (word: string) => `🎙 Чтобы создать задачу голосом, начните сообщение со слова «${word}».`,
+            empty: '🎙 После обращения к помощнику не найдено описание задачи.',
+            tooLong: (seconds: number) => `🎙 Голосовое сообщение слишком длинное (максимум ${seconds} сек.).`,
+            failed: '❌ Не удалось распознать голосовое сообщение.',
+        },
+
+        // Задачи из групповых чатов
+        group: {
+            fromChat: (title: string) => `👥 Из чата «${title}»`,
+            hint: (bot: string) => `💡 В группе задачу создают ответом на сообщение: «@${bot} задача». Предпросмотр придёт в личные сообщения.`,
+            empty: '⚠️ Ответьте упоминанием бота на сообщение с текстом, чтобы превратить его в задачу.',
+            openPrivate: (bot: string) => `✉️ Не удалось отправить предпросмотр. Откройте @${bot} в личных сообщениях, нажмите «Старт» и повторите.`,
+            announcement: (title: string, creator: string, assignee?: string) =>
+                `📌 Создана задача: ${title}\n✍️ Автор: ${creator}` +
+                (assignee ? `\n👤 Исполнитель: ${assignee}` : ''),
+        },
+
+        // Названия приоритетов и категорий по кодам из БД
+        priorities: {
+            low: 'низкий',
+            medium: 'средний',
+            high: 'высокий',
+            critical: 'критический',
+        },
+        categories: {
+            development: 'разработка',
+            design: 'дизайн',
+            testing: 'тестирование',
+            documentation: 'документация',
+            other: 'другое',
         },
 
         // Просмотр
         view: {
             title: (title: string) => `📌 **${title}**`,
             description: (desc: string) => `📝 **Описание:**\n${desc}`,
-            priority: (priority: string) => {
-                const emoji = {
-                    'низкий': '🟢',
-                    'средний': '🟡',
-                    'высокий': '🟠',
-                    'критический': '🔴',
-                }[priority] || '⚪';
-                return `${emoji} **Приоритет:** ${priority}`;
-            },
+            priority: (name: string, emoji: string) => `${emoji} **Приоритет:** ${name}`,
             assignee: (name: string) => `👤 **Исполнитель:** ${name}`,
             status: (status: string) => {
                 const emoji = {
@@ -100,9 +201,10 @@ export const ru = {
                 }[status] || status;
                 return `${emoji} **Статус:** ${name}`;
             },
-            dueDate: (date: Date) => `📅 **Срок:** ${date.toLocaleDateString('ru-RU')}`,
+            dueDate: (date: string) => `📅 **Срок:** ${date}`,
             overdue: '🔴 **ПРОСРОЧЕНО!**',
             attachments: (count: number) => `📎 **Файлов:** ${count}`,
+            attachmentName: (name: string) => `  • ${name}`,
             noTasks: 'У вас пока нет назначенных задач.',
         },
 
@@ -114,7 +216,10 @@ export const ru = {
             selectPriority: '🎯 Выберите новый приоритет:',
             selectStatus: '📊 Выберите новый статус:',
             selectAssignee: '👤 Выберите нового исполнителя:',
-            enterDueDate: '📅 Введите новую дату дедлайна (ДД.ММ.ГГГГ):',
+            selectCategory: '🏷 Выберите новую категорию:',
+            enterDueDate: '📅 Введите новую дату дедлайна (ДД.ММ.ГГГГ или «завтра»).\nЧтобы убрать дедлайн, отправьте «-».',
+            noAssignee: '➖ Без исполнителя',
+            invalidDate: '❌ Не удалось распознать дату. Попробуйте ещё раз.',
 
             success: '✅ Задача обновлена!',
             failed: '❌ Не удалось обновить задачу.',
@@ -122,11 +227,70 @@ export const ru = {
 
         // Поиск
         search: {
-            prompt: '🔍 Введите поисковый запрос для поиска задач (название, описание или ID):',
+            prompt: '🔍 Введите поисковый запрос: слова из названия, описания или комментариев, либо ID задачи.\n\n' +
+                'Фильтры:\n' +
+                'status:in_progress — статус (todo, in_progress, in_review, done)\n' +
+                '@ali — исполнитель\n' +
+                'due:week — срок (today, tomorrow, week, month, overdue)\n' +
+                '#design — категория или приоритет\n\n' +
+                'Пример: /search_tasks отчёт status:in_progress @ali due:week',
             searching: '🔍 Ищу задачи...',
             found: (count: number) => `📋 Найдено задач: ${count}`,
             notFound: '❌ Задачи не найдены.',
             tooMany: 'Найдено слишком много задач. Уточните запрос.',
+            invalidFilter: (filter: string) => `❌ Неизвестный фильтр: ${filter}\nОтправьте /search_tasks без запроса, чтобы увидеть список фильтров.`,
+        },
+
+        // Списки задач: страницы, фильтры, сохранённые виды
+        list: {
+            titles: {
+                assigned: '📋 Мои задачи',
+                created: '📤 Созданные мной',
+                all: '🗂 Все задачи',
+            },
+            page: (page: number, pages: number, total: number) => `Стр. ${page}/${pages} · задач: ${total}`,
+            filters: (list: string) => `🔎 ${list}`,
+            empty: 'Задач с такими фильтрами нет.',
+            any: 'все',
+            chips: {
+                scope: 'Чьи',
+                status: 'Статус',
+                priority: 'Приоритет',
+                category: 'Категория',
+                due: 'Срок',
+                sort: 'Порядок',
+            },
+            scopes: {
+                assigned: 'мне',
+                created: 'от меня',
+                all: 'все',
+            },
+            dues: {
+                today: 'сегодня',
+                tomorrow: 'завтра',
+                week: '7 дней',
+                month: '30 дней',
+                overdue: 'просрочено',
+            },
+            sorts: {
+                due: 'по сроку',
+                priority: 'по приоритету',
+                created: 'сначала новые',
+            },
+            prev: '◀️',
+            next: '▶️',
+            save: '💾 Сохранить вид',
+            reset: '✖️ Сбросить',
+            deleteView: (name: string) => `🗑 Удалить «${name}»`,
+            enterViewName: (max: number) => `✏️ Как назвать вид? Например: «срочное на неделю» (до ${max} символов)`,
+            viewSaved: (name: string) => `✅ Вид «${name}» сохранён.\nОн появится кнопкой в /my_tasks, открыть сразу: /my_tasks ${name}`,
+            viewExists: (name: string) => `⚠️ Вид «${name}» уже есть. Отправьте другое название:`,
+            viewsLimit: (max: number) => `⚠️ Можно сохранить не больше ${max} видов. Удалите ненужный и попробуйте снова.`,
+            viewNameInvalid: (max: number) => `❌ Название — от 1 до ${max} символов. Попробуйте ещё раз:`,
+            viewNotFound: (name: string, names: string) => names
+                ? `❌ Вида «${name}» нет. Ваши виды: ${names}`
+                : `❌ Вида «${name}» нет. Сохраните вид кнопкой «💾 Сохранить вид» под /my_tasks.`,
+            viewDeleted: (name: string) => `🗑 Вид «${name}» удалён`,
         },
 
         // Статистика
@@ -151,17 +315,41 @@ export const ru = {
         },
     },
 
+    // Рабочие пространства (чат <-> доска Planka)
+    workspaces: {
+        current: (board: string) => `🗂 Чат привязан к доске: **${board}**`,
+        defaultBoard: '🗂 Чат работает с доской по умолчанию.',
+        selectBoard: 'Выберите доску Planka для этого чата:',
+        noBoards: '❌ Аккаунту бота не доступна ни одна доска Planka.',
+        linked: (board: string) => `✅ Чат привязан к доске **${board}**.\nЗадачи, статистика и дедлайны этого чата теперь берутся с неё.`,
+        unlinked: '✅ Привязка снята, чат вернулся к доске по умолчанию.',
+    },
+
     // Уведомления
     notifications: {
         newTask: (title: string) => `📋 **Новая задача:** ${title}`,
         taskAssigned: (title: string) => `👤 Вам назначена задача: ${title}`,
+        statusMoved: (title: string, from: string, to: string, by: string) =>
+            `📊 **${title}**\n${from} → ${to}\n👤 ${by}`,
+        reviewRequested: '👀 Задача ждёт вашей проверки.',
+        newComment: (title: string, author: string, text: string) =>
+            `💬 ${author} прокомментировал(а) задачу "${title}":\n\n${text}\n\n↩️ Ответьте на это сообщение, чтобы написать в Planka.`,
+
+        // Изменения, сделанные напрямую в Planka
+        planka: {
+            statusChanged: (title: string, status: string) => `📊 Статус задачи "${title}" изменён в Planka: ${status}`,
+            updated: (title: string) => `✏️ Задача "${title}" обновлена в Planka`,
+            deleted: (title: string) => `🗑 Задача "${title}" удалена в Planka`,
+            unassigned: (title: string) => `➖ Вы сняты с задачи "${title}" в Planka`,
+        },
 
         reminder: {
             title: '⏰ **Напоминание о дедлайне!**',
-            in24h: (title: string) => `📋 "${title}"\n⏰ Осталось 24 часа до дедлайна!`,
-            in6h: (title: string) => `📋 "${title}"\n⏰ Осталось 6 часов до дедлайна!`,
-            in2h: (title: string) => `📋 "${title}"\n🔴 Осталось 2 часа до дедлайна!`,
+            before: (title: string, when: string) => `📋 "${title}"\n⏰ До дедлайна осталось ${when}!`,
             overdue: (title: string) => `🔴 "${title}"\n❌ Дедлайн истёк!`,
+            overdueTitle: '🔴 *ВНИМАНИЕ!*',
+            overdueFor: (days: number) =>
+                `⏰ Просрочено на ${pluralize(days, { one: 'день', few: 'дня', many: 'дней' })}`,
         },
 
         digest: {
@@ -170,7 +358,117 @@ export const ru = {
             tasksToday: (count: number) => `📋 Задач на сегодня: ${count}`,
             tasksOverdue: (count: number) => `🔴 Просроченных: ${count}`,
             tasksCompleted: (count: number) => `✅ Выполнено сегодня: ${count}`,
+            employee: {
+                title: '☀️ **Доброе утро! Ваш день:**',
+                today: (count: number) => `📋 **На сегодня (${count}):**`,
+                overdue: (count: number) => `🔴 **Просрочено (${count}):**`,
+                inReview: (count: number) => `👀 **Ждут проверки (${count}):**`,
+                completedYesterday: (count: number) => `✅ **Выполнено вчера (${count}):**`,
+            },
+        },
+    },
+
+    // Настройка напоминаний
+    reminders: {
+        title: '⏰ **Напоминания о дедлайнах**',
+        current: (list: string) => `Сейчас: ${list}`,
+        byDefault: (list: string) => `по умолчанию (${list})`,
+        off: 'не напоминать',
+        select: 'Выберите, за сколько до дедлайна напоминать:',
+        customCommand: '✏️ Отправьте /reminders с интервалами, например: /reminders 48h 3h 30m',
+        selectForTask: (title: string) => `⏰ Напоминания по задаче "${title}":`,
+        enterCustom: '✏️ Введите интервалы через пробел, например: 48h 3h 30m',
+        invalid: (min: number, max: number, count: number) =>
+            `❌ Не удалось разобрать интервалы. Пример: 48h 3h 30m (от ${min} мин до ${max} дн., не больше ${count}).`,
+        saved: '✅ Напоминания сохранены.',
+        notificationsOff: '🔕 Уведомления отключены — напоминания не приходят.',
+        snoozed: (until: string) => `😴 Напомню ${until}`,
+        units: {
+            minutes: (n: number) => `${n} мин`,
+            hours: (n: number) => `${n} ч`,
+            days: (n: number) => `${n} дн`,
+        },
+        presets: {
+            default: '↩️ По умолчанию',
+            off: '🔕 Не напоминать',
+            custom: '✏️ Свои интервалы',
+        },
+    },
+
+    // Настройки пользователя
+    settings: {
+        title: '⚙️ **Настройки**',
+        digest: (enabled: boolean) => `📊 Дайджесты: ${enabled ? '✅ включены' : '❌ отключены'}`,
+        morning: (hour: string) => `🌅 Утренний дайджест: ${hour}`,
+        evening: (hour: string) => `🌆 Вечерний дайджест: ${hour}`,
+        notifications: (enabled: boolean) => `🔔 Уведомления: ${enabled ? '✅ включены' : '❌ отключены'}`,
+        timezone: (zone: string) => `🕐 Часовой пояс: ${zone}`,
+        reminders: (list: string) => `⏰ Напоминания: ${list}`,
+        selectMorning: '🌅 В котором часу присылать утренний дайджест? Время местное.',
+        selectEvening: '🌆 В котором часу присылать вечерний дайджест? Время местное.',
+        saved: '✅ Настройки сохранены',
+        buttons: {
+            digestOn: '📊 Включить дайджесты',
+            digestOff: '📊 Отключить дайджесты',
+            morning: (hour: string) => `🌅 Утро: ${hour}`,
+            evening: (hour: string) => `🌆 Вечер: ${hour}`,
+            notificationsOn: '🔔 Включить уведомления',
+            notificationsOff: '🔕 Отключить уведомления',
+            timezone: '🕐 Часовой пояс',
+        },
+    },
+
+    // Часовой пояс
+    timezone: {
+        title: '🕐 **Часовой пояс**',
+        current: (zone: string) => `Сейчас: ${zone}`,
+        select: 'Выберите часовой пояс — по нему считаются сроки, время в сообщениях и дайджесты:',
+        hint: '✏️ Другой пояс: /timezone Europe/Moscow или ваше текущее время: /timezone 14:30',
+        invalid: '❌ Не удалось определить часовой пояс. Пример: /timezone Asia/Tashkent или /timezone 14:30',
+        saved: (zone: string) => `✅ Часовой пояс: ${zone}`,
+    },
+
+    // Продление срока
+    extensions: {
+        enterDate: (title: string) => `⏳ Продление срока задачи "${title}".\nВведите новую дату (ДД.ММ.ГГГГ или «завтра»):`,
+        enterReason: '📝 Коротко опишите причину:',
+        enterCounter: '📅 Введите дату, которую вы предлагаете (ДД.ММ.ГГГГ или «завтра»):',
+        invalidDate: '❌ Новый срок должен быть в будущем и позже текущего. Попробуйте ещё раз.',
+        alreadyOpen: '⏳ По этой задаче уже есть запрос на продление — дождитесь решения.',
+        sent: '✅ Запрос отправлен автору задачи. Я сообщу о решении.',
+        counterSent: '✅ Ваше предложение отправлено исполнителю.',
+        request: (title: string, name: string, from: string, to: string, reason: string) =>
+            `⏳ Запрос на продление срока\n\n📋 ${title}\n👤 ${name}\n📅 ${from} → ${to}\n📝 ${reason}`,
+        approved: (title: string, to: string) => `✅ Срок задачи "${title}" продлён до ${to}.`,
+        rejected: (title: string) => `❌ Запрос на продление задачи "${title}" отклонён.`,
+        countered: (title: string, to: string) => `📅 Автор задачи "${title}" предлагает новый срок: ${to}. Согласны?`,
+        counterAccepted: (title: string, name: string, to: string) =>
+            `✅ ${name} согласен(на) с новым сроком задачи "${title}": ${to}.`,
+        counterDeclined: (title: string, name: string) =>
+            `❌ ${name} не согласен(на) с предложенным сроком задачи "${title}".`,
+        decisionApproved: '✅ Одобрено',
+        decisionRejected: '❌ Отклонено',
+        decisionCountered: '📅 Предложена другая дата',
+    },
+
+    // Отчёты по команде
+    reports: {
+        title: (period: string) => `📈 **Отчёт по команде: ${period}**`,
+        periods: {
+            week: 'неделя',
+            month: 'месяц',
         },
+        range: (from: string, to: string) => `📅 ${from} — ${to}`,
+        empty: 'За этот период задач у сотрудников нет.',
+        employee: (name: string) => `👤 **${name}**`,
+        completed: (count: number) => `✅ Выполнено: ${count}`,
+        onTime: (rate: string) => `⏱ В срок: ${rate}`,
+        cycle: (duration: string) => `🔄 Цикл: ${duration}`,
+        wip: (count: number) => `⚡ В работе: ${count}`,
+        overdue: (count: number) => `🔴 Просрочено: ${count}`,
+        csvCaption: '📎 Отчёт в CSV',
+        csvHeaders: ['Сотрудник', 'Выполнено', 'В срок, %', 'Средний цикл, ч', 'Просрочено', 'В работе'],
+        usage: 'Использование: /report week или /report month',
     },
 
     // Кнопки
@@ -183,6 +481,21 @@ export const ru = {
         moveToInProgress: '⚡ В работу',
         moveToReview: '👀 На проверку',
         moveToDone: '✅ Выполнено',
+        approve: '✅ Принять работу',
+        history: '📜 История',
+        comments: '💬 Комментарии',
+        reminders: '⏰ Напоминания',
+        category: '🏷 Категория',
+        snoozeHour: '😴 Через 1 час',
+        snoozeTomorrow: '🌅 Завтра в 9:00',
+        askExtension: '⏳ Попросить продление',
+        approveExtension: '✅ Одобрить',
+        rejectExtension: '❌ Отклонить',
+        counterPropose: '📅 Предложить другую дату',
+        acceptCounter: '✅ Согласен',
+        declineCounter: '❌ Не согласен',
+        unlinkBoard: '🔓 Отвязать доску',
+        returnToWork: '↩️ Вернуть в работу',
         assignToMe: '🙋‍♂️ Назначить на меня',
 
         // Файлы
@@ -201,14 +514,19 @@ export const ru = {
     help: {
         title: '🤖 **Доступные команды:**',
 
-        common: `📋 /my_tasks - просмотр ваших задач
+        common: `📋 /my_tasks - ваши задачи с фильтрами; /my_tasks <вид> - сохранённый вид
+⏰ /reminders - напоминания о дедлайнах
+🕐 /timezone - часовой пояс
+⚙️ /settings - настройки
 ❓ /help - эта справка`,
 
         owner: `🔧 **Команды владельца:**
 📝 /create_task - создать задачу
 📊 /stats - статистика по задачам
+📈 /report - отчёт по команде за неделю или месяц
 📅 /deadlines - обзор дедлайнов
-🔍 /search_tasks - поиск и редактирование задач`,
+🔍 /search_tasks - поиск и редактирование задач
+🗂 /link_board - привязать чат к доске Planka`,
 
         admin: `👑 **Команды администратора:**
 👥 /users - управление пользователями
@@ -218,6 +536,7 @@ export const ru = {
         usage: `**Использование:**
 • Для создания задач используйте /create_task в личных сообщениях
 • Задачи можно создавать голосовыми сообщениями
+• В группе ответьте на сообщение «@бот задача», чтобы превратить его в задачу
 • Используйте inline-кнопки для управления задачами`,
     },
 
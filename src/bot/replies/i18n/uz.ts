@@ -15,6 +15,7 @@ export const uz = {
         cancel: '❌ Bekor qilish',
         done: '✅ Tayyor',
         skip: '⏭ Oʻtkazib yuborish',
+        resumed: '🔄 Bot qayta ishga tushirildi — toʻxtagan joydan davom ettiramiz.',
     },
 
     // Avtorizatsiya
@@ -46,6 +47,24 @@ Mavjud buyruqlar:
 /help - yordam`,
     },
 
+    // Roʻyxatdan oʻtish
+    registration: {
+        plankaCredentials: (url: string, email: string, password: string) => `🔐 **Planka'dagi hisobingiz yaratildi**
+
+🌐 \`${url}\`
+📧 Email: \`${email}\`
+🔑 Parol: \`${password}\`
+
+⚠️ Parolni saqlang va ushbu xabarni oʻchiring. Kirgandan soʻng parolni Planka profilida oʻzgartirish mumkin.`,
+        plankaPasswordReset: (url: string, email: string, password: string) => `🔐 **Planka uchun yangi parol**
+
+🌐 \`${url}\`
+📧 Email: \`${email}\`
+🔑 Parol: \`${password}\`
+
+⚠️ Administrator parolingizni tikladi. Yangi parolni saqlang va ushbu xabarni oʻchiring.`,
+    },
+
     // Vazifalar
     tasks: {
         // Yaratish
@@ -58,6 +77,28 @@ Mavjud buyruqlar:
             addFiles: '📎 Vazifaga fayllar biriktirmoqchimisiz?',
             waitingFiles: '📎 Vazifaga biriktirish uchun fayllarni yuborish.\n\nBarcha fayllar yuklangandan soʻng "Tayyor" tugmasini bosing',
             fileAdded: (name: string, count: number) => `✅ "${name}" fayli qoʻshildi!\nNavbatdagi fayllar: ${count}`,
+            fileRejected: (name: string, reason: string) => `⚠️ "${name}" fayli qoʻshilmadi.\n${reason}`,
+            fileTypeNotAllowed: 'Bu turdagi fayl qoʻllab-quvvatlanmaydi.',
+            tooManyFiles: (max: number) => `⚠️ Koʻpi bilan ${max} ta fayl biriktirish mumkin.`,
+            attachmentsReport: (uploaded: string[], failed: string[]) => {
+                const lines: string[] = [];
+                if (uploaded.length > 0) {
+                    lines.push(`📎 Yuklangan fayllar: ${uploaded.length}`);
+                }
+                for (const name of failed) {
+                    lines.push(`⚠️ Yuklab boʻlmadi: ${name}`);
+                }
+                return lines.join('\n');
+            },
+
+            analysis: {
+                ai: '🤖 — sunʼiy intellekt aniqladi',
+                rules: '🔎 — kalit soʻzlar boʻyicha topildi (sunʼiy intellekt mavjud emas)',
+                defaulted: '_(standart)_',
+                notSet: '_koʻrsatilmagan_',
+                category: (category: string) => `🏷 **Kategoriya:** ${category}`,
+                dueDate: (date: string) => `📅 **Muddat:** ${date}`,
+            },
 
             success: (title: string, list: string, assignee?: string) => {
                 let message = `✅ **Vazifa yaratildi!**\n\n📌 ${title}\n📋 Roʻyxat: ${list}`;
@@ -69,21 +110,79 @@ Mavjud buyruqlar:
 
             failed: '❌ Vazifani yaratib boʻlmadi. Keyinroq urinib koʻring.',
             alreadyCreating: '⚠️ Siz allaqachon vazifa yaratyapsiz.\nYangisini boshlashdan oldin uni tugating yoki "Bekor qilish" tugmasini bosing.',
+            resumed: '🔄 Bot qayta ishga tushirildi — vazifa yaratishni toʻxtagan joydan davom ettiramiz.',
+        },
+
+        // Tarix
+        history: {
+            title: (title: string) => `📜 **Vazifa tarixi:** ${title}`,
+            empty: 'Hozircha voqealar yoʻq.',
+            created: '🆕 Vazifa yaratildi',
+            status: (from: string, to: string) => `📊 ${from} → ${to}`,
+            assigned: '👤 Ijrochi tayinlandi',
+            assignedTo: (name: string) => `👤 Ijrochi tayinlandi: ${name}`,
+            unassigned: '👤 Ijrochi olib tashlandi',
+            dueDate: (date: string) => `📅 Yangi muddat: ${date}`,
+            dueDateRemoved: '📅 Muddat olib tashlandi',
+            edited: (fields: string) => `✏️ Oʻzgartirildi: ${fields}`,
+            fields: {
+                title: 'nomi',
+                description: 'tavsifi',
+                priority: 'ustuvorligi',
+                category: 'kategoriyasi',
+            },
+        },
+
+        // Izohlar (Planka)
+        comments: {
+            title: (title: string) => `💬 Vazifaga izohlar: ${title}`,
+            empty: 'Hozircha izohlar yoʻq.',
+            replyHint: '↩️ Izoh qoldirish uchun ushbu xabarga javob bering.',
+            added: `✅ Izoh Planka'ga qoʻshildi.`,
+            failed: '❌ Izohlarni yuklab boʻlmadi.',
+        },
+
+        // Ovozli xabarlar
+        voice: {
+            transcribing: '🎙 Ovozli xabar aniqlanmoqda...',
+            transcribed: (text: string) => `🎙 _${text}_`,
+            noWakeWord: (word: string) => `🎙 Vazifani ovoz bilan yaratish uchun xabarni «${word}» soʻzi bilan boshlang.`,
+            empty: '🎙 Yordamchiga murojaatdan keyin vazifa tavsifi topilmadi.',
+            tooLong: (seconds: number) => `🎙 Ovozli xabar juda uzun (maksimum ${seconds} soniya).`,
+            failed: '❌ Ovozli xabarni aniqlab boʻlmadi.',
+        },
+
+        // Guruh chatlaridan vazifalar
+        group: {
+            fromChat: (title: string) => `👥 «${title}» chatidan`,
+            hint: (bot: string) => `💡 Guruhda vazifa xabarga javob orqali yaratiladi: «@${bot} vazifa». Oldindan koʻrish shaxsiy xabarlarga keladi.`,
+            empty: '⚠️ Xabarni vazifaga aylantirish uchun unga bot eslatmasi bilan javob bering.',
+            openPrivate: (bot: string) => `✉️ Oldindan koʻrishni yuborib boʻlmadi. @${bot} bilan shaxsiy chatni oching, «Start» tugmasini bosing va qayta urinib koʻring.`,
+            announcement: (title: string, creator: string, assignee?: string) =>
+                `📌 Vazifa yaratildi: ${title}\n✍️ Muallif: ${creator}` +
+                (assignee ? `\n👤 Ijrochi: ${assignee}` : ''),
+        },
+
+        // Ustuvorlik va kategoriya nomlari (BD kodlari boʻyicha)
+        priorities: {
+            low: 'past',
+            medium: 'oʻrta',
+            high: 'yuqori',
+            critical: 'kritik',
+        },
+        categories: {
+            development: 'dasturlash',
+            design: 'dizayn',
+            testing: 'testlash',
+            documentation: 'hujjatlashtirish',
+            other: 'boshqa',
         },
 
         // Koʻrish
         view: {
             title: (title: string) => `📌 **${title}**`,
             description: (desc: string) => `📝 **Tavsif:**\n${desc}`,
-            priority: (priority: string) => {
-                const emoji = {
-                    'past': '🟢',
-                    'oʻrta': '🟡',
-                    'yuqori': '🟠',
-                    'kritik': '🔴',
-                }[priority] || '⚪';
-                return `${emoji} **Ustuvorlik:** ${priority}`;
-            },
+            priority: (name: string, emoji: string) => `${emoji} **Ustuvorlik:** ${name}`,
             assignee: (name: string) => `👤 **Ijrochi:** ${name}`,
             status: (status: string) => {
                 const emoji = {
@@ -100,9 +199,10 @@ Mavjud buyruqlar:
                 }[status] || status;
                 return `${emoji} **Holat:** ${name}`;
             },
-            dueDate: (date: Date) => `📅 **Muddat:** ${date.toLocaleDateString('uz-UZ')}`,
+            dueDate: (date: string) => `📅 **Muddat:** ${date}`,
             overdue: '🔴 **MUDDATI OʻTGAN!**',
             attachments: (count: number) => `📎 **Fayllar:** ${count}`,
+            attachmentName: (name: string) => `  • ${name}`,
             noTasks: 'Sizda hali tayinlangan vazifalar yoʻq.',
         },
 
@@ -114,7 +214,10 @@ Mavjud buyruqlar:
             selectPriority: '🎯 Yangi ustuvorlikni tanlang:',
             selectStatus: '📊 Yangi holatni tanlang:',
             selectAssignee: '👤 Yangi ijrochini tanlang:',
-            enterDueDate: '📅 Yangi muddat sanasini kiriting (KK.OO.YYYY):',
+            selectCategory: '🏷 Yangi kategoriyani tanlang:',
+            enterDueDate: '📅 Yangi muddat sanasini kiriting (KK.OO.YYYY yoki «ertaga»).\nMuddatni olib tashlash uchun «-» yuboring.',
+            noAssignee: '➖ Ijrochisiz',
+            invalidDate: '❌ Sanani aniqlab boʻlmadi. Qaytadan urinib koʻring.',
 
             success: '✅ Vazifa yangilandi!',
             failed: '❌ Vazifani yangilab boʻlmadi.',
@@ -122,11 +225,70 @@ Mavjud buyruqlar:
 
         // Qidiruv
         search: {
-            prompt: '🔍 Vazifalarni qidirish uchun soʻrov kiriting (nom, tavsif yoki ID):',
+            prompt: '🔍 Qidiruv soʻrovini kiriting: nom, tavsif yoki izohlardagi soʻzlar yoxud vazifa ID.\n\n' +
+                'Filtrlar:\n' +
+                'status:in_progress — holat (todo, in_progress, in_review, done)\n' +
+                '@ali — ijrochi\n' +
+                'due:week — muddat (today, tomorrow, week, month, overdue)\n' +
+                '#design — kategoriya yoki muhimlik\n\n' +
+                'Misol: /search_tasks hisobot status:in_progress @ali due:week',
             searching: '🔍 Vazifalarni qidirmoqda...',
             found: (count: number) => `📋 Topilgan vazifalar: ${count}`,
             notFound: '❌ Vazifalar topilmadi.',
             tooMany: 'Juda koʻp vazifalar topildi. Soʻrovni aniqlang.',
+            invalidFilter: (filter: string) => `❌ Nomaʼlum filtr: ${filter}\nFiltrlar roʻyxatini koʻrish uchun /search_tasks buyrugʻini soʻrovsiz yuboring.`,
+        },
+
+        // Vazifalar roʻyxati: sahifalar, filtrlar, saqlangan koʻrinishlar
+        list: {
+            titles: {
+                assigned: '📋 Mening vazifalarim',
+                created: '📤 Men yaratganlar',
+                all: '🗂 Barcha vazifalar',
+            },
+            page: (page: number, pages: number, total: number) => `Sahifa ${page}/${pages} · vazifalar: ${total}`,
+            filters: (list: string) => `🔎 ${list}`,
+            empty: 'Bunday filtrlar boʻyicha vazifalar yoʻq.',
+            any: 'hammasi',
+            chips: {
+                scope: 'Kimniki',
+                status: 'Holat',
+                priority: 'Muhimlik',
+                category: 'Kategoriya',
+                due: 'Muddat',
+                sort: 'Tartib',
+            },
+            scopes: {
+                assigned: 'menga',
+                created: 'mendan',
+                all: 'hammasi',
+            },
+            dues: {
+                today: 'bugun',
+                tomorrow: 'ertaga',
+                week: '7 kun',
+                month: '30 kun',
+                overdue: 'muddati oʻtgan',
+            },
+            sorts: {
+                due: 'muddat boʻyicha',
+                priority: 'muhimlik boʻyicha',
+                created: 'avval yangilari',
+            },
+            prev: '◀️',
+            next: '▶️',
+            save: '💾 Koʻrinishni saqlash',
+            reset: '✖️ Tozalash',
+            deleteView: (name: string) => `🗑 «${name}»ni oʻchirish`,
+            enterViewName: (max: number) => `✏️ Koʻrinishni qanday nomlaymiz? Masalan: «haftalik shoshilinch» (${max} belgigacha)`,
+            viewSaved: (name: string) => `✅ «${name}» koʻrinishi saqlandi.\nU /my_tasks ostida tugma boʻlib chiqadi, darhol ochish: /my_tasks ${name}`,
+            viewExists: (name: string) => `⚠️ «${name}» koʻrinishi allaqachon bor. Boshqa nom yuboring:`,
+            viewsLimit: (max: number) => `⚠️ Koʻpi bilan ${max} ta koʻrinish saqlash mumkin. Keraksizini oʻchirib, qayta urinib koʻring.`,
+            viewNameInvalid: (max: number) => `❌ Nom 1 dan ${max} belgigacha boʻlishi kerak. Qayta urinib koʻring:`,
+            viewNotFound: (name: string, names: string) => names
+                ? `❌ «${name}» koʻrinishi yoʻq. Sizning koʻrinishlaringiz: ${names}`
+                : `❌ «${name}» koʻrinishi yoʻq. /my_tasks ostidagi «💾 Koʻrinishni saqlash» tugmasi bilan saqlang.`,
+            viewDeleted: (name: string) => `🗑 «${name}» koʻrinishi oʻchirildi`,
         },
 
         // Statistika
@@ -151,17 +313,40 @@ Mavjud buyruqlar:
         },
     },
 
+    // Ish maydonlari (chat <-> Planka doskasi)
+    workspaces: {
+        current: (board: string) => `🗂 Chat doskaga bogʻlangan: **${board}**`,
+        defaultBoard: '🗂 Chat asosiy doska bilan ishlaydi.',
+        selectBoard: 'Ushbu chat uchun Planka doskasini tanlang:',
+        noBoards: '❌ Bot hisobiga birorta ham Planka doskasi ochiq emas.',
+        linked: (board: string) => `✅ Chat **${board}** doskasiga bogʻlandi.\nEndi bu chatning vazifalari, statistikasi va muddatlari shu doskadan olinadi.`,
+        unlinked: '✅ Bogʻlanish olib tashlandi, chat asosiy doskaga qaytdi.',
+    },
+
     // Bildirishnomalar
     notifications: {
         newTask: (title: string) => `📋 **Yangi vazifa:** ${title}`,
         taskAssigned: (title: string) => `👤 Sizga vazifa tayinlandi: ${title}`,
+        statusMoved: (title: string, from: string, to: string, by: string) =>
+            `📊 **${title}**\n${from} → ${to}\n👤 ${by}`,
+        reviewRequested: '👀 Vazifa sizning tekshiruvingizni kutmoqda.',
+        newComment: (title: string, author: string, text: string) =>
+            `💬 ${author} "${title}" vazifasiga izoh qoldirdi:\n\n${text}\n\n↩️ Planka'ga yozish uchun ushbu xabarga javob bering.`,
+
+        // Planka'da bevosita kiritilgan oʻzgarishlar
+        planka: {
+            statusChanged: (title: string, status: string) => `📊 "${title}" vazifasining holati Planka'da oʻzgardi: ${status}`,
+            updated: (title: string) => `✏️ "${title}" vazifasi Planka'da yangilandi`,
+            deleted: (title: string) => `🗑 "${title}" vazifasi Planka'da oʻchirildi`,
+            unassigned: (title: string) => `➖ Siz Planka'da "${title}" vazifasidan olib tashlandingiz`,
+        },
 
         reminder: {
             title: '⏰ **Muddat haqida eslatma!**',
-            in24h: (title: string) => `📋 "${title}"\n⏰ Muddatga 24 soat qoldi!`,
-            in6h: (title: string) => `📋 "${title}"\n⏰ Muddatga 6 soat qoldi!`,
-            in2h: (title: string) => `📋 "${title}"\n🔴 Muddatga 2 soat qoldi!`,
+            before: (title: string, when: string) => `📋 "${title}"\n⏰ Muddatga ${when} qoldi!`,
             overdue: (title: string) => `🔴 "${title}"\n❌ Muddat tugadi!`,
+            overdueTitle: '🔴 *DIQQAT!*',
+            overdueFor: (days: number) => `⏰ Muddatdan ${days} kun oʻtdi`,
         },
 
         digest: {
@@ -170,7 +355,117 @@ Mavjud buyruqlar:
             tasksToday: (count: number) => `📋 Bugungi vazifalar: ${count}`,
             tasksOverdue: (count: number) => `🔴 Muddati oʻtgan: ${count}`,
             tasksCompleted: (count: number) => `✅ Bugun bajarildi: ${count}`,
+            employee: {
+                title: '☀️ **Xayrli tong! Sizning kuningiz:**',
+                today: (count: number) => `📋 **Bugun (${count}):**`,
+                overdue: (count: number) => `🔴 **Muddati oʻtgan (${count}):**`,
+                inReview: (count: number) => `👀 **Tekshiruvni kutmoqda (${count}):**`,
+                completedYesterday: (count: number) => `✅ **Kecha bajarildi (${count}):**`,
+            },
+        },
+    },
+
+    // Eslatmalarni sozlash
+    reminders: {
+        title: '⏰ **Muddat eslatmalari**',
+        current: (list: string) => `Hozir: ${list}`,
+        byDefault: (list: string) => `standart (${list})`,
+        off: 'eslatilmaydi',
+        select: 'Muddatdan qancha oldin eslatishni tanlang:',
+        customCommand: '✏️ /reminders buyrugʻini oraliqlar bilan yuboring, masalan: /reminders 48h 3h 30m',
+        selectForTask: (title: string) => `⏰ "${title}" vazifasi boʻyicha eslatmalar:`,
+        enterCustom: '✏️ Oraliqlarni probel bilan kiriting, masalan: 48h 3h 30m',
+        invalid: (min: number, max: number, count: number) =>
+            `❌ Oraliqlarni aniqlab boʻlmadi. Misol: 48h 3h 30m (${min} daqiqadan ${max} kungacha, koʻpi bilan ${count} ta).`,
+        saved: '✅ Eslatmalar saqlandi.',
+        notificationsOff: '🔕 Bildirishnomalar oʻchirilgan — eslatmalar kelmaydi.',
+        snoozed: (until: string) => `😴 ${until} da eslataman`,
+        units: {
+            minutes: (n: number) => `${n} daqiqa`,
+            hours: (n: number) => `${n} soat`,
+            days: (n: number) => `${n} kun`,
+        },
+        presets: {
+            default: '↩️ Standart',
+            off: '🔕 Eslatmaslik',
+            custom: '✏️ Oʻz oraliqlarim',
+        },
+    },
+
+    // Foydalanuvchi sozlamalari
+    settings: {
+        title: '⚙️ **Sozlamalar**',
+        digest: (enabled: boolean) => `📊 Dayjestlar: ${enabled ? '✅ yoqilgan' : '❌ oʻchirilgan'}`,
+        morning: (hour: string) => `🌅 Ertalabki dayjest: ${hour}`,
+        evening: (hour: string) => `🌆 Kechki dayjest: ${hour}`,
+        notifications: (enabled: boolean) => `🔔 Bildirishnomalar: ${enabled ? '✅ yoqilgan' : '❌ oʻchirilgan'}`,
+        timezone: (zone: string) => `🕐 Vaqt mintaqasi: ${zone}`,
+        reminders: (list: string) => `⏰ Eslatmalar: ${list}`,
+        selectMorning: '🌅 Ertalabki dayjest soat nechada kelsin? Vaqt mahalliy.',
+        selectEvening: '🌆 Kechki dayjest soat nechada kelsin? Vaqt mahalliy.',
+        saved: '✅ Sozlamalar saqlandi',
+        buttons: {
+            digestOn: '📊 Dayjestlarni yoqish',
+            digestOff: '📊 Dayjestlarni oʻchirish',
+            morning: (hour: string) => `🌅 Ertalab: ${hour}`,
+            evening: (hour: string) => `🌆 Kechqurun: ${hour}`,
+            notificationsOn: '🔔 Bildirishnomalarni yoqish',
+            notificationsOff: '🔕 Bildirishnomalarni oʻchirish',
+            timezone: '🕐 Vaqt mintaqasi',
+        },
+    },
+
+    // Vaqt mintaqasi
+    timezone: {
+        title: '🕐 **Vaqt mintaqasi**',
+        current: (zone: string) => `Hozir: ${zone}`,
+        select: 'Vaqt mintaqasini tanlang — muddatlar, xabarlardagi vaqt va dayjestlar shunga koʻra hisoblanadi:',
+        hint: '✏️ Boshqa mintaqa: /timezone Europe/Moscow yoki hozirgi vaqtingiz: /timezone 14:30',
+        invalid: '❌ Vaqt mintaqasini aniqlab boʻlmadi. Masalan: /timezone Asia/Tashkent yoki /timezone 14:30',
+        saved: (zone: string) => `✅ Vaqt mintaqasi: ${zone}`,
+    },
+
+    // Muddatni uzaytirish
+    extensions: {
+        enterDate: (title: string) => `⏳ "${title}" vazifasi muddatini uzaytirish.\nYangi sanani kiriting (KK.OO.YYYY yoki «ertaga»):`,
+        enterReason: '📝 Sababini qisqacha yozing:',
+        enterCounter: '📅 Taklif qilayotgan sanangizni kiriting (KK.OO.YYYY yoki «ertaga»):',
+        invalidDate: '❌ Yangi muddat kelajakda va joriy muddatdan keyin boʻlishi kerak. Qayta urinib koʻring.',
+        alreadyOpen: '⏳ Bu vazifa boʻyicha uzaytirish soʻrovi allaqachon bor — qarorni kuting.',
+        sent: '✅ Soʻrov vazifa muallifiga yuborildi. Qaror haqida xabar beraman.',
+        counterSent: '✅ Taklifingiz ijrochiga yuborildi.',
+        request: (title: string, name: string, from: string, to: string, reason: string) =>
+            `⏳ Muddatni uzaytirish soʻrovi\n\n📋 ${title}\n👤 ${name}\n📅 ${from} → ${to}\n📝 ${reason}`,
+        approved: (title: string, to: string) => `✅ "${title}" vazifasi muddati ${to} gacha uzaytirildi.`,
+        rejected: (title: string) => `❌ "${title}" vazifasi muddatini uzaytirish soʻrovi rad etildi.`,
+        countered: (title: string, to: string) => `📅 "${title}" vazifasi muallifi yangi muddatni taklif qilmoqda: ${to}. Rozimisiz?`,
+        counterAccepted: (title: string, name: string, to: string) =>
+            `✅ ${name} "${title}" vazifasining yangi muddatiga rozi: ${to}.`,
+        counterDeclined: (title: string, name: string) =>
+            `❌ ${name} "${title}" vazifasi uchun taklif qilingan muddatga rozi emas.`,
+        decisionApproved: '✅ Tasdiqlandi',
+        decisionRejected: '❌ Rad etildi',
+        decisionCountered: '📅 Boshqa sana taklif qilindi',
+    },
+
+    // Jamoa hisobotlari
+    reports: {
+        title: (period: string) => `📈 **Jamoa hisoboti: ${period}**`,
+        periods: {
+            week: 'hafta',
+            month: 'oy',
         },
+        range: (from: string, to: string) => `📅 ${from} — ${to}`,
+        empty: 'Bu davrda xodimlarda vazifalar yoʻq.',
+        employee: (name: string) => `👤 **${name}**`,
+        completed: (count: number) => `✅ Bajarildi: ${count}`,
+        onTime: (rate: string) => `⏱ Oʻz vaqtida: ${rate}`,
+        cycle: (duration: string) => `🔄 Sikl: ${duration}`,
+        wip: (count: number) => `⚡ Jarayonda: ${count}`,
+        overdue: (count: number) => `🔴 Muddati oʻtgan: ${count}`,
+        csvCaption: '📎 CSV hisobot',
+        csvHeaders: ['Xodim', 'Bajarildi', 'Oʻz vaqtida, %', 'Oʻrtacha sikl, soat', 'Muddati oʻtgan', 'Jarayonda'],
+        usage: 'Foydalanish: /report week yoki /report month',
     },
 
     // Tugmalar
@@ -183,6 +478,21 @@ Mavjud buyruqlar:
         moveToInProgress: '⚡ Ishga kirishish',
         moveToReview: '👀 Tekshiruvga',
         moveToDone: '✅ Bajarildi',
+        approve: '✅ Ishni qabul qilish',
+        history: '📜 Tarix',
+        comments: '💬 Izohlar',
+        reminders: '⏰ Eslatmalar',
+        category: '🏷 Kategoriya',
+        snoozeHour: '😴 1 soatdan keyin',
+        snoozeTomorrow: '🌅 Ertaga 9:00 da',
+        askExtension: '⏳ Uzaytirishni soʻrash',
+        approveExtension: '✅ Tasdiqlash',
+        rejectExtension: '❌ Rad etish',
+        counterPropose: '📅 Boshqa sanani taklif qilish',
+        acceptCounter: '✅ Roziman',
+        declineCounter: '❌ Rozi emasman',
+        unlinkBoard: '🔓 Doskani uzish',
+        returnToWork: '↩️ Ishga qaytarish',
         assignToMe: '🙋‍♂️ Menga tayinlash',
 
         // Fayllar
@@ -201,14 +511,19 @@ Mavjud buyruqlar:
     help: {
         title: '🤖 **Mavjud buyruqlar:**',
 
-        common: `📋 /my_tasks - sizning vazifalaringizni koʻrish
+        common: `📋 /my_tasks - filtrlar bilan vazifalaringiz; /my_tasks <koʻrinish> - saqlangan koʻrinish
+⏰ /reminders - muddat eslatmalari
+🕐 /timezone - vaqt mintaqasi
+⚙️ /settings - sozlamalar
 ❓ /help - ushbu yordam`,
 
         owner: `🔧 **Egalar uchun buyruqlar:**
 📝 /create_task - vazifa yaratish
 📊 /stats - vazifalar statistikasi
+📈 /report - hafta yoki oy boʻyicha jamoa hisoboti
 📅 /deadlines - muddatlarni koʻrib chiqish
-🔍 /search_tasks - vazifalarni qidirish va tahrirlash`,
+🔍 /search_tasks - vazifalarni qidirish va tahrirlash
+🗂 /link_board - chatni Planka doskasiga bogʻlash`,
 
         admin: `👑 **Administrator buyruqlari:**
 👥 /users - foydalanuvchilarni boshqarish
@@ -218,6 +533,7 @@ Mavjud buyruqlar:
         usage: `**Foydalanish:**
 • Vazifalar yaratish uchun shaxsiy xabarlarda /create_task dan foydalaning
 • Vazifalarni ovozli xabarlar orqali yaratish mumkin
+• Guruhda xabarni vazifaga aylantirish uchun unga «@bot vazifa» deb javob bering
 • Vazifalarni boshqarish uchun inline tugmalardan foydalaning`,
     },
 
@@ -1,7 +1,21 @@
 import { Markup } from 'telegraf';
-import { InlineKeyboardButton, ReplyKeyboardMarkup } from 'telegraf/types';
-import { Language } from '../../interfaces/user';
-import { TaskStatus } from '../../interfaces/task';
+import { InlineKeyboardButton, InlineKeyboardMarkup, ReplyKeyboardMarkup } from 'telegraf/types';
+import { Language, UserSettings } from '../../interfaces/user';
+import {
+    Task,
+    TaskStatus,
+    TaskPriority,
+    TaskCategory,
+    TaskEvent,
+    TaskEventType,
+    TaskComment,
+    TeamReport,
+    TaskSearchResult,
+    TaskListFilters,
+    TaskView,
+} from '../../interfaces/task';
+import { TASK_STATUS_DISPLAY, TASK_PRIORITY_DISPLAY, REMINDER_PRESETS, TIMEZONE_CHOICES } from '../../config/constants';
+import { config } from '../../config/env';
 import { ru } from './i18n/ru';
 import { uz } from './i18n/uz';
 
@@ -12,6 +26,11 @@ export function getText(lang: Language = Language.RU) {
     return lang === Language.UZ ? uz : ru;
 }
 
+/**
+ * Алиас getText - так его называют обработчики и джобы
+ */
+export const getTexts = getText;
+
 /**
  * Клавиатуры для различных действий
  */
@@ -42,16 +61,61 @@ export const keyboards = {
     /**
      * Клавиатура для просмотра задачи
      */
-    taskView(cardId: string, isOwner: boolean, lang: Language = Language.RU) {
+    taskView(
+        cardId: string,
+        isOwner: boolean,
+        lang: Language = Language.RU,
+        status?: TaskStatus,
+        isAssignee: boolean = false
+    ) {
         const t = getText(lang);
         const buttons: InlineKeyboardButton[][] = [];
 
+        // Кнопки смены статуса: владельцу — всегда, сотруднику — только по своей задаче
+        if (status && (isOwner || isAssignee)) {
+            const transitions: Record<TaskStatus, Array<{ to: TaskStatus; text: string; ownerOnly: boolean }>> = {
+                [TaskStatus.TODO]: [
+                    { to: TaskStatus.IN_PROGRESS, text: t.buttons.moveToInProgress, ownerOnly: false },
+                ],
+                [TaskStatus.IN_PROGRESS]: [
+                    { to: TaskStatus.IN_REVIEW, text: t.buttons.moveToReview, ownerOnly: false },
+                ],
+                [TaskStatus.IN_REVIEW]: [
+                    { to: TaskStatus.DONE, text: t.buttons.approve, ownerOnly: true },
+                    { to: TaskStatus.IN_PROGRESS, text: t.buttons.returnToWork, ownerOnly: true },
+                ],
+                [TaskStatus.DONE]: [
+                    { to: TaskStatus.IN_PROGRESS, text: t.buttons.returnToWork, ownerOnly: true },
+                ],
+            };
+
+            const row = transitions[status]
+                .filter(transition => isOwner || !transition.ownerOnly)
+                .map(transition => Markup.button.callback(
+                    transition.text,
+                    `set_status_${cardId}_${transition.to}`
+                ));
+
+            if (row.length > 0) {
+                buttons.push(row);
+            }
+        }
+
         if (isOwner) {
             buttons.push([
                 Markup.button.callback(t.buttons.editTask, `edit_task_${cardId}`),
             ]);
+        } else if (isAssignee && status !== TaskStatus.DONE) {
+            buttons.push([
+                Markup.button.callback(t.buttons.askExtension, `extend_task_${cardId}`),
+            ]);
         }
 
+        buttons.push([
+            Markup.button.callback(t.buttons.comments, `task_comments_${cardId}`),
+            Markup.button.callback(t.buttons.history, `task_history_${cardId}`),
+        ]);
+
         buttons.push([
             Markup.button.callback(t.buttons.refreshTask, `refresh_task_${cardId}`),
         ]);
@@ -81,12 +145,227 @@ export const keyboards = {
                 Markup.button.callback('👤 Исполнитель', `edit_assignee_${cardId}`),
                 Markup.button.callback('📅 Срок', `edit_due_${cardId}`),
             ],
+            [
+                Markup.button.callback(t.buttons.category, `edit_category_${cardId}`),
+                Markup.button.callback(t.buttons.reminders, `edit_reminders_${cardId}`),
+            ],
             [
                 Markup.button.callback(t.buttons.back, `view_task_${cardId}`),
             ],
         ]);
     },
 
+    /**
+     * Клавиатура выбора приоритета
+     * В callback передаём ключ enum (LOW, HIGH, ...)
+     */
+    prioritySelect(cardId: string, currentPriority: TaskPriority, lang: Language = Language.RU) {
+        const t = getText(lang);
+        const buttons: InlineKeyboardButton[][] = [];
+
+        for (const [key, value] of Object.entries(TaskPriority)) {
+            if (value !== currentPriority) {
+                buttons.push([
+                    Markup.button.callback(
+                        `${formatPriorityEmoji(value)} ${formatPriority(value, lang)}`,
+                        `set_priority_${cardId}_${key}`
+                    ),
+                ]);
+            }
+        }
+
+        buttons.push([
+            Markup.button.callback(t.buttons.cancel, `edit_task_${cardId}`),
+        ]);
+
+        return Markup.inlineKeyboard(buttons);
+    },
+
+    /**
+     * Клавиатура выбора напоминаний: готовые наборы, сброс и свои интервалы
+     * callbackPrefix — `set_reminders_<cardId>_` для задачи, `reminder_defaults_` для настроек пользователя
+     */
+    reminderSelect(callbackPrefix: string, lang: Language = Language.RU, cancelData?: string) {
+        const t = getText(lang);
+        const buttons: InlineKeyboardButton[][] = [
+            [Markup.button.callback(t.reminders.presets.default, `${callbackPrefix}default`)],
+        ];
+
+        for (const [key, offsets] of Object.entries(REMINDER_PRESETS)) {
+            const label = offsets.length > 0
+                ? `⏰ ${formatReminderOffsets(offsets, lang)}`
+                : t.reminders.presets.off;
+
+            buttons.push([Markup.button.callback(label, `${callbackPrefix}${key}`)]);
+        }
+
+        buttons.push([Markup.button.callback(t.reminders.presets.custom, `${callbackPrefix}custom`)]);
+
+        if (cancelData) {
+            buttons.push([Markup.button.callback(t.buttons.cancel, cancelData)]);
+        }
+
+        return Markup.inlineKeyboard(buttons);
+    },
+
+    /**
+     * Выбор часового пояса: частые варианты, остальные — названием или местным временем
+     */
+    timezoneSelect(callbackPrefix: string = 'set_timezone_') {
+        const buttons = TIMEZONE_CHOICES.map(timeZone =>
+            [Markup.button.callback(formatTimezone(timeZone), `${callbackPrefix}${timeZone}`)]
+        );
+
+        return Markup.inlineKeyboard(buttons);
+    },
+
+    /**
+     * Меню /settings; вечерний дайджест получают только владельцы и администраторы
+     */
+    settingsMenu(settings: UserSettings, lang: Language = Language.RU, showEvening: boolean = true) {
+        const t = getText(lang);
+        const digestHours = [
+            Markup.button.callback(t.settings.buttons.morning(formatHour(settings.digestHour)), 'settings_morning'),
+        ];
+
+        if (showEvening) {
+            digestHours.push(
+                Markup.button.callback(t.settings.buttons.evening(formatHour(settings.eveningDigestHour)), 'settings_evening')
+            );
+        }
+
+        const buttons: InlineKeyboardButton[][] = [
+            [Markup.button.callback(
+                settings.digestEnabled ? t.settings.buttons.digestOff : t.settings.buttons.digestOn,
+                'settings_digest'
+            )],
+            digestHours,
+        ];
+
+        buttons.push([Markup.button.callback(
+            settings.notificationsEnabled ? t.settings.buttons.notificationsOff : t.settings.buttons.notificationsOn,
+            'settings_notifications'
+        )]);
+        buttons.push([
+            Markup.button.callback(t.settings.buttons.timezone, 'settings_timezone'),
+            Markup.button.callback(t.buttons.reminders, 'settings_reminders'),
+        ]);
+
+        return Markup.inlineKeyboard(buttons);
+    },
+
+    /**
+     * Выбор часа (по 6 в ряд); exclude — занятый другим дайджестом час
+     */
+    hourSelect(callbackPrefix: string, lang: Language = Language.RU, exclude?: number, backData?: string) {
+        const t = getText(lang);
+        const hours = Array.from({ length: 24 }, (_, hour) => hour).filter(hour => hour !== exclude);
+        const buttons: InlineKeyboardButton[][] = [];
+
+        for (let i = 0; i < hours.length; i += 6) {
+            buttons.push(hours.slice(i, i + 6).map(hour =>
+                Markup.button.callback(formatHour(hour), `${callbackPrefix}${hour}`)
+            ));
+        }
+
+        if (backData) {
+            buttons.push([Markup.button.callback(t.buttons.back, backData)]);
+        }
+
+        return Markup.inlineKeyboard(buttons);
+    },
+
+    /**
+     * Кнопки под напоминанием о дедлайне
+     * Продление просит только исполнитель — автор может сам поменять срок
+     */
+    reminderActions(
+        cardId: string,
+        status: TaskStatus,
+        lang: Language = Language.RU,
+        isCreator: boolean = false
+    ) {
+        const t = getText(lang);
+        const buttons: InlineKeyboardButton[][] = [
+            [
+                Markup.button.callback(t.buttons.snoozeHour, `remind_snooze_${cardId}_1h`),
+                Markup.button.callback(t.buttons.snoozeTomorrow, `remind_snooze_${cardId}_tomorrow`),
+            ],
+        ];
+
+        const statusRow: InlineKeyboardButton[] = [];
+
+        if (status === TaskStatus.TODO) {
+            statusRow.push(Markup.button.callback(t.buttons.moveToInProgress, `remind_start_${cardId}`));
+        }
+
+        if (status !== TaskStatus.IN_REVIEW) {
+            statusRow.push(Markup.button.callback(t.buttons.moveToDone, `remind_done_${cardId}`));
+        }
+
+        if (statusRow.length > 0) {
+            buttons.push(statusRow);
+        }
+
+        if (!isCreator) {
+            buttons.push([Markup.button.callback(t.buttons.askExtension, `extend_task_${cardId}`)]);
+        }
+
+        buttons.push([Markup.button.callback(t.buttons.viewTask, `view_task_${cardId}`)]);
+
+        return Markup.inlineKeyboard(buttons);
+    },
+
+    /**
+     * Клавиатура выбора категории
+     */
+    categorySelect(cardId: string, currentCategory: TaskCategory, lang: Language = Language.RU) {
+        const t = getText(lang);
+        const buttons: InlineKeyboardButton[][] = [];
+
+        for (const [key, value] of Object.entries(TaskCategory)) {
+            if (value !== currentCategory) {
+                buttons.push([
+                    Markup.button.callback(`🏷 ${formatCategory(value, lang)}`, `set_category_${cardId}_${key}`),
+                ]);
+            }
+        }
+
+        buttons.push([
+            Markup.button.callback(t.buttons.cancel, `edit_task_${cardId}`),
+        ]);
+
+        return Markup.inlineKeyboard(buttons);
+    },
+
+    /**
+     * Клавиатура смены исполнителя задачи
+     */
+    taskAssigneeSelect(
+        cardId: string,
+        assignees: Array<{ id: string; name: string }>,
+        lang: Language = Language.RU
+    ) {
+        const t = getText(lang);
+        const buttons: InlineKeyboardButton[][] = [];
+
+        for (const assignee of assignees) {
+            buttons.push([
+                Markup.button.callback(assignee.name, `set_assignee_${cardId}_${assignee.id}`),
+            ]);
+        }
+
+        buttons.push([
+            Markup.button.callback(t.tasks.edit.noAssignee, `set_assignee_${cardId}_none`),
+        ]);
+
+        buttons.push([
+            Markup.button.callback(t.buttons.cancel, `edit_task_${cardId}`),
+        ]);
+
+        return Markup.inlineKeyboard(buttons);
+    },
+
     /**
      * Клавиатура выбора статуса
      */
@@ -270,11 +549,12 @@ export const keyboards = {
 };
 
 /**
- * Форматирование даты по языку
+ * Форматирование даты по языку в часовом поясе пользователя
  */
-export function formatDate(date: Date, lang: Language = Language.RU): string {
+export function formatDate(date: Date, lang: Language = Language.RU, timeZone: string = config.timezone.default): string {
     const locale = lang === Language.UZ ? 'uz-UZ' : 'ru-RU';
     return date.toLocaleDateString(locale, {
+        timeZone,
         day: '2-digit',
         month: '2-digit',
         year: 'numeric',
@@ -282,11 +562,63 @@ export function formatDate(date: Date, lang: Language = Language.RU): string {
 }
 
 /**
- * Форматирование времени по языку
+ * Название приоритета по коду; неизвестный код показываем как есть
+ */
+export function formatPriority(priority: TaskPriority, lang: Language = Language.RU): string {
+    const names: Record<string, string> = getText(lang).tasks.priorities;
+    return names[priority] ?? priority;
+}
+
+/**
+ * Эмодзи приоритета
+ */
+export function formatPriorityEmoji(priority: TaskPriority): string {
+    return TASK_PRIORITY_DISPLAY[priority]?.emoji ?? '⚪';
+}
+
+/**
+ * Название категории по коду
+ */
+export function formatCategory(category: TaskCategory, lang: Language = Language.RU): string {
+    const names: Record<string, string> = getText(lang).tasks.categories;
+    return names[category] ?? category;
+}
+
+/**
+ * Интервал напоминания: "2 дн", "6 ч", "30 мин"
+ */
+export function formatReminderOffset(minutes: number, lang: Language = Language.RU): string {
+    const units = getText(lang).reminders.units;
+
+    if (minutes % 1440 === 0 && minutes > 1440) {
+        return units.days(minutes / 1440);
+    }
+
+    if (minutes % 60 === 0) {
+        return units.hours(minutes / 60);
+    }
+
+    return units.minutes(minutes);
+}
+
+/**
+ * Набор интервалов напоминаний: "24 ч · 6 ч · 2 ч"
+ */
+export function formatReminderOffsets(offsets: readonly number[], lang: Language = Language.RU): string {
+    if (offsets.length === 0) {
+        return getText(lang).reminders.off;
+    }
+
+    return offsets.map(offset => formatReminderOffset(offset, lang)).join(' · ');
+}
+
+/**
+ * Форматирование времени по языку в часовом поясе пользователя
  */
-export function formatTime(date: Date, lang: Language = Language.RU): string {
+export function formatTime(date: Date, lang: Language = Language.RU, timeZone: string = config.timezone.default): string {
     const locale = lang === Language.UZ ? 'uz-UZ' : 'ru-RU';
     return date.toLocaleTimeString(locale, {
+        timeZone,
         hour: '2-digit',
         minute: '2-digit',
     });
@@ -295,6 +627,467 @@ export function formatTime(date: Date, lang: Language = Language.RU): string {
 /**
  * Форматирование даты и времени
  */
-export function formatDateTime(date: Date, lang: Language = Language.RU): string {
-    return `${formatDate(date, lang)} ${formatTime(date, lang)}`;
-}
\ No newline at end of file
+export function formatDateTime(date: Date, lang: Language = Language.RU, timeZone: string = config.timezone.default): string {
+    return `${formatDate(date, lang, timeZone)} ${formatTime(date, lang, timeZone)}`;
+}
+
+/**
+ * Час в виде "09:00"
+ */
+export function formatHour(hour: number): string {
+    return `${String(hour).padStart(2, '0')}:00`;
+}
+
+/**
+ * Часовой пояс со смещением: "Asia/Tashkent (UTC+05:00)"
+ */
+export function formatTimezone(timeZone: string, date: Date = new Date()): string {
+    const offset = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+        .formatToParts(date)
+        .find(part => part.type === 'timeZoneName')?.value || 'GMT';
+
+    return `${timeZone} (${offset === 'GMT' ? 'UTC+00:00' : offset.replace('GMT', 'UTC')})`;
+}
+
+/**
+ * Клавиатуры для работы с задачами (готовые reply_markup)
+ */
+export const taskKeyboards = {
+    /**
+     * Кнопки списка задач
+     */
+    tasksList(
+        tasks: Array<{ id: string; title: string; status: string }>,
+        lang: Language = Language.RU
+    ): InlineKeyboardMarkup {
+        const keyboard = keyboards.tasksList(tasks, false, lang);
+        return keyboard ? keyboard.reply_markup : { inline_keyboard: [] };
+    },
+
+    /**
+     * Страница списка задач: задачи, листание, фильтры, сохранённые виды
+     */
+    listPage(
+        result: TaskSearchResult,
+        filters: TaskListFilters,
+        views: TaskView[],
+        options: { activeViewId?: number; canSave: boolean; canReset: boolean },
+        lang: Language = Language.RU
+    ): InlineKeyboardMarkup {
+        const t = getText(lang);
+        const pages = Math.max(1, Math.ceil(result.total / result.pageSize));
+        const buttons = [...this.tasksList(result.tasks, lang).inline_keyboard];
+
+        if (pages > 1) {
+            const nav: InlineKeyboardButton[] = [];
+
+            if (result.page > 1) {
+                nav.push(Markup.button.callback(t.tasks.list.prev, `tl_page_${result.page - 1}`));
+            }
+
+            nav.push(Markup.button.callback(`${result.page}/${pages}`, 'tl_noop'));
+
+            if (result.page < pages) {
+                nav.push(Markup.button.callback(t.tasks.list.next, `tl_page_${result.page + 1}`));
+            }
+
+            buttons.push(nav);
+        }
+
+        const chip = (field: keyof TaskListFilters) => Markup.button.callback(
+            `${t.tasks.list.chips[field]}: ${formatListFilterValue(field, filters[field], lang)}`,
+            `tl_menu_${field}`
+        );
+
+        buttons.push([chip('scope'), chip('status')]);
+        buttons.push([chip('priority'), chip('category')]);
+        buttons.push([chip('due'), chip('sort')]);
+
+        for (let i = 0; i < views.length; i += 2) {
+            buttons.push(views.slice(i, i + 2).map(view => Markup.button.callback(
+                `${view.id === options.activeViewId ? '⭐' : '☆'} ${view.name}`,
+                `tl_view_${view.id}`
+            )));
+        }
+
+        const actions: InlineKeyboardButton[] = [];
+
+        if (options.canSave) {
+            actions.push(Markup.button.callback(t.tasks.list.save, 'tl_save'));
+        }
+
+        if (options.canReset) {
+            actions.push(Markup.button.callback(t.tasks.list.reset, 'tl_reset'));
+        }
+
+        if (actions.length > 0) {
+            buttons.push(actions);
+        }
+
+        const activeView = views.find(view => view.id === options.activeViewId);
+
+        if (activeView) {
+            buttons.push([Markup.button.callback(t.tasks.list.deleteView(activeView.name), `tl_delview_${activeView.id}`)]);
+        }
+
+        return { inline_keyboard: buttons };
+    },
+
+    /**
+     * Выбор значения фильтра списка; для необязательных фильтров есть «все»
+     */
+    listFilter(
+        field: keyof TaskListFilters,
+        values: readonly string[],
+        current: string | undefined,
+        lang: Language = Language.RU
+    ): InlineKeyboardMarkup {
+        const t = getText(lang);
+        const mark = (selected: boolean) => selected ? '✓ ' : '';
+        const options = values.map(value => Markup.button.callback(
+            `${mark(value === current)}${formatListFilterValue(field, value, lang)}`,
+            `tl_set_${field}_${value}`
+        ));
+
+        if (field !== 'scope' && field !== 'sort') {
+            options.unshift(Markup.button.callback(`${mark(current === undefined)}${t.tasks.list.any}`, `tl_set_${field}_any`));
+        }
+
+        const buttons: InlineKeyboardButton[][] = [];
+
+        for (let i = 0; i < options.length; i += 2) {
+            buttons.push(options.slice(i, i + 2));
+        }
+
+        buttons.push([Markup.button.callback(t.buttons.back, 'tl_back')]);
+
+        return { inline_keyboard: buttons };
+    },
+
+    /**
+     * Кнопки действий над задачей
+     */
+    taskActions(
+        cardId: string,
+        isOwner: boolean,
+        lang: Language = Language.RU,
+        status?: TaskStatus,
+        isAssignee: boolean = false
+    ): InlineKeyboardMarkup {
+        return keyboards.taskView(cardId, isOwner, lang, status, isAssignee).reply_markup;
+    },
+};
+
+/**
+ * Клавиатуры мастера создания задачи
+ */
+export const createTaskKeyboards = {
+    /**
+     * Подтверждение создания задачи
+     */
+    confirmCreate(sessionId: string, lang: Language = Language.RU): InlineKeyboardMarkup {
+        const t = getText(lang);
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(t.buttons.confirm, `confirm_create_${sessionId}`)],
+            [Markup.button.callback(t.buttons.addFiles, `add_files_${sessionId}`)],
+            [Markup.button.callback(t.buttons.cancel, 'cancel_task')],
+        ]).reply_markup;
+    },
+
+    /**
+     * Шаг сбора вложений
+     */
+    collectFiles(sessionId: string, lang: Language = Language.RU): InlineKeyboardMarkup {
+        const t = getText(lang);
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(t.common.done, `files_done_${sessionId}`)],
+            [Markup.button.callback(t.buttons.cancel, 'cancel_task')],
+        ]).reply_markup;
+    },
+};
+
+/**
+ * Форматирование карточки задачи
+ */
+export function formatTask(task: Task, lang: Language = Language.RU, timeZone: string = config.timezone.default): string {
+    const t = getText(lang);
+    const lines = [t.tasks.view.title(task.title), ''];
+
+    lines.push(t.tasks.view.status(task.status));
+    lines.push(t.tasks.view.priority(formatPriority(task.priority, lang), formatPriorityEmoji(task.priority)));
+
+    if (task.assigneeName) {
+        lines.push(t.tasks.view.assignee(task.assigneeName));
+    }
+
+    if (task.dueDate) {
+        lines.push(t.tasks.view.dueDate(formatDate(task.dueDate, lang, timeZone)));
+
+        if (task.dueDate < new Date() && task.status !== TaskStatus.DONE) {
+            lines.push(t.tasks.view.overdue);
+        }
+    }
+
+    // Напоминания показываем, только если у задачи свой набор
+    if (task.reminderOffsets) {
+        lines.push(`⏰ ${formatReminderOffsets(task.reminderOffsets, lang)}`);
+    }
+
+    if (task.description && task.description !== task.title) {
+        lines.push('');
+        lines.push(t.tasks.view.description(task.description));
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Форматирование списка задач
+ */
+export function formatTasksList(
+    tasks: Task[],
+    title: string,
+    lang: Language = Language.RU,
+    timeZone: string = config.timezone.default
+): string {
+    const lines = [title, ''];
+
+    for (const task of tasks) {
+        const emoji = {
+            'todo': '📋',
+            'in_progress': '⚡',
+            'in_review': '👀',
+            'done': '✅',
+        }[task.status] || '📋';
+
+        let line = `${emoji} ${task.title}`;
+
+        if (task.dueDate) {
+            line += ` — ${formatDate(task.dueDate, lang, timeZone)}`;
+        }
+
+        lines.push(line);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Страница списка задач: заголовок (вид или чьи задачи), номер страницы, активные фильтры
+ */
+export function formatTaskListPage(
+    result: TaskSearchResult,
+    filters: TaskListFilters,
+    lang: Language = Language.RU,
+    timeZone: string = config.timezone.default,
+    viewName?: string
+): string {
+    const t = getText(lang);
+    const pages = Math.max(1, Math.ceil(result.total / result.pageSize));
+    const title = viewName ? `⭐ ${viewName}` : t.tasks.list.titles[filters.scope];
+
+    const active = (['status', 'priority', 'category', 'due'] as const)
+        .filter(field => filters[field] !== undefined)
+        .map(field => formatListFilterValue(field, filters[field], lang));
+
+    const header = [
+        t.tasks.view.title(title),
+        t.tasks.list.page(result.page, pages, result.total),
+        ...(active.length > 0 ? [t.tasks.list.filters(active.join(' · '))] : []),
+    ].join('\n');
+
+    if (result.tasks.length === 0) {
+        return `${header}\n\n${t.tasks.list.empty}`;
+    }
+
+    return formatTasksList(result.tasks, header, lang, timeZone);
+}
+
+/**
+ * Название значения фильтра списка задач (undefined — «все»)
+ */
+export function formatListFilterValue(
+    field: keyof TaskListFilters,
+    value: string | undefined,
+    lang: Language = Language.RU
+): string {
+    const t = getText(lang);
+
+    if (value === undefined) {
+        return t.tasks.list.any;
+    }
+
+    switch (field) {
+        case 'scope':
+            return t.tasks.list.scopes[value as TaskListFilters['scope']] ?? value;
+        case 'status':
+            return formatStatusName(value as TaskStatus, lang);
+        case 'priority':
+            return formatPriority(value as TaskPriority, lang);
+        case 'category':
+            return formatCategory(value as TaskCategory, lang);
+        case 'due':
+            return t.tasks.list.dues[value as NonNullable<TaskListFilters['due']>] ?? value;
+        case 'sort':
+            return t.tasks.list.sorts[value as TaskListFilters['sort']] ?? value;
+    }
+}
+
+/**
+ * Форматирование истории задачи (таймлайн)
+ */
+export function formatTaskHistory(
+    task: Task,
+    events: TaskEvent[],
+    lang: Language = Language.RU,
+    timeZone: string = config.timezone.default
+): string {
+    const t = getText(lang);
+    const lines = [t.tasks.history.title(task.title), ''];
+
+    if (events.length === 0) {
+        lines.push(t.tasks.history.empty);
+        return lines.join('\n');
+    }
+
+    for (const event of events) {
+        const actor = event.actorName || 'Planka';
+        lines.push(`🕐 ${formatDateTime(event.createdAt, lang, timeZone)} — ${actor}`);
+        lines.push(`    ${describeTaskEvent(event, lang, timeZone)}`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Последние комментарии задачи (без Markdown — текст комментариев произвольный)
+ */
+export function formatTaskComments(
+    task: Task,
+    comments: TaskComment[],
+    lang: Language = Language.RU,
+    timeZone: string = config.timezone.default
+): string {
+    const t = getText(lang);
+    const lines = [t.tasks.comments.title(task.title), ''];
+
+    if (comments.length === 0) {
+        lines.push(t.tasks.comments.empty, '');
+    }
+
+    for (const comment of comments) {
+        lines.push(`🕐 ${formatDateTime(comment.createdAt, lang, timeZone)} — ${comment.authorName}`);
+        lines.push(comment.text);
+        lines.push('');
+    }
+
+    lines.push(t.tasks.comments.replyHint);
+
+    return lines.join('\n');
+}
+
+/**
+ * Отчёт по команде: по блоку на сотрудника
+ */
+export function formatTeamReport(
+    report: TeamReport,
+    lang: Language = Language.RU,
+    timeZone: string = config.timezone.default
+): string {
+    const t = getText(lang).reports;
+    const lines = [
+        t.title(t.periods[report.period]),
+        t.range(formatDate(report.from, lang, timeZone), formatDate(report.to, lang, timeZone)),
+        '',
+    ];
+
+    if (report.employees.length === 0) {
+        lines.push(t.empty);
+        return lines.join('\n');
+    }
+
+    for (const employee of report.employees) {
+        // Имя без символов разметки — Markdown в Telegram их не экранирует
+        lines.push(t.employee(employee.name.replace(/[_*`[\]]/g, '')));
+        lines.push(`   ${[
+            t.completed(employee.completed),
+            t.onTime(employee.onTimeRate === null ? '—' : `${Math.round(employee.onTimeRate * 100)}%`),
+            t.cycle(employee.avgCycleHours === null ? '—' : formatCycleTime(employee.avgCycleHours, lang)),
+        ].join(' · ')}`);
+        lines.push(`   ${t.wip(employee.wip)} · ${t.overdue(employee.overdue)}`);
+        lines.push('');
+    }
+
+    return lines.join('\n').trim();
+}
+
+/**
+ * Отчёт по команде в CSV (цикл — в часах)
+ */
+export function formatTeamReportCsv(report: TeamReport, lang: Language = Language.RU): string {
+    const rows = [
+        getText(lang).reports.csvHeaders,
+        ...report.employees.map(employee => [
+            employee.name,
+            String(employee.completed),
+            employee.onTimeRate === null ? '' : String(Math.round(employee.onTimeRate * 100)),
+            employee.avgCycleHours === null ? '' : employee.avgCycleHours.toFixed(1),
+            String(employee.overdue),
+            String(employee.wip),
+        ]),
+    ];
+
+    return rows
+        .map(row => row.map(value => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value).join(','))
+        .join('\n');
+}
+
+/**
+ * Среднее время цикла: до двух суток — в часах, дальше — в днях
+ */
+function formatCycleTime(hours: number, lang: Language): string {
+    const units = getText(lang).reminders.units;
+
+    return hours < 48
+        ? units.hours(Math.round(hours))
+        : units.days(Math.round(hours / 24 * 10) / 10);
+}
+
+/**
+ * Описание события истории на языке пользователя
+ */
+export function describeTaskEvent(event: TaskEvent, lang: Language, timeZone: string): string {
+    const t = getText(lang);
+
+    switch (event.type) {
+        case TaskEventType.CREATED:
+            return t.tasks.history.created;
+        case TaskEventType.STATUS:
+            return t.tasks.history.status(
+                formatStatusName(event.data.from, lang),
+                formatStatusName(event.data.to, lang)
+            );
+        case TaskEventType.ASSIGNED:
+            return event.data.to ? t.tasks.history.assigned : t.tasks.history.unassigned;
+        case TaskEventType.DUE_DATE:
+            return event.data.to
+                ? t.tasks.history.dueDate(formatDate(new Date(event.data.to), lang, timeZone))
+                : t.tasks.history.dueDateRemoved;
+        case TaskEventType.EDITED:
+            return t.tasks.history.edited(
+                (event.data.fields || [])
+                    .map((field: string) => t.tasks.history.fields[field as keyof typeof t.tasks.history.fields] || field)
+                    .join(', ')
+            );
+        default:
+            return event.type;
+    }
+}
+
+/**
+ * Название статуса с эмодзи
+ */
+export function formatStatusName(status: TaskStatus, lang: Language = Language.RU): string {
+    const display = TASK_STATUS_DISPLAY[status];
+    return display ? `${display.emoji} ${display[lang]}` : status;
+}
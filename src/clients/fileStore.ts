@@ -0,0 +1,68 @@
+import axios, { AxiosInstance } from 'axios';
+import mime from 'mime-types';
+import { TIMEOUTS, LIMITS } from '../config/constants';
+import { AppError, ErrorCodes } from '../utils/errors';
+import Log from '../utils/log';
+
+/**
+ * Скачанный файл
+ */
+export interface StoredFile {
+    buffer: Buffer;
+    filename: string;
+    mimetype: string;
+    size: number;
+}
+
+/**
+ * Клиент для скачивания файлов (вложения из Telegram и т.п.)
+ * Только HTTP-вызовы, без бизнес-логики!
+ */
+class FileStore {
+    private client: AxiosInstance;
+
+    constructor() {
+        this.client = axios.create({
+            timeout: TIMEOUTS.FILE_UPLOAD,
+            responseType: 'arraybuffer',
+            maxContentLength: LIMITS.MAX_FILE_SIZE,
+        });
+    }
+
+    /**
+     * Скачивание файла по ссылке
+     */
+    async download(url: string, filename: string, mimetype?: string): Promise<StoredFile> {
+        try {
+            const response = await this.client.get<ArrayBuffer>(url);
+            const buffer = Buffer.from(response.data);
+
+            const resolvedType = mimetype
+                || mime.lookup(filename)
+                || response.headers['content-type']
+                || 'application/octet-stream';
+
+            Log.external('files', 'File downloaded', {
+                filename,
+                size: buffer.length,
+            });
+
+            return {
+                buffer,
+                filename,
+                mimetype: String(resolvedType),
+                size: buffer.length,
+            };
+        } catch (error) {
+            Log.error({ service: 'files' }, 'Failed to download file', error, { filename });
+            throw new AppError(
+                ErrorCodes.INVALID_INPUT,
+                'Failed to download file',
+                { filename }
+            );
+        }
+    }
+}
+
+// Экспортируем синглтон
+export const fileStore = new FileStore();
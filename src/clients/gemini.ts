@@ -2,7 +2,7 @@ import axios, { AxiosInstance } from 'axios';
 import { config } from '../config/env';
 import { AppError, ErrorCodes } from '../utils/errors';
 import Log from '../utils/log';
-import { GeminiAnalysis, TaskPriority, TaskCategory } from '../interfaces/task';
+import { GeminiAnalysis, TaskPriority, TaskCategory, TaskDraftField } from '../interfaces/task';
 
 /**
  * Клиент для работы с Gemini AI
@@ -55,13 +55,15 @@ class GeminiClient {
         message: string,
         userName: string,
         availableEmployees: Array<{ name: string; email: string; position?: string }>,
-        availableLabels: string[]
+        availableLabels: string[],
+        timeZone: string = config.timezone.default
     ): Promise<GeminiAnalysis> {
         const prompt = this.buildTaskAnalysisPrompt(
             message,
             userName,
             availableEmployees,
-            availableLabels
+            availableLabels,
+            timeZone
         );
 
         try {
@@ -145,12 +147,14 @@ class GeminiClient {
 
     /**
      * Построение промпта для анализа задачи
+     * Текущее время — в часовом поясе автора, чтобы "завтра" и "к 18:00" считались по его часам
      */
     private buildTaskAnalysisPrompt(
         message: string,
         userName: string,
         employees: Array<{ name: string; email: string; position?: string }>,
-        labels: string[]
+        labels: string[],
+        timeZone: string
     ): string {
         const employeeList = employees
             .map(emp => `- ${emp.name} (${emp.position || 'должность не указана'}, email: ${emp.email})`)
@@ -158,20 +162,21 @@ class GeminiClient {
 
         const labelsList = labels.join('\n');
         const currentDate = new Date().toLocaleString('ru-RU', {
-            timeZone: 'Asia/Tashkent',
+            timeZone,
             year: 'numeric',
             month: '2-digit',
             day: '2-digit',
             hour: '2-digit',
             minute: '2-digit',
-            weekday: 'long'
+            weekday: 'long',
+            timeZoneName: 'shortOffset'
         });
 
         return `
 Анализируй это сообщение для создания задачи в канбан-доске.
 Сообщение от пользователя ${userName}: "${message}"
 
-ТЕКУЩАЯ ДАТА И ВРЕМЯ: ${currentDate} (Ташкент, UTC+5)
+ТЕКУЩАЯ ДАТА И ВРЕМЯ: ${currentDate} (${timeZone})
 
 ДОСТУПНЫЕ СОТРУДНИКИ:
 ${employeeList || 'Нет зарегистрированных сотрудников'}
@@ -182,15 +187,15 @@ ${labelsList || 'Нет доступных лейблов'}
 Определи:
 1. Название задачи (краткое, до 50 символов)
 2. Описание задачи (подробное)
-3. Приоритет (выбери из списка доступных лейблов)
-4. Категория работы (разработка/дизайн/тестирование/документация/другое)
+3. Приоритет кодом: low/medium/high/critical (лейблы доски подскажут, что принято в команде)
+4. Категория работы кодом: development/design/testing/documentation/other
 5. Исполнитель (ТОЛЬКО из списка выше)
 6. Срок выполнения (если упомянут)
 
 ПРАВИЛА:
-- Если в сообщении есть слова "срочно", "критично", "важно" - высокий приоритет
-- Если есть слова "не спешить", "когда будет время" - низкий приоритет
-- В остальных случаях - средний приоритет
+- Если в сообщении есть слова "срочно", "критично", "важно" - приоритет high
+- Если есть слова "не спешить", "когда будет время" - приоритет low
+- В остальных случаях - приоритет medium
 - Определи язык сообщения (ru/uz) и отвечай на том же языке
 - ИГНОРИРУЙ упоминания людей, которых НЕТ в списке сотрудников
 
@@ -198,8 +203,8 @@ ${labelsList || 'Нет доступных лейблов'}
 {
   "title": "название задачи",
   "description": "описание задачи",
-  "priority": "приоритет из списка",
-  "category": "категория",
+  "priority": "low | medium | high | critical",
+  "category": "development | design | testing | documentation | other",
   "assignee": "имя исполнителя или null",
   "dueDate": "YYYY-MM-DD или null",
   "language": "ru или uz"
@@ -221,7 +226,7 @@ ${labelsList || 'Нет доступных лейблов'}
 
             const parsed = JSON.parse(jsonMatch[0]);
 
-            // Мапим приоритеты
+            // Мапим приоритеты: коды, а на случай ответа словами — названия на ru/uz
             const priorityMap: Record<string, TaskPriority> = {
                 'низкий': TaskPriority.LOW,
                 'средний': TaskPriority.MEDIUM,
@@ -231,6 +236,10 @@ ${labelsList || 'Нет доступных лейблов'}
                 'medium': TaskPriority.MEDIUM,
                 'high': TaskPriority.HIGH,
                 'critical': TaskPriority.CRITICAL,
+                'past': TaskPriority.LOW,
+                'oʻrta': TaskPriority.MEDIUM,
+                'yuqori': TaskPriority.HIGH,
+                'kritik': TaskPriority.CRITICAL,
             };
 
             // Мапим категории
@@ -245,16 +254,37 @@ ${labelsList || 'Нет доступных лейблов'}
                 'testing': TaskCategory.TESTING,
                 'documentation': TaskCategory.DOCUMENTATION,
                 'other': TaskCategory.OTHER,
+                'dasturlash': TaskCategory.DEVELOPMENT,
+                'dizayn': TaskCategory.DESIGN,
+                'testlash': TaskCategory.TESTING,
+                'hujjatlashtirish': TaskCategory.DOCUMENTATION,
+                'boshqa': TaskCategory.OTHER,
             };
 
+            const priority = priorityMap[parsed.priority?.toLowerCase()];
+            const category = categoryMap[parsed.category?.toLowerCase()];
+            const dueDate = parsed.dueDate ? new Date(parsed.dueDate) : undefined;
+            const validDueDate = dueDate && !isNaN(dueDate.getTime()) ? dueDate : undefined;
+            const assigneeName = parsed.assignee && parsed.assignee !== 'null' ? parsed.assignee : undefined;
+
+            // Запоминаем, какие поля модель действительно определила
+            const inferred: TaskDraftField[] = [];
+            if (parsed.title) inferred.push('title');
+            if (parsed.description) inferred.push('description');
+            if (priority) inferred.push('priority');
+            if (category) inferred.push('category');
+            if (assigneeName) inferred.push('assignee');
+            if (validDueDate) inferred.push('dueDate');
+
             return {
                 title: parsed.title || 'Новая задача',
                 description: parsed.description || '',
-                priority: priorityMap[parsed.priority?.toLowerCase()] || TaskPriority.MEDIUM,
-                category: categoryMap[parsed.category?.toLowerCase()] || TaskCategory.OTHER,
-                assigneeName: parsed.assignee || undefined,
-                dueDate: parsed.dueDate ? new Date(parsed.dueDate) : undefined,
+                priority: priority || TaskPriority.MEDIUM,
+                category: category || TaskCategory.OTHER,
+                assigneeName,
+                dueDate: validDueDate,
                 language: parsed.language === 'uz' ? 'uz' : 'ru',
+                inferred,
             };
         } catch (error) {
             Log.error({ service: 'gemini' }, 'Failed to parse response', error);
@@ -266,6 +296,7 @@ ${labelsList || 'Нет доступных лейблов'}
                 priority: TaskPriority.MEDIUM,
                 category: TaskCategory.OTHER,
                 language: 'ru',
+                inferred: [],
             };
         }
     }
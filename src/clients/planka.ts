@@ -3,7 +3,17 @@ import FormData from 'form-data';
 import { config } from '../config/env';
 import { AppError, ErrorCodes } from '../utils/errors';
 import Log from '../utils/log';
-import { PlankaCard, PlankaList, PlankaUser, PlankaMember, PlankaLabel } from '../interfaces/planka';
+import {
+    PlankaCard,
+    PlankaList,
+    PlankaUser,
+    PlankaMember,
+    PlankaLabel,
+    PlankaComment,
+    PlankaBoard,
+    PlankaProject,
+    CreateUserInput,
+} from '../interfaces/planka';
 
 /**
  * Клиент для работы с Planka API
@@ -106,6 +116,53 @@ class PlankaClient {
         }
     }
 
+    /**
+     * Проекты и доски, доступные аккаунту бота
+     */
+    async getProjects(): Promise<{
+        projects: PlankaProject[];
+        boards: PlankaBoard[];
+    }> {
+        await this.ensureAuthenticated();
+
+        try {
+            const response = await this.client.get('/projects');
+
+            return {
+                projects: response.data.items || [],
+                boards: response.data.included?.boards || [],
+            };
+        } catch (error) {
+            Log.error({ service: 'planka' }, 'Failed to get projects', error);
+            throw new AppError(
+                ErrorCodes.PLANKA_ERROR,
+                'Failed to get projects'
+            );
+        }
+    }
+
+    /**
+     * Получение доски
+     */
+    async getBoard(boardId: string): Promise<PlankaBoard | null> {
+        await this.ensureAuthenticated();
+
+        try {
+            const response = await this.client.get(`/boards/${boardId}`);
+            return response.data.item;
+        } catch (error: any) {
+            if (error.response?.status === 404) {
+                return null;
+            }
+
+            Log.error({ service: 'planka' }, 'Failed to get board', error);
+            throw new AppError(
+                ErrorCodes.PLANKA_ERROR,
+                'Failed to get board'
+            );
+        }
+    }
+
     /**
      * Получение списков доски
      */
@@ -146,6 +203,36 @@ class PlankaClient {
         }
     }
 
+    /**
+     * Получение полного состояния доски: списки, карточки и участники карточек
+     */
+    async getBoardSnapshot(boardId?: string): Promise<{
+        lists: PlankaList[];
+        cards: PlankaCard[];
+        cardMemberships: PlankaMember[];
+    }> {
+        await this.ensureAuthenticated();
+
+        const id = boardId || config.planka.boardId;
+
+        try {
+            const response = await this.client.get(`/boards/${id}`);
+            const included = response.data.included || {};
+
+            return {
+                lists: included.lists || [],
+                cards: included.cards || [],
+                cardMemberships: included.cardMemberships || [],
+            };
+        } catch (error) {
+            Log.error({ service: 'planka' }, 'Failed to get board snapshot', error);
+            throw new AppError(
+                ErrorCodes.PLANKA_ERROR,
+                'Failed to get board snapshot'
+            );
+        }
+    }
+
     /**
      * Создание карточки задачи
      */
@@ -155,6 +242,7 @@ class PlankaClient {
         name: string;
         description?: string;
         position?: number;
+        dueDate?: string;
     }): Promise<PlankaCard> {
         await this.ensureAuthenticated();
 
@@ -165,6 +253,7 @@ class PlankaClient {
                 name: data.name,
                 description: data.description,
                 position: data.position || 0,
+                dueDate: data.dueDate,
             });
 
             Log.external('planka', 'Card created', {
@@ -190,6 +279,7 @@ class PlankaClient {
         description?: string;
         listId?: string;
         position?: number;
+        dueDate?: string | null;
     }): Promise<PlankaCard> {
         await this.ensureAuthenticated();
 
@@ -231,49 +321,86 @@ class PlankaClient {
     }
 
     /**
-     * Поиск карточек
+     * Добавление участника к карточке
      */
-    async searchCards(query: string, boardId?: string): Promise<PlankaCard[]> {
+    async addCardMember(cardId: string, userId: string): Promise<void> {
         await this.ensureAuthenticated();
 
-        const id = boardId || config.planka.boardId;
+        try {
+            await this.client.post(`/cards/${cardId}/memberships`, { userId });
+
+            Log.external('planka', 'Member added to card', { cardId, userId });
+        } catch (error) {
+            Log.error({ service: 'planka' }, 'Failed to add card member', error);
+            throw new AppError(
+                ErrorCodes.PLANKA_ERROR,
+                'Failed to add member to card'
+            );
+        }
+    }
+
+    /**
+     * Добавление комментария к карточке
+     */
+    async addComment(cardId: string, text: string): Promise<PlankaComment> {
+        await this.ensureAuthenticated();
 
         try {
-            // Получаем все карточки доски
-            const response = await this.client.get(`/boards/${id}/cards`);
-            const cards: PlankaCard[] = response.data.items;
-
-            // Фильтруем по запросу
-            const lowerQuery = query.toLowerCase();
-            return cards.filter(card =>
-                card.name.toLowerCase().includes(lowerQuery) ||
-                card.description?.toLowerCase().includes(lowerQuery) ||
-                card.id === query
+            const response = await this.client.post(`/cards/${cardId}/comment-actions`, { text });
+
+            Log.external('planka', 'Comment added to card', { cardId });
+
+            return response.data.item;
+        } catch (error) {
+            Log.error({ service: 'planka' }, 'Failed to add comment', error);
+            throw new AppError(
+                ErrorCodes.PLANKA_ERROR,
+                'Failed to add comment to card'
             );
+        }
+    }
+
+    /**
+     * Комментарии карточки (новые первыми) и их авторы
+     */
+    async getComments(cardId: string): Promise<{
+        comments: PlankaComment[];
+        users: PlankaUser[];
+    }> {
+        await this.ensureAuthenticated();
+
+        try {
+            const response = await this.client.get(`/cards/${cardId}/actions`);
+            const items: PlankaComment[] = response.data.items || [];
+
+            return {
+                comments: items.filter(item => item.type === 'commentCard' && Boolean(item.data?.text)),
+                users: response.data.included?.users || [],
+            };
         } catch (error) {
-            Log.error({ service: 'planka' }, 'Failed to search cards', error);
+            Log.error({ service: 'planka' }, 'Failed to get card comments', error);
             throw new AppError(
                 ErrorCodes.PLANKA_ERROR,
-                'Failed to search cards'
+                'Failed to get card comments'
             );
         }
     }
 
     /**
-     * Добавление участника к карточке
+     * Удаление участника из карточки
      */
-    async addCardMember(cardId: string, userId: string): Promise<void> {
+    async removeCardMember(cardId: string, userId: string): Promise<void> {
         await this.ensureAuthenticated();
 
         try {
-            await this.client.post(`/cards/${cardId}/memberships`, { userId });
+            await this.client.delete(`/cards/${cardId}/memberships`, { data: { userId } });
 
-            Log.external('planka', 'Member added to card', { cardId, userId });
+            Log.external('planka', 'Member removed from card', { cardId, userId });
         } catch (error) {
-            Log.error({ service: 'planka' }, 'Failed to add card member', error);
+            Log.error({ service: 'planka' }, 'Failed to remove card member', error);
             throw new AppError(
                 ErrorCodes.PLANKA_ERROR,
-                'Failed to add member to card'
+                'Failed to remove member from card'
             );
         }
     }
@@ -297,6 +424,25 @@ class PlankaClient {
         }
     }
 
+    /**
+     * Удаление лейбла с карточки
+     */
+    async removeCardLabel(cardId: string, labelId: string): Promise<void> {
+        await this.ensureAuthenticated();
+
+        try {
+            await this.client.delete(`/cards/${cardId}/labels/${labelId}`);
+
+            Log.external('planka', 'Label removed from card', { cardId, labelId });
+        } catch (error) {
+            Log.error({ service: 'planka' }, 'Failed to remove card label', error);
+            throw new AppError(
+                ErrorCodes.PLANKA_ERROR,
+                'Failed to remove label from card'
+            );
+        }
+    }
+
     /**
      * Поиск пользователя по email
      */
@@ -321,6 +467,87 @@ class PlankaClient {
         }
     }
 
+    /**
+     * Создание пользователя Planka (нужен админский аккаунт бота)
+     */
+    async createUser(data: CreateUserInput): Promise<PlankaUser> {
+        await this.ensureAuthenticated();
+
+        try {
+            const response = await this.client.post('/users', data);
+
+            Log.external('planka', 'User created', {
+                userId: response.data.item.id,
+                email: data.email,
+            });
+
+            return response.data.item;
+        } catch (error: any) {
+            Log.error({ service: 'planka' }, 'Failed to create user', error);
+
+            if (error.response?.status === 409) {
+                throw new AppError(
+                    ErrorCodes.ALREADY_EXISTS,
+                    'Planka user with this email or username already exists'
+                );
+            }
+
+            throw new AppError(
+                ErrorCodes.PLANKA_ERROR,
+                'Failed to create user'
+            );
+        }
+    }
+
+    /**
+     * Установка нового пароля пользователю Planka (нужен админский аккаунт бота)
+     */
+    async updateUserPassword(userId: string, password: string): Promise<void> {
+        await this.ensureAuthenticated();
+
+        try {
+            await this.client.patch(`/users/${userId}/password`, { password });
+
+            Log.external('planka', 'User password reset', { userId });
+        } catch (error) {
+            Log.error({ service: 'planka' }, 'Failed to reset user password', error);
+            throw new AppError(
+                ErrorCodes.PLANKA_ERROR,
+                'Failed to reset user password'
+            );
+        }
+    }
+
+    /**
+     * Добавление пользователя в участники доски
+     * Повторное добавление (409) не считается ошибкой
+     */
+    async addBoardMember(
+        userId: string,
+        boardId?: string,
+        role: 'editor' | 'viewer' = 'editor'
+    ): Promise<void> {
+        await this.ensureAuthenticated();
+
+        const id = boardId || config.planka.boardId;
+
+        try {
+            await this.client.post(`/boards/${id}/memberships`, { userId, role });
+
+            Log.external('planka', 'Member added to board', { boardId: id, userId });
+        } catch (error: any) {
+            if (error.response?.status === 409) {
+                return;
+            }
+
+            Log.error({ service: 'planka' }, 'Failed to add board member', error);
+            throw new AppError(
+                ErrorCodes.PLANKA_ERROR,
+                'Failed to add member to board'
+            );
+        }
+    }
+
     /**
      * Загрузка файла к карточке
      */
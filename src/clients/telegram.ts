@@ -187,15 +187,15 @@ class TelegramClient {
         }
     ): Promise<any> {
         try {
+            // Buffer отправляется как загружаемый файл, строка — file_id или URL
             const result = await this.workBot.telegram.sendDocument(
                 chatId,
-                document,
+                typeof document === 'string'
+                    ? document
+                    : { source: document, filename: options?.filename ?? 'document' },
                 {
                     caption: options?.caption,
                     parse_mode: options?.parse_mode,
-                    ...(options?.filename && {
-                        filename: options.filename,
-                    }),
                 }
             );
 
@@ -277,6 +277,25 @@ class TelegramClient {
         }
     }
 
+    /**
+     * Ссылка на скачивание файла рабочего бота
+     * Ссылка содержит токен бота и живёт около часа — не сохраняем её
+     */
+    async getFileLink(fileId: string): Promise<string> {
+        try {
+            const url = await this.workBot.telegram.getFileLink(fileId);
+
+            return url.toString();
+        } catch (error) {
+            Log.error({}, 'Failed to get file link', error, { fileId });
+
+            throw new AppError(
+                ErrorCodes.TELEGRAM_ERROR,
+                'Failed to get file link'
+            );
+        }
+    }
+
     /**
      * Массовая рассылка сообщений
      */
@@ -3,12 +3,22 @@
  */
 
 /**
- * Временные окна для напоминаний (в часах)
+ * Готовые наборы напоминаний (минуты до дедлайна)
+ * Набор по умолчанию задаётся в config.reminders.defaultOffsets
  */
-export const REMINDER_WINDOWS = {
-    FIRST: 24,  // За 24 часа
-    SECOND: 6,  // За 6 часов
-    THIRD: 2,   // За 2 часа
+export const REMINDER_PRESETS = {
+    standard: [1440, 360, 120],
+    early: [2880, 1440, 240],
+    light: [60],
+    off: [],
+} as const;
+
+/**
+ * Варианты откладывания напоминания (кнопки под напоминанием)
+ */
+export const REMINDER_SNOOZE = {
+    SHORT_MINUTES: 60,      // "Через 1 час"
+    TOMORROW_HOUR: 9,       // "Завтра в 9:00"
 } as const;
 
 /**
@@ -22,13 +32,29 @@ export const LIMITS = {
     // Текст
     MAX_TASK_TITLE_LENGTH: 100,
     MAX_TASK_DESCRIPTION_LENGTH: 2000,
+    MAX_COMMENT_LENGTH: 1000,
+
+    // Голосовые сообщения
+    MAX_VOICE_DURATION_SEC: 120,
 
     // Поиск
     MAX_SEARCH_RESULTS: 20,
 
+    // Комментарии
+    COMMENTS_SHOWN: 5,
+
+    // Напоминания (минуты до дедлайна)
+    MIN_REMINDER_OFFSET: 5,
+    MAX_REMINDER_OFFSET: 7 * 24 * 60,
+    MAX_REMINDERS_PER_TASK: 5,
+
     // Пагинация
     TASKS_PER_PAGE: 10,
 
+    // Сохранённые виды списка задач
+    MAX_TASK_VIEWS: 6,
+    MAX_TASK_VIEW_NAME_LENGTH: 40,
+
     // Инвайты
     DEFAULT_INVITE_TTL_HOURS: 24,
     MAX_ACTIVE_INVITES_PER_USER: 5,
@@ -40,6 +66,37 @@ export const LIMITS = {
     SESSION_TTL_MINUTES: 60,
 } as const;
 
+/**
+ * Часы дайджестов по умолчанию (местное время пользователя)
+ * Пользователь меняет их в /settings
+ */
+export const DIGEST_HOURS = {
+    MORNING: 9,
+    EVENING: 18,
+} as const;
+
+/**
+ * Еженедельный отчёт по команде: понедельник (день недели dayjs), местное время владельца
+ */
+export const WEEKLY_REPORT = {
+    WEEKDAY: 1,
+    HOUR: 9,
+} as const;
+
+/**
+ * Часовые пояса для быстрого выбора; любой другой можно указать названием IANA
+ */
+export const TIMEZONE_CHOICES = [
+    'Asia/Tashkent',
+    'Asia/Almaty',
+    'Asia/Bishkek',
+    'Asia/Dushanbe',
+    'Europe/Moscow',
+    'Europe/Istanbul',
+    'Asia/Dubai',
+    'Europe/Berlin',
+] as const;
+
 /**
  * Интервалы для джобов (cron patterns)
  */
@@ -47,9 +104,11 @@ export const JOB_INTERVALS = {
     // Напоминания - каждые 5 минут
     REMINDERS: '*/5 * * * *',
 
-    // Дайджест - в 9:00 и 18:00
-    DIGEST_MORNING: '0 9 * * *',
-    DIGEST_EVENING: '0 18 * * *',
+    // Дайджест - каждый час, время отправки считается по часовому поясу пользователя
+    DIGEST: '0 * * * *',
+
+    // Еженедельный отчёт - каждый час, день и час отправки считаются по часовому поясу владельца
+    WEEKLY_REPORT: '0 * * * *',
 
     // Очистка мусора - каждый день в 3:00
     CLEANUP: '0 3 * * *',
@@ -85,22 +144,22 @@ export const TASK_STATUS_DISPLAY = {
 } as const;
 
 /**
- * Приоритеты задач для отображения
+ * Приоритеты задач для отображения (названия — в i18n)
  */
 export const TASK_PRIORITY_DISPLAY = {
-    низкий: {
+    low: {
         emoji: '🟢',
         color: '#00ff00',
     },
-    средний: {
+    medium: {
         emoji: '🟡',
         color: '#ffff00',
     },
-    высокий: {
+    high: {
         emoji: '🟠',
         color: '#ff9900',
     },
-    критический: {
+    critical: {
         emoji: '🔴',
         color: '#ff0000',
     },
@@ -152,6 +211,13 @@ export const VOICE_TASK_KEYWORDS = [
     'ёрдамчи', 'asistent', 'assistant'
 ] as const;
 
+/**
+ * Слова после упоминания бота в группе, превращающие сообщение в задачу
+ */
+export const GROUP_TASK_TRIGGERS = [
+    'task', 'задача', 'задачу', 'vazifa', 'вазифа'
+] as const;
+
 /**
  * Типы файлов
  */
@@ -175,6 +241,11 @@ export const ALLOWED_FILE_TYPES = {
         'application/x-rar-compressed',
         'application/x-7z-compressed',
     ],
+    VIDEOS: [
+        'video/mp4',
+        'video/quicktime',
+        'video/webm',
+    ],
 } as const;
 
 /**
@@ -189,6 +260,7 @@ export const BOT_COMMANDS = {
     OWNER: [
         { command: 'create_task', description: '📝 Создать задачу' },
         { command: 'stats', description: '📊 Статистика' },
+        { command: 'report', description: '📈 Отчёт по команде' },
         { command: 'deadlines', description: '📅 Дедлайны' },
         { command: 'search_tasks', description: '🔍 Поиск задач' },
     ],
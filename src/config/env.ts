@@ -22,6 +22,7 @@ export const config = {
         password: process.env.PLANKA_PASSWORD || '',
         projectId: process.env.PLANKA_PROJECT_ID || '',
         boardId: process.env.PLANKA_BOARD_ID || '',
+        webhookSecret: process.env.PLANKA_WEBHOOK_SECRET || '',
     },
 
     // Gemini AI
@@ -60,9 +61,17 @@ export const config = {
         inviteTTL: 24 * 60 * 60 * 1000, // 24 часа
     },
 
-    // Напоминания (окна в минутах)
+    // Часовой пояс пользователей, не выбравших свой (IANA)
+    timezone: {
+        default: process.env.DEFAULT_TIMEZONE || 'Asia/Tashkent',
+    },
+
+    // Напоминания по умолчанию (минуты до дедлайна), пользователь и задача могут переопределить
     reminders: {
-        windows: [1440, 360, 120], // 24ч, 6ч, 2ч до дедлайна
+        defaultOffsets: (process.env.REMINDER_OFFSETS || '1440,360,120') // 24ч, 6ч, 2ч
+            .split(',')
+            .map(value => parseInt(value.trim(), 10))
+            .filter(value => value > 0),
     },
 };
 
@@ -0,0 +1,25 @@
+import { Migration } from './helpers';
+
+/**
+ * История изменений задач
+ */
+export const taskEvents: Migration = {
+    version: 2,
+    name: 'task_events',
+
+    up(db) {
+        db.exec(`
+      CREATE TABLE IF NOT EXISTS task_events (
+        id INTEGER PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        type TEXT CHECK(type IN ('created', 'assigned', 'status', 'due_date', 'edited')) NOT NULL,
+        actor_id INTEGER,
+        data TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (actor_id) REFERENCES users(telegram_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_task_events_task_id ON task_events(task_id, created_at);
+    `);
+    },
+};
@@ -0,0 +1,21 @@
+import { Migration } from './helpers';
+
+/**
+ * Сообщения бота, относящиеся к задаче (ответ на них — комментарий в Planka)
+ */
+export const taskMessages: Migration = {
+    version: 3,
+    name: 'task_messages',
+
+    up(db) {
+        db.exec(`
+      CREATE TABLE IF NOT EXISTS task_messages (
+        chat_id INTEGER NOT NULL,
+        message_id INTEGER NOT NULL,
+        task_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chat_id, message_id)
+      );
+    `);
+    },
+};
@@ -0,0 +1,37 @@
+import { Migration, addColumnIfMissing } from './helpers';
+import { config } from '../../config/env';
+
+/**
+ * Рабочие пространства (чат Telegram <-> доска Planka) и доска у задачи
+ */
+export const workspaces: Migration = {
+    version: 4,
+    name: 'workspaces',
+
+    up(db) {
+        // Доска Planka, на которой лежит карточка задачи
+        addColumnIfMissing(db, 'tasks', 'board_id', 'TEXT');
+        db.exec('CREATE INDEX IF NOT EXISTS idx_tasks_board_id ON tasks(board_id)');
+
+        // Задачи, созданные до рабочих пространств, лежат на доске по умолчанию
+        if (config.planka.boardId) {
+            db.prepare('UPDATE tasks SET board_id = ? WHERE board_id IS NULL').run(config.planka.boardId);
+        }
+
+        db.exec(`
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id INTEGER PRIMARY KEY,
+        chat_id INTEGER UNIQUE NOT NULL,
+        title TEXT,
+        project_id TEXT NOT NULL,
+        board_id TEXT NOT NULL,
+        created_by INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (created_by) REFERENCES users(telegram_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_workspaces_board_id ON workspaces(board_id);
+    `);
+    },
+};
@@ -0,0 +1,58 @@
+import Database from 'better-sqlite3';
+import { migrations } from './index';
+import { reminderOffsets } from './005_reminder_offsets';
+
+let db: Database.Database;
+
+/**
+ * БД со схемой до миграции 5 и одним напоминанием старого формата
+ */
+beforeEach(() => {
+    db = new Database(':memory:');
+
+    for (const migration of migrations.filter(m => m.version < reminderOffsets.version)) {
+        migration.up(db);
+    }
+
+    db.exec(`
+      INSERT INTO users (telegram_id) VALUES (1);
+      INSERT INTO tasks (id, planka_card_id, title, created_by, chat_id) VALUES (10, 'card-1', 'Task', 1, 1);
+      INSERT INTO reminders (id, task_id, user_id, type, sent_at) VALUES (7, 10, 1, '24h', '2024-01-01 09:00:00');
+    `);
+});
+
+afterEach(() => {
+    db.close();
+});
+
+describe('migration 005 reminder_offsets', () => {
+    it('keeps existing reminders when the type check is dropped', () => {
+        reminderOffsets.up(db);
+
+        expect(db.prepare('SELECT id, task_id, user_id, type, sent_at FROM reminders').all()).toEqual([
+            { id: 7, task_id: 10, user_id: 1, type: '24h', sent_at: '2024-01-01 09:00:00' },
+        ]);
+    });
+
+    it('allows custom reminder types', () => {
+        expect(() => db.prepare("INSERT INTO reminders (task_id, user_id, type) VALUES (10, 1, '90m')").run())
+            .toThrow();
+
+        reminderOffsets.up(db);
+
+        db.prepare("INSERT INTO reminders (task_id, user_id, type) VALUES (10, 1, '90m')").run();
+
+        expect(db.prepare('SELECT COUNT(*) as count FROM reminders').get()).toEqual({ count: 2 });
+    });
+
+    it('adds the offsets columns and can be applied twice', () => {
+        reminderOffsets.up(db);
+        reminderOffsets.up(db);
+
+        const columns = (table: string) => (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+            .map(column => column.name);
+
+        expect(columns('tasks')).toContain('reminder_offsets');
+        expect(columns('settings')).toContain('reminder_offsets');
+    });
+});
@@ -0,0 +1,57 @@
+import Database from 'better-sqlite3';
+import { Migration, addColumnIfMissing } from './helpers';
+import Log from '../../utils/log';
+
+/**
+ * Настраиваемые напоминания: произвольный type у reminders и свои интервалы
+ * у задачи и пользователя (JSON-массив минут до дедлайна)
+ */
+export const reminderOffsets: Migration = {
+    version: 5,
+    name: 'reminder_offsets',
+
+    up(db) {
+        relaxRemindersType(db);
+
+        addColumnIfMissing(db, 'tasks', 'reminder_offsets', 'TEXT');
+        addColumnIfMissing(db, 'settings', 'reminder_offsets', 'TEXT');
+    },
+};
+
+/**
+ * Снятие CHECK с reminders.type: старая схема разрешала только '24h', '6h', '2h'
+ * SQLite не умеет менять ограничения, поэтому таблица пересоздаётся с переносом данных
+ */
+function relaxRemindersType(db: Database.Database): void {
+    const table = db.prepare(`
+      SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'reminders'
+    `).get() as { sql: string } | undefined;
+
+    if (!table || !/CHECK\s*\(\s*type\s+IN/i.test(table.sql)) {
+        return;
+    }
+
+    db.exec(`
+      CREATE TABLE reminders_new (
+        id INTEGER PRIMARY KEY,
+        task_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        sent_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (task_id) REFERENCES tasks(id),
+        FOREIGN KEY (user_id) REFERENCES users(telegram_id),
+        UNIQUE(task_id, user_id, type)
+      );
+
+      INSERT INTO reminders_new (id, task_id, user_id, type, sent_at, created_at)
+      SELECT id, task_id, user_id, type, sent_at, created_at FROM reminders;
+
+      DROP TABLE reminders;
+      ALTER TABLE reminders_new RENAME TO reminders;
+
+      CREATE INDEX IF NOT EXISTS idx_reminders_sent_at ON reminders(sent_at);
+    `);
+
+    Log.info({}, 'Reminders table migrated', { change: 'type CHECK removed' });
+}
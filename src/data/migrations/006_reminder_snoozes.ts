@@ -0,0 +1,24 @@
+import { Migration } from './helpers';
+
+/**
+ * Отложенные напоминания: до snoozed_until пользователю по задаче не напоминаем
+ */
+export const reminderSnoozes: Migration = {
+    version: 6,
+    name: 'reminder_snoozes',
+
+    up(db) {
+        db.exec(`
+      CREATE TABLE IF NOT EXISTS reminder_snoozes (
+        task_id TEXT NOT NULL,
+        user_id INTEGER NOT NULL,
+        snoozed_until DATETIME NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (task_id, user_id),
+        FOREIGN KEY (user_id) REFERENCES users(telegram_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_reminder_snoozes_until ON reminder_snoozes(snoozed_until);
+    `);
+    },
+};
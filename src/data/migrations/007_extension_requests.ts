@@ -0,0 +1,30 @@
+import { Migration } from './helpers';
+
+/**
+ * Запросы на продление срока задачи
+ */
+export const extensionRequests: Migration = {
+    version: 7,
+    name: 'extension_requests',
+
+    up(db) {
+        db.exec(`
+      CREATE TABLE IF NOT EXISTS extension_requests (
+        id INTEGER PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        requested_by INTEGER NOT NULL,
+        approver_id INTEGER NOT NULL,
+        proposed_due_date DATETIME NOT NULL,
+        counter_due_date DATETIME,
+        reason TEXT NOT NULL,
+        status TEXT CHECK(status IN ('pending', 'countered', 'approved', 'rejected')) DEFAULT 'pending',
+        decided_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (requested_by) REFERENCES users(telegram_id),
+        FOREIGN KEY (approver_id) REFERENCES users(telegram_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_extension_requests_task_id ON extension_requests(task_id, status);
+    `);
+    },
+};
@@ -0,0 +1,13 @@
+import { Migration, addColumnIfMissing } from './helpers';
+
+/**
+ * Часовой пояс пользователя (NULL — часовой пояс по умолчанию из конфига)
+ */
+export const userTimezone: Migration = {
+    version: 8,
+    name: 'user_timezone',
+
+    up(db) {
+        addColumnIfMissing(db, 'users', 'timezone', 'TEXT');
+    },
+};
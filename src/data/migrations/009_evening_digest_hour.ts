@@ -0,0 +1,13 @@
+import { Migration, addColumnIfMissing } from './helpers';
+
+/**
+ * Час вечернего дайджеста (утренний — digest_hour), по часовому поясу пользователя
+ */
+export const eveningDigestHour: Migration = {
+    version: 9,
+    name: 'evening_digest_hour',
+
+    up(db) {
+        addColumnIfMissing(db, 'settings', 'evening_digest_hour', 'INTEGER DEFAULT 18');
+    },
+};
@@ -0,0 +1,67 @@
+import Database from 'better-sqlite3';
+import { migrations } from './index';
+import { taskCodes } from './010_task_codes';
+
+let db: Database.Database;
+
+beforeEach(() => {
+    db = new Database(':memory:');
+
+    for (const migration of migrations.filter(m => m.version < taskCodes.version)) {
+        migration.up(db);
+    }
+
+    db.exec('INSERT INTO users (telegram_id) VALUES (1)');
+});
+
+afterEach(() => {
+    db.close();
+});
+
+/**
+ * Задача со старыми значениями приоритета и категории
+ */
+function insertTask(cardId: string, priority: string, category: string): void {
+    db.prepare(`
+      INSERT INTO tasks (planka_card_id, title, priority, category, created_by, chat_id)
+      VALUES (?, ?, ?, ?, 1, 1)
+    `).run(cardId, cardId, priority, category);
+}
+
+/**
+ * Приоритет и категория задачи после миграции
+ */
+function getCodes(cardId: string): { priority: string; category: string } {
+    return db.prepare('SELECT priority, category FROM tasks WHERE planka_card_id = ?').get(cardId) as {
+        priority: string;
+        category: string;
+    };
+}
+
+describe('migration 010 task_codes', () => {
+    it('maps Russian and Uzbek names to codes', () => {
+        insertTask('ru', 'критический', 'разработка');
+        insertTask('uz', 'past', 'hujjatlashtirish');
+        insertTask('ru-2', 'высокий', 'тестирование');
+        insertTask('uz-2', 'yuqori', 'dizayn');
+
+        taskCodes.up(db);
+
+        expect(getCodes('ru')).toEqual({ priority: 'critical', category: 'development' });
+        expect(getCodes('uz')).toEqual({ priority: 'low', category: 'documentation' });
+        expect(getCodes('ru-2')).toEqual({ priority: 'high', category: 'testing' });
+        expect(getCodes('uz-2')).toEqual({ priority: 'high', category: 'design' });
+    });
+
+    it('keeps codes and falls back to defaults for unknown values', () => {
+        insertTask('codes', 'low', 'design');
+        insertTask('unknown', 'срочно', 'маркетинг');
+        insertTask('medium', 'средний', 'другое');
+
+        taskCodes.up(db);
+
+        expect(getCodes('codes')).toEqual({ priority: 'low', category: 'design' });
+        expect(getCodes('unknown')).toEqual({ priority: 'medium', category: 'other' });
+        expect(getCodes('medium')).toEqual({ priority: 'medium', category: 'other' });
+    });
+});
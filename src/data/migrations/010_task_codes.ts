@@ -0,0 +1,31 @@
+import { Migration } from './helpers';
+
+/**
+ * Приоритет и категория задач — коды вместо русских названий
+ * Значения зафиксированы здесь, а не взяты из enum: миграция не должна меняться вместе с кодом
+ */
+export const taskCodes: Migration = {
+    version: 10,
+    name: 'task_codes',
+
+    up(db) {
+        db.exec(`
+      UPDATE tasks SET priority = CASE
+        WHEN priority IN ('low', 'medium', 'high', 'critical') THEN priority
+        WHEN priority IN ('низкий', 'past') THEN 'low'
+        WHEN priority IN ('высокий', 'yuqori') THEN 'high'
+        WHEN priority IN ('критический', 'kritik') THEN 'critical'
+        ELSE 'medium'
+      END;
+
+      UPDATE tasks SET category = CASE
+        WHEN category IN ('development', 'design', 'testing', 'documentation', 'other') THEN category
+        WHEN category IN ('разработка', 'dasturlash') THEN 'development'
+        WHEN category IN ('дизайн', 'dizayn') THEN 'design'
+        WHEN category IN ('тестирование', 'testlash') THEN 'testing'
+        WHEN category IN ('документация', 'hujjatlashtirish') THEN 'documentation'
+        ELSE 'other'
+      END;
+    `);
+    },
+};
@@ -0,0 +1,59 @@
+import { Migration, rebuildTaskSearchIndex } from './helpers';
+
+/**
+ * Кириллица -> латиница (русские и узбекские буквы) на момент миграции
+ */
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd',
+    'е': 'e', 'ё': 'yo', 'ж': 'zh', 'з': 'z', 'и': 'i',
+    'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n',
+    'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+    'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch',
+    'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '',
+    'э': 'e', 'ю': 'yu', 'я': 'ya',
+    'ў': 'oʻ', 'қ': 'q', 'ғ': 'gʻ', 'ҳ': 'h',
+};
+
+/**
+ * Ключ поиска по правилам версии 11
+ * Копия toSearchKey, зафиксированная здесь: миграция не должна меняться вместе с кодом
+ */
+function searchKeyV11(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[ʻʼ''ʻ]/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/ё/g, 'е')
+        .split('')
+        .map(char => CYRILLIC_TO_LATIN[char] ?? char)
+        .join('')
+        .toLowerCase()
+        .replace(/['`ʻʼ‘’]/g, '')
+        .replace(/kh|x/g, 'h')
+        .replace(/q/g, 'k')
+        .replace(/zh/g, 'j');
+}
+
+/**
+ * Полнотекстовый индекс задач (FTS5): название, описание, комментарии
+ * Хранит ключи поиска (как toSearchKey), а не исходный текст, — поиск не зависит от алфавита
+ * rowid индекса совпадает с tasks.id
+ */
+export const taskSearch: Migration = {
+    version: 11,
+    name: 'task_search',
+
+    up(db) {
+        db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+        title,
+        description,
+        comments,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+    `);
+
+        rebuildTaskSearchIndex(db, searchKeyV11);
+    },
+};
@@ -0,0 +1,23 @@
+import { Migration } from './helpers';
+
+/**
+ * Сохранённые виды списка задач (фильтры /my_tasks под именем)
+ */
+export const taskViews: Migration = {
+    version: 12,
+    name: 'task_views',
+
+    up(db) {
+        db.exec(`
+      CREATE TABLE IF NOT EXISTS task_views (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        filters TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(telegram_id),
+        UNIQUE(user_id, name)
+      );
+    `);
+    },
+};
@@ -0,0 +1,14 @@
+import { Migration, addColumnIfMissing } from './helpers';
+
+/**
+ * Пароль Planka, выданный ботом, но не доставленный пользователю
+ * Таким пользователям /planka_repair выдаёт новый пароль без явного сброса
+ */
+export const plankaCredentials: Migration = {
+    version: 13,
+    name: 'planka_credentials',
+
+    up(db) {
+        addColumnIfMissing(db, 'users', 'planka_credentials_pending', 'INTEGER DEFAULT 0');
+    },
+};
@@ -0,0 +1,60 @@
+import Database from 'better-sqlite3';
+import Log from '../../utils/log';
+
+/**
+ * Миграция схемы БД
+ * version — порядковый номер, up применяется один раз внутри транзакции
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up(db: Database.Database): void;
+}
+
+/**
+ * Добавление колонки в существующую таблицу
+ * Колонка могла появиться ещё до миграций, поэтому сначала проверяем
+ */
+export function addColumnIfMissing(
+    db: Database.Database,
+    table: string,
+    column: string,
+    definition: string
+): void {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+
+    if (!columns.some(c => c.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        Log.info({}, 'Database column added', { table, column });
+    }
+}
+
+/**
+ * Пересборка поискового индекса задач из таблицы tasks
+ * Нужна при создании индекса и при смене правил ключа; комментарии сохраняются как есть
+ * toKey — копия правил в самой миграции, а не toSearchKey из кода приложения
+ */
+export function rebuildTaskSearchIndex(db: Database.Database, toKey: (text: string) => string): void {
+    const tasks = db.prepare('SELECT id, title, description FROM tasks').all() as Array<{
+        id: number;
+        title: string;
+        description: string | null;
+    }>;
+    const comments = new Map(
+        (db.prepare('SELECT rowid as id, comments FROM tasks_fts').all() as Array<{ id: number; comments: string }>)
+            .map(row => [row.id, row.comments])
+    );
+
+    db.exec('DELETE FROM tasks_fts');
+
+    const insert = db.prepare(`
+      INSERT INTO tasks_fts (rowid, title, description, comments)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    for (const task of tasks) {
+        insert.run(task.id, toKey(task.title), toKey(task.description || ''), comments.get(task.id) || '');
+    }
+
+    Log.info({}, 'Task search index rebuilt', { tasks: tasks.length });
+}
@@ -0,0 +1,216 @@
+import Database from 'better-sqlite3';
+import { Migration } from './helpers';
+import { initialSchema } from './001_initial_schema';
+import { taskEvents } from './002_task_events';
+import { taskMessages } from './003_task_messages';
+import { workspaces } from './004_workspaces';
+import { reminderOffsets } from './005_reminder_offsets';
+import { reminderSnoozes } from './006_reminder_snoozes';
+import { extensionRequests } from './007_extension_requests';
+import { userTimezone } from './008_user_timezone';
+import { eveningDigestHour } from './009_evening_digest_hour';
+import { taskCodes } from './010_task_codes';
+import { taskSearch } from './011_task_search';
+import { taskViews } from './012_task_views';
+import { plankaCredentials } from './013_planka_credentials';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import Log from '../../utils/log';
+
+export type { Migration } from './helpers';
+
+/**
+ * Все миграции по порядку; новая миграция — следующий номер в конце списка
+ */
+export const migrations: Migration[] = [
+    initialSchema,
+    taskEvents,
+    taskMessages,
+    workspaces,
+    reminderOffsets,
+    reminderSnoozes,
+    extensionRequests,
+    userTimezone,
+    eveningDigestHour,
+    taskCodes,
+    taskSearch,
+    taskViews,
+    plankaCredentials,
+];
+
+/**
+ * Состояние миграции в БД (appliedAt = null — ещё не применена)
+ */
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    appliedAt: Date | null;
+}
+
+/**
+ * Версия схемы, которую знает код
+ */
+export function getLatestVersion(): number {
+    return migrations.reduce((max, migration) => Math.max(max, migration.version), 0);
+}
+
+/**
+ * Текущая версия схемы БД (0 — миграции не применялись)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+    if (!hasMigrationsTable(db)) {
+        return 0;
+    }
+
+    const row = db.prepare('SELECT MAX(version) as version FROM schema_migrations').get() as { version: number | null };
+
+    return row.version ?? 0;
+}
+
+/**
+ * Применённые и ожидающие миграции
+ */
+export function getMigrationStatus(db: Database.Database): {
+    current: number;
+    latest: number;
+    migrations: MigrationStatus[];
+} {
+    const applied = new Map<number, string>();
+
+    if (hasMigrationsTable(db)) {
+        const rows = db.prepare('SELECT version, applied_at FROM schema_migrations').all() as Array<{
+            version: number;
+            applied_at: string;
+        }>;
+
+        for (const row of rows) {
+            applied.set(row.version, row.applied_at);
+        }
+    }
+
+    return {
+        current: getSchemaVersion(db),
+        latest: getLatestVersion(),
+        migrations: migrations.map(migration => {
+            const appliedAt = applied.get(migration.version);
+
+            return {
+                version: migration.version,
+                name: migration.name,
+                appliedAt: appliedAt ? new Date(appliedAt) : null,
+            };
+        }),
+    };
+}
+
+/**
+ * Применение ожидающих миграций, каждая — в своей транзакции
+ * dryRun — прогнать все ожидающие в одной транзакции и откатить (проверка без изменений)
+ * Если БД новее кода, ничего не трогаем и падаем: старый код может испортить данные
+ */
+export function runMigrations(db: Database.Database, dryRun: boolean = false): Migration[] {
+    assertSchemaSupported(db);
+
+    const pending = getPendingMigrations(db);
+
+    if (pending.length === 0) {
+        return [];
+    }
+
+    if (dryRun) {
+        db.exec('BEGIN');
+
+        try {
+            ensureMigrationsTable(db);
+
+            for (const migration of pending) {
+                applyMigration(db, migration);
+            }
+        } finally {
+            db.exec('ROLLBACK');
+        }
+
+        Log.info({}, 'Database migrations dry run passed', {
+            versions: pending.map(migration => migration.version),
+        });
+
+        return pending;
+    }
+
+    ensureMigrationsTable(db);
+
+    for (const migration of pending) {
+        db.transaction(() => applyMigration(db, migration))();
+
+        Log.info({}, 'Database migration applied', {
+            version: migration.version,
+            name: migration.name,
+        });
+    }
+
+    return pending;
+}
+
+/**
+ * Отказ работать со схемой, которая новее кода
+ */
+export function assertSchemaSupported(db: Database.Database): void {
+    const current = getSchemaVersion(db);
+    const latest = getLatestVersion();
+
+    if (current > latest) {
+        throw new AppError(
+            ErrorCodes.DB_ERROR,
+            'Database schema is newer than the code',
+            { current, latest }
+        );
+    }
+}
+
+/**
+ * Миграции, которых ещё нет в schema_migrations
+ */
+function getPendingMigrations(db: Database.Database): Migration[] {
+    const applied = new Set(
+        getMigrationStatus(db).migrations
+            .filter(migration => migration.appliedAt)
+            .map(migration => migration.version)
+    );
+
+    return migrations
+        .filter(migration => !applied.has(migration.version))
+        .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Применение миграции с отметкой в schema_migrations
+ */
+function applyMigration(db: Database.Database, migration: Migration): void {
+    migration.up(db);
+
+    db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(
+        migration.version,
+        migration.name
+    );
+}
+
+/**
+ * Есть ли в БД таблица применённых миграций
+ */
+function hasMigrationsTable(db: Database.Database): boolean {
+    return !!db.prepare(`
+      SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'
+    `).get();
+}
+
+/**
+ * Таблица применённых миграций
+ */
+function ensureMigrationsTable(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+}
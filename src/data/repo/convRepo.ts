@@ -173,6 +173,23 @@ export const convRepo = {
         return rows.map(row => this.mapRowToConversation(row));
     },
 
+    /**
+     * Диалоги, обновлённые после указанного момента
+     */
+    getUpdatedSince(since: Date): Conversation[] {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT * FROM conversations 
+      WHERE updated_at > datetime(?)
+      ORDER BY updated_at ASC
+    `);
+
+        const rows = stmt.all(since.toISOString());
+
+        return rows.map(row => this.mapRowToConversation(row));
+    },
+
     /**
      * Очистка старых диалогов
      */
@@ -0,0 +1,133 @@
+import { getDb } from '../db';
+import { ExtensionRequest, ExtensionStatus } from '../../interfaces/task';
+import Log from '../../utils/log';
+
+/**
+ * Репозиторий запросов на продление срока
+ */
+export const extensionRequestsRepo = {
+    /**
+     * Создание запроса
+     */
+    create(data: {
+        taskId: string;
+        requestedBy: number;
+        approverId: number;
+        proposedDueDate: Date;
+        reason: string;
+    }): ExtensionRequest {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      INSERT INTO extension_requests (task_id, requested_by, approver_id, proposed_due_date, reason)
+      VALUES (@taskId, @requestedBy, @approverId, @proposedDueDate, @reason)
+    `);
+
+        const info = stmt.run({
+            taskId: data.taskId,
+            requestedBy: data.requestedBy,
+            approverId: data.approverId,
+            proposedDueDate: data.proposedDueDate.toISOString(),
+            reason: data.reason,
+        });
+
+        Log.info({ userId: data.requestedBy }, 'Extension request created', { taskId: data.taskId });
+
+        return this.getById(Number(info.lastInsertRowid))!;
+    },
+
+    /**
+     * Получение запроса по ID
+     */
+    getById(id: number): ExtensionRequest | null {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT * FROM extension_requests WHERE id = ?
+    `);
+
+        const row = stmt.get(id);
+
+        if (!row) {
+            return null;
+        }
+
+        return this.mapRowToRequest(row);
+    },
+
+    /**
+     * Открытый (ещё не решённый) запрос по задаче
+     */
+    getOpenByTask(taskId: string): ExtensionRequest | null {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT * FROM extension_requests
+      WHERE task_id = ? AND status IN (?, ?)
+      ORDER BY created_at DESC
+      LIMIT 1
+    `);
+
+        const row = stmt.get(taskId, ExtensionStatus.PENDING, ExtensionStatus.COUNTERED);
+
+        if (!row) {
+            return null;
+        }
+
+        return this.mapRowToRequest(row);
+    },
+
+    /**
+     * Встречное предложение автора задачи
+     */
+    setCounter(id: number, counterDueDate: Date): ExtensionRequest | null {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      UPDATE extension_requests
+      SET status = ?, counter_due_date = ?
+      WHERE id = ?
+    `);
+
+        stmt.run(ExtensionStatus.COUNTERED, counterDueDate.toISOString(), id);
+
+        return this.getById(id);
+    },
+
+    /**
+     * Итоговое решение по запросу
+     */
+    decide(id: number, status: ExtensionStatus.APPROVED | ExtensionStatus.REJECTED): ExtensionRequest | null {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      UPDATE extension_requests
+      SET status = ?, decided_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+        stmt.run(status, id);
+
+        Log.info({}, 'Extension request decided', { requestId: id, status });
+
+        return this.getById(id);
+    },
+
+    /**
+     * Маппинг строки БД в объект ExtensionRequest
+     */
+    mapRowToRequest(row: any): ExtensionRequest {
+        return {
+            id: row.id,
+            taskId: row.task_id,
+            requestedBy: row.requested_by,
+            approverId: row.approver_id,
+            proposedDueDate: new Date(row.proposed_due_date),
+            counterDueDate: row.counter_due_date ? new Date(row.counter_due_date) : undefined,
+            reason: row.reason,
+            status: row.status as ExtensionStatus,
+            decidedAt: row.decided_at ? new Date(row.decided_at) : undefined,
+            createdAt: new Date(row.created_at),
+        };
+    },
+};
@@ -0,0 +1,133 @@
+import { getDb } from '../db';
+
+/**
+ * Репозиторий отправленных напоминаний
+ * type — смещение до дедлайна ('24h', '90m') или 'overdue'
+ */
+export const remindersRepo = {
+    /**
+     * Отправлялось ли пользователю напоминание этого типа
+     */
+    wasSent(taskId: string, userId: number, type: string): boolean {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT 1 FROM reminders
+      WHERE task_id = (SELECT id FROM tasks WHERE planka_card_id = ?)
+        AND user_id = ?
+        AND type = ?
+        AND sent_at IS NOT NULL
+    `);
+
+        return !!stmt.get(taskId, userId, type);
+    },
+
+    /**
+     * Пометить напоминание как отправленное
+     */
+    markSent(taskId: string, userId: number, type: string): void {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      INSERT INTO reminders (task_id, user_id, type, sent_at)
+      SELECT t.id, ?, ?, CURRENT_TIMESTAMP
+      FROM tasks t
+      WHERE t.planka_card_id = ?
+      ON CONFLICT(task_id, user_id, type)
+      DO UPDATE SET sent_at = CURRENT_TIMESTAMP
+    `);
+
+        stmt.run(userId, type, taskId);
+    },
+
+    /**
+     * Время последнего напоминания пользователю (null — не отправлялось)
+     */
+    getLastSent(taskId: string, userId: number, type: string): Date | null {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT MAX(sent_at) as last_sent
+      FROM reminders
+      WHERE task_id = (SELECT id FROM tasks WHERE planka_card_id = ?)
+        AND user_id = ?
+        AND type = ?
+    `);
+
+        const row = stmt.get(taskId, userId, type) as { last_sent: string | null } | undefined;
+
+        return row?.last_sent ? new Date(row.last_sent) : null;
+    },
+
+    /**
+     * Сброс отправленных и отложенных напоминаний задачи (например, после смены срока)
+     */
+    clearForTask(taskId: string): number {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      DELETE FROM reminders
+      WHERE task_id = (SELECT id FROM tasks WHERE planka_card_id = ?)
+    `);
+
+        db.prepare('DELETE FROM reminder_snoozes WHERE task_id = ?').run(taskId);
+
+        return stmt.run(taskId).changes;
+    },
+
+    /**
+     * Отложить напоминания пользователя по задаче
+     */
+    snooze(taskId: string, userId: number, until: Date): void {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      INSERT INTO reminder_snoozes (task_id, user_id, snoozed_until)
+      VALUES (?, ?, ?)
+      ON CONFLICT(task_id, user_id)
+      DO UPDATE SET snoozed_until = excluded.snoozed_until, created_at = CURRENT_TIMESTAMP
+    `);
+
+        stmt.run(taskId, userId, until.toISOString());
+    },
+
+    /**
+     * Отложены ли напоминания пользователя по задаче на момент now
+     */
+    isSnoozed(taskId: string, userId: number, now: Date = new Date()): boolean {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT 1 FROM reminder_snoozes
+      WHERE task_id = ? AND user_id = ? AND snoozed_until > ?
+    `);
+
+        return !!stmt.get(taskId, userId, now.toISOString());
+    },
+
+    /**
+     * Истёкшие откладывания — по ним пора напомнить снова
+     */
+    getExpiredSnoozes(now: Date = new Date()): Array<{ taskId: string; userId: number }> {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT task_id, user_id FROM reminder_snoozes
+      WHERE snoozed_until <= ?
+      ORDER BY snoozed_until ASC
+    `);
+
+        const rows = stmt.all(now.toISOString()) as Array<{ task_id: string; user_id: number }>;
+
+        return rows.map(row => ({ taskId: row.task_id, userId: row.user_id }));
+    },
+
+    /**
+     * Снять откладывание
+     */
+    clearSnooze(taskId: string, userId: number): void {
+        const db = getDb();
+
+        db.prepare('DELETE FROM reminder_snoozes WHERE task_id = ? AND user_id = ?').run(taskId, userId);
+    },
+};
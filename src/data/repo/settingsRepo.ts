@@ -1,5 +1,6 @@
 import { getDb } from '../db';
 import { UserSettings, UpdateSettingsInput } from '../../interfaces/user';
+import { DIGEST_HOURS } from '../../config/constants';
 import Log from '../../utils/log';
 
 /**
@@ -38,7 +39,8 @@ export const settingsRepo = {
         // Возвращаем дефолтные настройки
         return {
             userId,
-            digestHour: 9,
+            digestHour: DIGEST_HOURS.MORNING,
+            eveningDigestHour: DIGEST_HOURS.EVENING,
             digestEnabled: true,
             notificationsEnabled: true,
             createdAt: new Date(),
@@ -99,6 +101,11 @@ export const settingsRepo = {
             params.digestHour = input.digestHour;
         }
 
+        if (input.eveningDigestHour !== undefined) {
+            updates.push('evening_digest_hour = @eveningDigestHour');
+            params.eveningDigestHour = input.eveningDigestHour;
+        }
+
         if (input.digestEnabled !== undefined) {
             updates.push('digest_enabled = @digestEnabled');
             params.digestEnabled = input.digestEnabled ? 1 : 0;
@@ -109,6 +116,11 @@ export const settingsRepo = {
             params.notificationsEnabled = input.notificationsEnabled ? 1 : 0;
         }
 
+        if (input.reminderOffsets !== undefined) {
+            updates.push('reminder_offsets = @reminderOffsets');
+            params.reminderOffsets = input.reminderOffsets ? JSON.stringify(input.reminderOffsets) : null;
+        }
+
         if (updates.length === 0) {
             return settings;
         }
@@ -156,6 +168,22 @@ export const settingsRepo = {
         return result !== null;
     },
 
+    /**
+     * Установка времени вечернего дайджеста
+     */
+    setEveningDigestHour(userId: number, hour: number): boolean {
+        if (hour < 0 || hour > 23) {
+            throw new Error('Hour must be between 0 and 23');
+        }
+
+        const result = this.update({
+            userId,
+            eveningDigestHour: hour,
+        });
+
+        return result !== null;
+    },
+
     /**
      * Включение/отключение уведомлений
      */
@@ -302,8 +330,10 @@ export const settingsRepo = {
         return {
             userId: row.user_id,
             digestHour: row.digest_hour,
+            eveningDigestHour: row.evening_digest_hour ?? DIGEST_HOURS.EVENING,
             digestEnabled: Boolean(row.digest_enabled),
             notificationsEnabled: Boolean(row.notifications_enabled),
+            reminderOffsets: row.reminder_offsets ? JSON.parse(row.reminder_offsets) : undefined,
             createdAt: new Date(row.created_at),
             updatedAt: new Date(row.updated_at),
         };
@@ -349,7 +379,7 @@ export const settingsHelpers = {
             lines.push(`📊 Kunlik dayjest: ${settings.digestEnabled ? '✅ Yoqilgan' : '❌ Oʻchirilgan'}`);
 
             if (settings.digestEnabled) {
-                lines.push(`⏰ Dayjest vaqti: ${settings.digestHour}:00`);
+                lines.push(`⏰ Dayjest vaqti: ${settings.digestHour}:00, ${settings.eveningDigestHour}:00`);
             }
 
             lines.push(`🔔 Bildirishnomalar: ${settings.notificationsEnabled ? '✅ Yoqilgan' : '❌ Oʻchirilgan'}`);
@@ -359,7 +389,7 @@ export const settingsHelpers = {
             lines.push(`📊 Ежедневный дайджест: ${settings.digestEnabled ? '✅ Включен' : '❌ Отключен'}`);
 
             if (settings.digestEnabled) {
-                lines.push(`⏰ Время дайджеста: ${settings.digestHour}:00`);
+                lines.push(`⏰ Время дайджеста: ${settings.digestHour}:00, ${settings.eveningDigestHour}:00`);
             }
 
             lines.push(`🔔 Уведомления: ${settings.notificationsEnabled ? '✅ Включены' : '❌ Отключены'}`);
@@ -0,0 +1,104 @@
+import { getDb } from '../db';
+import { TaskEvent, TaskEventType } from '../../interfaces/task';
+import Log from '../../utils/log';
+
+/**
+ * Репозиторий для истории событий задач
+ */
+export const taskEventsRepo = {
+    /**
+     * Запись события
+     */
+    create(data: {
+        taskId: string;
+        type: TaskEventType;
+        actorId?: number;
+        data?: Record<string, any>;
+    }): TaskEvent {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      INSERT INTO task_events (task_id, type, actor_id, data)
+      VALUES (@taskId, @type, @actorId, @data)
+    `);
+
+        const info = stmt.run({
+            taskId: data.taskId,
+            type: data.type,
+            actorId: data.actorId || null,
+            data: JSON.stringify(data.data || {}),
+        });
+
+        Log.info({ userId: data.actorId }, 'Task event recorded', {
+            taskId: data.taskId,
+            type: data.type,
+        });
+
+        return this.getById(Number(info.lastInsertRowid))!;
+    },
+
+    /**
+     * Получение события по ID
+     */
+    getById(id: number): TaskEvent | null {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT e.*, u.full_name as actor_name, u.username as actor_username
+      FROM task_events e
+      LEFT JOIN users u ON e.actor_id = u.telegram_id
+      WHERE e.id = ?
+    `);
+
+        const row = stmt.get(id);
+
+        if (!row) {
+            return null;
+        }
+
+        return this.mapRowToEvent(row);
+    },
+
+    /**
+     * История задачи в хронологическом порядке
+     */
+    getByTask(taskId: string, type?: TaskEventType): TaskEvent[] {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT e.*, u.full_name as actor_name, u.username as actor_username
+      FROM task_events e
+      LEFT JOIN users u ON e.actor_id = u.telegram_id
+      WHERE e.task_id = ?
+        ${type ? 'AND e.type = ?' : ''}
+      ORDER BY e.created_at ASC, e.id ASC
+    `);
+
+        const rows = type ? stmt.all(taskId, type) : stmt.all(taskId);
+
+        return rows.map(row => this.mapRowToEvent(row));
+    },
+
+    /**
+     * Маппинг строки БД в объект TaskEvent
+     */
+    mapRowToEvent(row: any): TaskEvent {
+        let data: Record<string, any> = {};
+
+        try {
+            data = row.data ? JSON.parse(row.data) : {};
+        } catch {
+            data = {};
+        }
+
+        return {
+            id: row.id,
+            taskId: row.task_id,
+            type: row.type as TaskEventType,
+            actorId: row.actor_id || undefined,
+            actorName: row.actor_name || row.actor_username || undefined,
+            data,
+            createdAt: new Date(row.created_at),
+        };
+    },
+};
@@ -0,0 +1,37 @@
+import { getDb } from '../db';
+
+/**
+ * Репозиторий связей "сообщение бота -> задача"
+ * Нужен, чтобы ответ на уведомление превращался в комментарий к карточке
+ */
+export const taskMessagesRepo = {
+    /**
+     * Запоминание сообщения, отправленного по задаче
+     */
+    save(chatId: number, messageId: number, taskId: string): void {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      INSERT OR REPLACE INTO task_messages (chat_id, message_id, task_id)
+      VALUES (?, ?, ?)
+    `);
+
+        stmt.run(chatId, messageId, taskId);
+    },
+
+    /**
+     * ID задачи, к которой относится сообщение
+     */
+    getTaskId(chatId: number, messageId: number): string | null {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT task_id FROM task_messages
+      WHERE chat_id = ? AND message_id = ?
+    `);
+
+        const row = stmt.get(chatId, messageId) as { task_id: string } | undefined;
+
+        return row ? row.task_id : null;
+    },
+};
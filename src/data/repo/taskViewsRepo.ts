@@ -0,0 +1,89 @@
+import { getDb } from '../db';
+import { TaskView, TaskListFilters } from '../../interfaces/task';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import Log from '../../utils/log';
+
+/**
+ * Репозиторий сохранённых видов списка задач
+ */
+export const taskViewsRepo = {
+    /**
+     * Сохранение вида
+     */
+    create(userId: number, name: string, filters: TaskListFilters): TaskView {
+        const db = getDb();
+
+        try {
+            const info = db.prepare(`
+        INSERT INTO task_views (user_id, name, filters)
+        VALUES (?, ?, ?)
+      `).run(userId, name, JSON.stringify(filters));
+
+            Log.info({ userId }, 'Task view saved', { id: info.lastInsertRowid, name });
+
+            return this.getById(Number(info.lastInsertRowid))!;
+        } catch (error: any) {
+            if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+                throw new AppError(
+                    ErrorCodes.ALREADY_EXISTS,
+                    'Task view already exists',
+                    { userId, name }
+                );
+            }
+            throw error;
+        }
+    },
+
+    /**
+     * Вид по ID
+     */
+    getById(id: number): TaskView | null {
+        const db = getDb();
+
+        const row = db.prepare('SELECT * FROM task_views WHERE id = ?').get(id);
+
+        return row ? this.mapRowToView(row) : null;
+    },
+
+    /**
+     * Виды пользователя в порядке создания
+     */
+    getByUser(userId: number): TaskView[] {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT * FROM task_views WHERE user_id = ? ORDER BY created_at ASC, id ASC
+    `);
+
+        return stmt.all(userId).map(row => this.mapRowToView(row));
+    },
+
+    /**
+     * Удаление вида (только своего)
+     */
+    delete(id: number, userId: number): boolean {
+        const db = getDb();
+
+        const info = db.prepare('DELETE FROM task_views WHERE id = ? AND user_id = ?').run(id, userId);
+
+        if (info.changes > 0) {
+            Log.info({ userId }, 'Task view deleted', { id });
+            return true;
+        }
+
+        return false;
+    },
+
+    /**
+     * Маппинг строки БД в объект TaskView
+     */
+    mapRowToView(row: any): TaskView {
+        return {
+            id: row.id,
+            userId: row.user_id,
+            name: row.name,
+            filters: JSON.parse(row.filters),
+            createdAt: new Date(row.created_at),
+        };
+    },
+};
@@ -0,0 +1,111 @@
+import { config } from '../../config/env';
+import { initDatabase, closeDatabase } from '../db';
+import { tasksRepo } from './tasksRepo';
+import { usersRepo } from './usersRepo';
+import { remindersRepo } from './remindersRepo';
+import { TaskStatus, TaskPriority, TaskCategory } from '../../interfaces/task';
+import { UserRole } from '../../interfaces/user';
+
+const HOUR = 60 * 60 * 1000;
+
+beforeEach(() => {
+    config.database.path = ':memory:';
+    initDatabase();
+    usersRepo.create({ telegramId: 1, role: UserRole.EMPLOYEE });
+});
+
+afterEach(() => {
+    closeDatabase();
+});
+
+/**
+ * Задача пользователя 1 с нужным статусом и дедлайном
+ */
+function createTask(plankaCardId: string, status: TaskStatus, dueDate?: Date) {
+    return tasksRepo.create({
+        plankaCardId,
+        title: plankaCardId,
+        priority: TaskPriority.MEDIUM,
+        category: TaskCategory.OTHER,
+        status,
+        createdBy: 1,
+        assignedTo: 1,
+        chatId: 1,
+        dueDate,
+    });
+}
+
+describe('tasksRepo.getUserSummary', () => {
+    it('counts tasks completed within the interval', () => {
+        const now = Date.now();
+
+        createTask('done-now', TaskStatus.DONE);
+        createTask('in-progress', TaskStatus.IN_PROGRESS);
+
+        const summary = tasksRepo.getUserSummary(1, new Date(now - HOUR), new Date(now + HOUR));
+
+        expect(summary).toEqual({ completed: 1, inProgress: 1, overdue: 0 });
+    });
+
+    it('does not count tasks completed outside the interval', () => {
+        const now = Date.now();
+
+        createTask('done-now', TaskStatus.DONE);
+
+        const summary = tasksRepo.getUserSummary(1, new Date(now + HOUR), new Date(now + 2 * HOUR));
+
+        expect(summary.completed).toBe(0);
+    });
+
+    it('counts open tasks past their deadline as overdue', () => {
+        const now = Date.now();
+
+        createTask('late', TaskStatus.TODO, new Date(now - HOUR));
+        createTask('late-but-done', TaskStatus.DONE, new Date(now - HOUR));
+        createTask('upcoming', TaskStatus.TODO, new Date(now + HOUR));
+
+        const summary = tasksRepo.getUserSummary(1, new Date(now - HOUR), new Date(now + HOUR));
+
+        expect(summary.overdue).toBe(1);
+    });
+});
+
+describe('tasksRepo.upsert', () => {
+    it('overwrites a task imported from Planka with the bot data', () => {
+        createTask('card-1', TaskStatus.TODO);
+
+        const task = tasksRepo.upsert({
+            plankaCardId: 'card-1',
+            title: 'From bot',
+            priority: TaskPriority.HIGH,
+            category: TaskCategory.OTHER,
+            status: TaskStatus.TODO,
+            createdBy: 1,
+            chatId: -100,
+        });
+
+        expect(task).toMatchObject({ title: 'From bot', priority: TaskPriority.HIGH, chatId: -100 });
+        expect(tasksRepo.getAll()).toHaveLength(1);
+    });
+});
+
+describe('tasksRepo.delete', () => {
+    it('deletes a task with sent and snoozed reminders', () => {
+        createTask('card-1', TaskStatus.TODO, new Date(Date.now() + HOUR));
+        remindersRepo.markSent('card-1', 1, '24h');
+        remindersRepo.snooze('card-1', 1, new Date(Date.now() + HOUR));
+
+        expect(tasksRepo.delete('card-1')).toBe(true);
+
+        expect(tasksRepo.getByPlankaId('card-1')).toBeNull();
+        expect(remindersRepo.wasSent('card-1', 1, '24h')).toBe(false);
+        expect(remindersRepo.isSnoozed('card-1', 1)).toBe(false);
+    });
+
+    it('keeps the task searchable when it is not deleted', () => {
+        createTask('card-1', TaskStatus.TODO);
+
+        expect(tasksRepo.delete('missing')).toBe(false);
+        expect(tasksRepo.search({ terms: ['card'] }, 10).map(task => task.plankaCardId)).toEqual(['card-1']);
+    });
+});
@@ -1,8 +1,46 @@
-import { getDb } from '../db';
-import { Task, TaskStatus, TaskPriority, TaskCategory } from '../../interfaces/task';
+import { getDb, transaction } from '../db';
+import { remindersRepo } from './remindersRepo';
+import { Task, TaskStatus, TaskPriority, TaskCategory, TaskSearchQuery } from '../../interfaces/task';
 import { AppError, ErrorCodes } from '../../utils/errors';
+import { toSearchKey } from '../../utils/lang';
 import Log from '../../utils/log';
 
+/**
+ * Поля новой записи о задаче
+ */
+interface TaskRecordInput {
+    plankaCardId: string;
+    title: string;
+    description?: string;
+    priority: TaskPriority;
+    category: TaskCategory;
+    status: TaskStatus;
+    createdBy: number;
+    assignedTo?: number;
+    chatId: number;
+    boardId?: string;
+    dueDate?: Date;
+}
+
+/**
+ * Параметры INSERT для записи о задаче
+ */
+function toRecordParams(data: TaskRecordInput): Record<string, unknown> {
+    return {
+        plankaCardId: data.plankaCardId,
+        title: data.title,
+        description: data.description || null,
+        priority: data.priority,
+        category: data.category,
+        status: data.status,
+        createdBy: data.createdBy,
+        assignedTo: data.assignedTo || null,
+        chatId: data.chatId,
+        boardId: data.boardId || null,
+        dueDate: data.dueDate ? data.dueDate.toISOString() : null,
+    };
+}
+
 /**
  * Репозиторий для работы с задачами
  * Только SQL-запросы для связки с Planka
@@ -11,49 +49,29 @@ export const tasksRepo = {
     /**
      * Создание записи о задаче
      */
-    create(data: {
-        plankaCardId: string;
-        title: string;
-        description?: string;
-        priority: TaskPriority;
-        category: TaskCategory;
-        status: TaskStatus;
-        createdBy: number;
-        assignedTo?: number;
-        chatId: number;
-        dueDate?: Date;
-    }): Task {
+    create(data: TaskRecordInput): Task {
         const db = getDb();
 
         try {
             const stmt = db.prepare(`
         INSERT INTO tasks (
           planka_card_id, title, description, priority, category,
-          status, created_by, assigned_to, chat_id, due_date
+          status, created_by, assigned_to, chat_id, board_id, due_date
         ) VALUES (
           @plankaCardId, @title, @description, @priority, @category,
-          @status, @createdBy, @assignedTo, @chatId, @dueDate
+          @status, @createdBy, @assignedTo, @chatId, @boardId, @dueDate
         )
       `);
 
-            const info = stmt.run({
-                plankaCardId: data.plankaCardId,
-                title: data.title,
-                description: data.description || null,
-                priority: data.priority,
-                category: data.category,
-                status: data.status,
-                createdBy: data.createdBy,
-                assignedTo: data.assignedTo || null,
-                chatId: data.chatId,
-                dueDate: data.dueDate ? data.dueDate.toISOString() : null,
-            });
+            const info = stmt.run(toRecordParams(data));
 
             Log.info({ chatId: data.chatId }, 'Task created', {
                 id: info.lastInsertRowid,
                 plankaCardId: data.plankaCardId,
             });
 
+            this.indexSearchText(data.plankaCardId, data.title, data.description);
+
             return this.getByPlankaId(data.plankaCardId)!;
         } catch (error: any) {
             if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
@@ -67,6 +85,42 @@ export const tasksRepo = {
         }
     },
 
+    /**
+     * Создание или перезапись задачи по Planka Card ID
+     * Карточку могли уже импортировать webhook или сверка — данные бота важнее
+     */
+    upsert(data: TaskRecordInput): Task {
+        const db = getDb();
+
+        db.prepare(`
+      INSERT INTO tasks (
+        planka_card_id, title, description, priority, category,
+        status, created_by, assigned_to, chat_id, board_id, due_date
+      ) VALUES (
+        @plankaCardId, @title, @description, @priority, @category,
+        @status, @createdBy, @assignedTo, @chatId, @boardId, @dueDate
+      )
+      ON CONFLICT(planka_card_id) DO UPDATE SET
+        title = excluded.title,
+        description = excluded.description,
+        priority = excluded.priority,
+        category = excluded.category,
+        status = excluded.status,
+        created_by = excluded.created_by,
+        assigned_to = excluded.assigned_to,
+        chat_id = excluded.chat_id,
+        board_id = excluded.board_id,
+        due_date = excluded.due_date,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(toRecordParams(data));
+
+        Log.info({ chatId: data.chatId }, 'Task saved', { plankaCardId: data.plankaCardId });
+
+        this.indexSearchText(data.plankaCardId, data.title, data.description);
+
+        return this.getByPlankaId(data.plankaCardId)!;
+    },
+
     /**
      * Получение задачи по Planka Card ID
      */
@@ -94,6 +148,29 @@ export const tasksRepo = {
         return this.mapRowToTask(row);
     },
 
+    /**
+     * Получение всех задач
+     */
+    getAll(): Task[] {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT t.*, 
+        u1.username as creator_username,
+        u2.username as assignee_username,
+        u2.email as assignee_email,
+        u2.full_name as assignee_name
+      FROM tasks t
+      LEFT JOIN users u1 ON t.created_by = u1.telegram_id
+      LEFT JOIN users u2 ON t.assigned_to = u2.telegram_id
+      ORDER BY t.created_at DESC
+    `);
+
+        const rows = stmt.all();
+
+        return rows.map(row => this.mapRowToTask(row));
+    },
+
     /**
      * Получение задач пользователя
      */
@@ -131,7 +208,7 @@ export const tasksRepo = {
     /**
      * Получение задач с приближающимися дедлайнами
      */
-    getUpcomingDeadlines(hoursAhead: number): Task[] {
+    getUpcomingDeadlines(hoursAhead: number, boardId?: string): Task[] {
         const db = getDb();
 
         const deadline = new Date();
@@ -149,10 +226,12 @@ export const tasksRepo = {
       WHERE t.due_date <= ? 
         AND t.due_date >= CURRENT_TIMESTAMP
         AND t.status != ?
+        ${boardId ? 'AND t.board_id = ?' : ''}
       ORDER BY t.due_date ASC
     `);
 
-        const rows = stmt.all(deadline.toISOString(), TaskStatus.DONE);
+        const params = [deadline.toISOString(), TaskStatus.DONE];
+        const rows = stmt.all(...(boardId ? [...params, boardId] : params));
 
         return rows.map(row => this.mapRowToTask(row));
     },
@@ -160,7 +239,7 @@ export const tasksRepo = {
     /**
      * Получение просроченных задач
      */
-    getOverdueTasks(): Task[] {
+    getOverdueTasks(boardId?: string): Task[] {
         const db = getDb();
 
         const stmt = db.prepare(`
@@ -174,23 +253,96 @@ export const tasksRepo = {
       LEFT JOIN users u2 ON t.assigned_to = u2.telegram_id
       WHERE t.due_date < CURRENT_TIMESTAMP
         AND t.status != ?
+        ${boardId ? 'AND t.board_id = ?' : ''}
       ORDER BY t.due_date DESC
     `);
 
-        const rows = stmt.all(TaskStatus.DONE);
+        const rows = boardId ? stmt.all(TaskStatus.DONE, boardId) : stmt.all(TaskStatus.DONE);
+
+        return rows.map(row => this.mapRowToTask(row));
+    },
+
+    /**
+     * Незавершённые задачи пользователя с дедлайном в интервале [from, to)
+     */
+    getUserTasksDueBetween(telegramId: number, from: Date, to: Date, boardId?: string): Task[] {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT t.*, 
+        u1.username as creator_username,
+        u2.username as assignee_username,
+        u2.email as assignee_email,
+        u2.full_name as assignee_name
+      FROM tasks t
+      LEFT JOIN users u1 ON t.created_by = u1.telegram_id
+      LEFT JOIN users u2 ON t.assigned_to = u2.telegram_id
+      WHERE (t.assigned_to = ? OR t.created_by = ?)
+        AND t.due_date >= ?
+        AND t.due_date < ?
+        AND t.status != ?
+        ${boardId ? 'AND t.board_id = ?' : ''}
+      ORDER BY t.due_date ASC
+    `);
+
+        const params = [
+            telegramId,
+            telegramId,
+            from.toISOString(),
+            to.toISOString(),
+            TaskStatus.DONE,
+        ];
+        const rows = stmt.all(...(boardId ? [...params, boardId] : params));
 
         return rows.map(row => this.mapRowToTask(row));
     },
 
     /**
-     * Поиск задач по тексту
+     * Задачи исполнителя, закрытые в указанном интервале (по истории статусов)
      */
-    search(query: string, chatId?: number): Task[] {
+    getUserCompletedBetween(telegramId: number, from: Date, to: Date): Task[] {
         const db = getDb();
 
-        const searchPattern = `%${query}%`;
+        const stmt = db.prepare(`
+      SELECT t.*, 
+        u1.username as creator_username,
+        u2.username as assignee_username,
+        u2.email as assignee_email,
+        u2.full_name as assignee_name
+      FROM tasks t
+      LEFT JOIN users u1 ON t.created_by = u1.telegram_id
+      LEFT JOIN users u2 ON t.assigned_to = u2.telegram_id
+      WHERE t.assigned_to = ?
+        AND t.status = ?
+        AND EXISTS (
+          SELECT 1 FROM task_events e
+          WHERE e.task_id = t.planka_card_id
+            AND e.type = 'status'
+            AND json_extract(e.data, '$.to') = ?
+            AND datetime(e.created_at) >= datetime(?)
+            AND datetime(e.created_at) < datetime(?)
+        )
+      ORDER BY t.updated_at DESC
+    `);
+
+        const rows = stmt.all(
+            telegramId,
+            TaskStatus.DONE,
+            TaskStatus.DONE,
+            from.toISOString(),
+            to.toISOString()
+        );
 
-        const baseQuery = `
+        return rows.map(row => this.mapRowToTask(row));
+    },
+
+    /**
+     * Незавершённые задачи пользователя с дедлайном раньше указанной даты
+     */
+    getUserOverdueTasks(telegramId: number, before: Date, boardId?: string): Task[] {
+        const db = getDb();
+
+        const stmt = db.prepare(`
       SELECT t.*, 
         u1.username as creator_username,
         u2.username as assignee_username,
@@ -199,25 +351,227 @@ export const tasksRepo = {
       FROM tasks t
       LEFT JOIN users u1 ON t.created_by = u1.telegram_id
       LEFT JOIN users u2 ON t.assigned_to = u2.telegram_id
-      WHERE (
-        t.title LIKE ? OR
-        t.description LIKE ? OR
-        t.planka_card_id = ?
-      )
-    `;
+      WHERE (t.assigned_to = ? OR t.created_by = ?)
+        AND t.due_date < ?
+        AND t.status != ?
+        ${boardId ? 'AND t.board_id = ?' : ''}
+      ORDER BY t.due_date DESC
+    `);
+
+        const params = [telegramId, telegramId, before.toISOString(), TaskStatus.DONE];
+        const rows = stmt.all(...(boardId ? [...params, boardId] : params));
+
+        return rows.map(row => this.mapRowToTask(row));
+    },
+
+    /**
+     * Сводка по задачам пользователя за интервал [from, to)
+     */
+    getUserSummary(telegramId: number, from: Date, to: Date, boardId?: string): {
+        completed: number;
+        inProgress: number;
+        overdue: number;
+    } {
+        const db = getDb();
+
+        const row = db.prepare(`
+      SELECT 
+        COUNT(CASE WHEN status = ? AND datetime(updated_at) >= datetime(?) AND datetime(updated_at) < datetime(?) THEN 1 END) as completed,
+        COUNT(CASE WHEN status = ? THEN 1 END) as in_progress,
+        COUNT(CASE WHEN datetime(due_date) < datetime('now') AND status != ? THEN 1 END) as overdue
+      FROM tasks
+      WHERE (assigned_to = ? OR created_by = ?)
+        ${boardId ? 'AND board_id = ?' : ''}
+    `).get(
+            TaskStatus.DONE,
+            from.toISOString(),
+            to.toISOString(),
+            TaskStatus.IN_PROGRESS,
+            TaskStatus.DONE,
+            telegramId,
+            telegramId,
+            ...(boardId ? [boardId] : [])
+        ) as { completed: number; in_progress: number; overdue: number };
+
+        return {
+            completed: row.completed,
+            inProgress: row.in_progress,
+            overdue: row.overdue,
+        };
+    },
+
+    /**
+     * Доски, на которых у пользователя есть задачи
+     */
+    getUserBoardIds(telegramId: number): string[] {
+        const db = getDb();
+
+        const rows = db.prepare(`
+      SELECT DISTINCT board_id FROM tasks
+      WHERE (assigned_to = ? OR created_by = ?)
+        AND board_id IS NOT NULL
+    `).all(telegramId, telegramId) as Array<{ board_id: string }>;
+
+        return rows.map(row => row.board_id);
+    },
 
-        const fullQuery = chatId
-            ? `${baseQuery} AND t.chat_id = ? ORDER BY t.created_at DESC LIMIT 20`
-            : `${baseQuery} ORDER BY t.created_at DESC LIMIT 20`;
+    /**
+     * Поиск задач: полнотекстовый по ключам toSearchKey с ранжированием и фильтры
+     * Без слов — только фильтры в порядке query.sort (по умолчанию — ближайшие дедлайны)
+     */
+    search(query: TaskSearchQuery, limit: number, offset: number = 0): Task[] {
+        const db = getDb();
+
+        const { from, where, params } = this.buildSearchFilter(query);
+
+        const stmt = db.prepare(`
+      SELECT t.*, 
+        u1.username as creator_username,
+        u2.username as assignee_username,
+        u2.email as assignee_email,
+        u2.full_name as assignee_name
+      ${from}
+      ${where}
+      ORDER BY ${getSearchOrder(query)}
+      LIMIT @limit OFFSET @offset
+    `);
 
-        const stmt = db.prepare(fullQuery);
-        const rows = chatId
-            ? stmt.all(searchPattern, searchPattern, query, chatId)
-            : stmt.all(searchPattern, searchPattern, query);
+        const rows = stmt.all({ ...params, limit, offset });
 
         return rows.map(row => this.mapRowToTask(row));
     },
 
+    /**
+     * Количество задач, подходящих под запрос (для пагинации)
+     */
+    countSearch(query: TaskSearchQuery): number {
+        const db = getDb();
+
+        const { from, where, params } = this.buildSearchFilter(query);
+
+        const row = db.prepare(`
+      SELECT COUNT(*) as count
+      ${from}
+      ${where}
+    `).get(params) as { count: number };
+
+        return row.count;
+    },
+
+    /**
+     * FROM и WHERE поискового запроса с именованными параметрами
+     */
+    buildSearchFilter(query: TaskSearchQuery): { from: string; where: string; params: Record<string, unknown> } {
+        const conditions: string[] = [];
+        const params: Record<string, unknown> = {};
+
+        if (query.terms.length > 0) {
+            conditions.push('tasks_fts MATCH @match');
+            params.match = query.terms.map(term => `"${term.replace(/"/g, '""')}"*`).join(' ');
+        }
+
+        if (query.status) {
+            conditions.push('t.status = @status');
+            params.status = query.status;
+        }
+
+        if (query.openOnly) {
+            conditions.push('t.status != @done');
+            params.done = TaskStatus.DONE;
+        }
+
+        if (query.assignee) {
+            conditions.push('(u2.username = @assignee COLLATE NOCASE OR u2.full_name LIKE @assigneeName)');
+            params.assignee = query.assignee;
+            params.assigneeName = `${query.assignee}%`;
+        }
+
+        if (query.assigneeId !== undefined) {
+            conditions.push('t.assigned_to = @assigneeId');
+            params.assigneeId = query.assigneeId;
+        }
+
+        if (query.creatorId !== undefined) {
+            conditions.push('t.created_by = @creatorId');
+            params.creatorId = query.creatorId;
+        }
+
+        if (query.priority) {
+            conditions.push('t.priority = @priority');
+            params.priority = query.priority;
+        }
+
+        if (query.category) {
+            conditions.push('t.category = @category');
+            params.category = query.category;
+        }
+
+        if (query.dueFrom) {
+            conditions.push('t.due_date >= @dueFrom');
+            params.dueFrom = query.dueFrom.toISOString();
+        }
+
+        if (query.dueTo) {
+            conditions.push('t.due_date < @dueTo');
+            params.dueTo = query.dueTo.toISOString();
+        }
+
+        if (query.boardId) {
+            conditions.push('t.board_id = @boardId');
+            params.boardId = query.boardId;
+        }
+
+        const from = [
+            'FROM tasks t',
+            query.terms.length > 0 ? 'JOIN tasks_fts ON tasks_fts.rowid = t.id' : '',
+            'LEFT JOIN users u1 ON t.created_by = u1.telegram_id',
+            'LEFT JOIN users u2 ON t.assigned_to = u2.telegram_id',
+        ].filter(Boolean).join('\n      ');
+
+        return {
+            from,
+            where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+            params,
+        };
+    },
+
+    /**
+     * Название и описание задачи в поисковом индексе (комментарии не трогаем)
+     */
+    indexSearchText(plankaCardId: string, title: string, description?: string | null): void {
+        const db = getDb();
+
+        const params = {
+            plankaCardId,
+            title: toSearchKey(title),
+            description: toSearchKey(description || ''),
+        };
+
+        const info = db.prepare(`
+      UPDATE tasks_fts SET title = @title, description = @description
+      WHERE rowid = (SELECT id FROM tasks WHERE planka_card_id = @plankaCardId)
+    `).run(params);
+
+        if (info.changes === 0) {
+            db.prepare(`
+      INSERT INTO tasks_fts (rowid, title, description, comments)
+      SELECT id, @title, @description, '' FROM tasks WHERE planka_card_id = @plankaCardId
+    `).run(params);
+        }
+    },
+
+    /**
+     * Комментарий к задаче в поисковом индексе
+     */
+    indexSearchComment(plankaCardId: string, text: string): void {
+        const db = getDb();
+
+        db.prepare(`
+      UPDATE tasks_fts SET comments = comments || ' ' || ?
+      WHERE rowid = (SELECT id FROM tasks WHERE planka_card_id = ?)
+    `).run(toSearchKey(text), plankaCardId);
+    },
+
     /**
      * Обновление задачи
      */
@@ -225,9 +579,11 @@ export const tasksRepo = {
         title?: string;
         description?: string;
         priority?: TaskPriority;
+        category?: TaskCategory;
         status?: TaskStatus;
         assignedTo?: number | null;
         dueDate?: Date | null;
+        reminderOffsets?: number[] | null;
     }): Task | null {
         const db = getDb();
 
@@ -249,6 +605,11 @@ export const tasksRepo = {
             params.priority = data.priority;
         }
 
+        if (data.category !== undefined) {
+            updates.push('category = @category');
+            params.category = data.category;
+        }
+
         if (data.status !== undefined) {
             updates.push('status = @status');
             params.status = data.status;
@@ -264,6 +625,11 @@ export const tasksRepo = {
             params.dueDate = data.dueDate ? data.dueDate.toISOString() : null;
         }
 
+        if (data.reminderOffsets !== undefined) {
+            updates.push('reminder_offsets = @reminderOffsets');
+            params.reminderOffsets = data.reminderOffsets ? JSON.stringify(data.reminderOffsets) : null;
+        }
+
         if (updates.length === 0) {
             return this.getByPlankaId(plankaCardId);
         }
@@ -284,19 +650,31 @@ export const tasksRepo = {
 
         Log.info({}, 'Task updated', { plankaCardId, ...params });
 
-        return this.getByPlankaId(plankaCardId);
+        const task = this.getByPlankaId(plankaCardId);
+
+        if (task && (data.title !== undefined || data.description !== undefined)) {
+            this.indexSearchText(plankaCardId, task.title, task.description);
+        }
+
+        return task;
     },
 
     /**
-     * Удаление задачи
+     * Удаление задачи вместе с напоминаниями и поисковым индексом
+     * Напоминания ссылаются на tasks(id), поэтому удаляются первыми и в той же транзакции
      */
     delete(plankaCardId: string): boolean {
-        const db = getDb();
+        const changes = transaction(db => {
+            remindersRepo.clearForTask(plankaCardId);
+
+            db.prepare(`
+      DELETE FROM tasks_fts WHERE rowid = (SELECT id FROM tasks WHERE planka_card_id = ?)
+    `).run(plankaCardId);
 
-        const stmt = db.prepare('DELETE FROM tasks WHERE planka_card_id = ?');
-        const info = stmt.run(plankaCardId);
+            return db.prepare('DELETE FROM tasks WHERE planka_card_id = ?').run(plankaCardId).changes;
+        });
 
-        if (info.changes > 0) {
+        if (changes > 0) {
             Log.info({}, 'Task deleted', { plankaCardId });
             return true;
         }
@@ -307,7 +685,7 @@ export const tasksRepo = {
     /**
      * Получение статистики по задачам
      */
-    getStats(chatId?: number): {
+    getStats(boardId?: string): {
         total: number;
         byStatus: Record<string, number>;
         byPriority: Record<string, number>;
@@ -315,8 +693,8 @@ export const tasksRepo = {
     } {
         const db = getDb();
 
-        const whereClause = chatId ? 'WHERE chat_id = ?' : '';
-        const params = chatId ? [chatId] : [];
+        const whereClause = boardId ? 'WHERE board_id = ?' : '';
+        const params = boardId ? [boardId] : [];
 
         // Общее количество
         const totalStmt = db.prepare(`SELECT COUNT(*) as count FROM tasks ${whereClause}`);
@@ -344,9 +722,9 @@ export const tasksRepo = {
       FROM tasks 
       WHERE due_date < CURRENT_TIMESTAMP 
         AND status != ?
-        ${chatId ? 'AND chat_id = ?' : ''}
+        ${boardId ? 'AND board_id = ?' : ''}
     `);
-        const overdueParams = chatId ? [TaskStatus.DONE, chatId] : [TaskStatus.DONE];
+        const overdueParams = boardId ? [TaskStatus.DONE, boardId] : [TaskStatus.DONE];
         const overdue = overdueStmt.get(...overdueParams) as { count: number };
 
         return {
@@ -357,6 +735,87 @@ export const tasksRepo = {
         };
     },
 
+    /**
+     * Закрытые за период задачи по исполнителям (по истории статусов)
+     * onTime — закрыты не позже срока, avgCycleHours — от создания до закрытия
+     */
+    getCompletionStats(from: Date, to: Date, boardId?: string): Array<{
+        assigneeId: number;
+        completed: number;
+        withDueDate: number;
+        onTime: number;
+        avgCycleHours: number | null;
+    }> {
+        const db = getDb();
+
+        // Задачу могли закрыть несколько раз — считаем по последнему закрытию в периоде
+        const stmt = db.prepare(`
+      SELECT assigned_to,
+        COUNT(*) as completed,
+        COUNT(due_date) as with_due_date,
+        SUM(CASE WHEN datetime(completed_at) <= datetime(due_date) THEN 1 ELSE 0 END) as on_time,
+        AVG((julianday(completed_at) - julianday(created_at)) * 24) as avg_cycle_hours
+      FROM (
+        SELECT t.assigned_to, t.due_date, t.created_at, MAX(e.created_at) as completed_at
+        FROM tasks t
+        JOIN task_events e ON e.task_id = t.planka_card_id
+        WHERE t.assigned_to IS NOT NULL
+          AND t.status = ?
+          AND e.type = 'status'
+          AND json_extract(e.data, '$.to') = ?
+          AND datetime(e.created_at) >= datetime(?)
+          AND datetime(e.created_at) < datetime(?)
+          ${boardId ? 'AND t.board_id = ?' : ''}
+        GROUP BY t.id
+      )
+      GROUP BY assigned_to
+    `);
+
+        const params: Array<string> = [TaskStatus.DONE, TaskStatus.DONE, from.toISOString(), to.toISOString()];
+        if (boardId) params.push(boardId);
+
+        const rows = stmt.all(...params) as Array<{
+            assigned_to: number;
+            completed: number;
+            with_due_date: number;
+            on_time: number;
+            avg_cycle_hours: number | null;
+        }>;
+
+        return rows.map(row => ({
+            assigneeId: row.assigned_to,
+            completed: row.completed,
+            withDueDate: row.with_due_date,
+            onTime: row.on_time,
+            avgCycleHours: row.avg_cycle_hours,
+        }));
+    },
+
+    /**
+     * Текущая загрузка исполнителей: задачи в работе и на проверке, просроченные незавершённые
+     */
+    getWorkloadByAssignee(boardId?: string): Array<{ assigneeId: number; wip: number; overdue: number }> {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT assigned_to,
+        SUM(CASE WHEN status IN (?, ?) THEN 1 ELSE 0 END) as wip,
+        SUM(CASE WHEN datetime(due_date) < datetime('now') THEN 1 ELSE 0 END) as overdue
+      FROM tasks
+      WHERE assigned_to IS NOT NULL
+        AND status != ?
+        ${boardId ? 'AND board_id = ?' : ''}
+      GROUP BY assigned_to
+    `);
+
+        const params: Array<string> = [TaskStatus.IN_PROGRESS, TaskStatus.IN_REVIEW, TaskStatus.DONE];
+        if (boardId) params.push(boardId);
+
+        const rows = stmt.all(...params) as Array<{ assigned_to: number; wip: number; overdue: number }>;
+
+        return rows.map(row => ({ assigneeId: row.assigned_to, wip: row.wip, overdue: row.overdue }));
+    },
+
     /**
      * Маппинг строки БД в объект Task
      */
@@ -376,7 +835,33 @@ export const tasksRepo = {
             createdBy: String(row.created_by),
             status: row.status as TaskStatus,
             plankaCardId: row.planka_card_id,
+            boardId: row.board_id || undefined,
             chatId: row.chat_id,
+            reminderOffsets: row.reminder_offsets ? JSON.parse(row.reminder_offsets) : undefined,
         };
     },
-};
\ No newline at end of file
+};
+
+/**
+ * Порядок результатов поиска
+ * Со словами — по релевантности: совпадение в названии весит больше, чем в описании и комментариях
+ */
+function getSearchOrder(query: TaskSearchQuery): string {
+    if (query.terms.length > 0) {
+        return 'bm25(tasks_fts, 10.0, 4.0, 1.0), t.created_at DESC';
+    }
+
+    switch (query.sort) {
+        case 'priority':
+            return `CASE t.priority
+          WHEN '${TaskPriority.CRITICAL}' THEN 0
+          WHEN '${TaskPriority.HIGH}' THEN 1
+          WHEN '${TaskPriority.MEDIUM}' THEN 2
+          ELSE 3
+        END, t.due_date IS NULL, t.due_date ASC`;
+        case 'created':
+            return 't.created_at DESC, t.id DESC';
+        default:
+            return 't.due_date IS NULL, t.due_date ASC, t.created_at DESC';
+    }
+}
@@ -6,6 +6,7 @@ import {
     UserRole,
     Language
 } from '../../interfaces/user';
+import { config } from '../../config/env';
 import { AppError, ErrorCodes } from '../../utils/errors';
 import Log from '../../utils/log';
 
@@ -23,9 +24,9 @@ export const usersRepo = {
         try {
             const stmt = db.prepare(`
         INSERT INTO users (
-          telegram_id, username, full_name, role, email, language
+          telegram_id, username, full_name, role, email, language, timezone
         ) VALUES (
-          @telegramId, @username, @fullName, @role, @email, @language
+          @telegramId, @username, @fullName, @role, @email, @language, @timezone
         )
       `);
 
@@ -36,6 +37,7 @@ export const usersRepo = {
                 role: input.role || UserRole.EMPLOYEE,
                 email: input.email || null,
                 language: input.language || Language.RU,
+                timezone: input.timezone || null,
             });
 
             Log.info({ userId: input.telegramId }, 'User created', {
@@ -93,6 +95,25 @@ export const usersRepo = {
         return this.mapRowToUser(row);
     },
 
+    /**
+     * Получение пользователя по Planka User ID
+     */
+    getByPlankaUserId(plankaUserId: string): User | null {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT * FROM users WHERE planka_user_id = ?
+    `);
+
+        const row = stmt.get(plankaUserId);
+
+        if (!row) {
+            return null;
+        }
+
+        return this.mapRowToUser(row);
+    },
+
     /**
      * Получение всех пользователей
      */
@@ -142,11 +163,21 @@ export const usersRepo = {
             params.plankaUserId = input.plankaUserId;
         }
 
+        if (input.plankaCredentialsPending !== undefined) {
+            updates.push('planka_credentials_pending = @plankaCredentialsPending');
+            params.plankaCredentialsPending = input.plankaCredentialsPending ? 1 : 0;
+        }
+
         if (input.language !== undefined) {
             updates.push('language = @language');
             params.language = input.language;
         }
 
+        if (input.timezone !== undefined) {
+            updates.push('timezone = @timezone');
+            params.timezone = input.timezone;
+        }
+
         if (updates.length === 0) {
             return this.getByTelegramId(input.telegramId);
         }
@@ -226,7 +257,9 @@ export const usersRepo = {
             role: row.role as UserRole,
             email: row.email,
             plankaUserId: row.planka_user_id,
+            plankaCredentialsPending: !!row.planka_credentials_pending,
             language: row.language as Language,
+            timezone: row.timezone || config.timezone.default,
             createdAt: new Date(row.created_at),
             updatedAt: new Date(row.updated_at),
         };
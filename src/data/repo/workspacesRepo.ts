@@ -0,0 +1,119 @@
+import { getDb } from '../db';
+import { Workspace, LinkWorkspaceInput } from '../../interfaces/workspace';
+import Log from '../../utils/log';
+
+/**
+ * Репозиторий рабочих пространств (чат Telegram <-> доска Planka)
+ */
+export const workspacesRepo = {
+    /**
+     * Привязка чата к доске (повторная привязка заменяет доску)
+     */
+    upsert(input: LinkWorkspaceInput): Workspace {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      INSERT INTO workspaces (chat_id, title, project_id, board_id, created_by)
+      VALUES (@chatId, @title, @projectId, @boardId, @createdBy)
+      ON CONFLICT(chat_id) DO UPDATE SET
+        title = excluded.title,
+        project_id = excluded.project_id,
+        board_id = excluded.board_id,
+        created_by = excluded.created_by,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+
+        stmt.run({
+            chatId: input.chatId,
+            title: input.title || null,
+            projectId: input.projectId,
+            boardId: input.boardId,
+            createdBy: input.createdBy,
+        });
+
+        Log.info({ chatId: input.chatId }, 'Workspace linked', {
+            boardId: input.boardId,
+            projectId: input.projectId,
+        });
+
+        return this.getByChatId(input.chatId)!;
+    },
+
+    /**
+     * Рабочее пространство чата
+     */
+    getByChatId(chatId: number): Workspace | null {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT * FROM workspaces WHERE chat_id = ?
+    `);
+
+        const row = stmt.get(chatId);
+
+        if (!row) {
+            return null;
+        }
+
+        return this.mapRowToWorkspace(row);
+    },
+
+    /**
+     * Рабочие пространства, привязанные к доске
+     */
+    getByBoardId(boardId: string): Workspace[] {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT * FROM workspaces WHERE board_id = ? ORDER BY created_at ASC
+    `);
+
+        return stmt.all(boardId).map(row => this.mapRowToWorkspace(row));
+    },
+
+    /**
+     * Все рабочие пространства
+     */
+    getAll(): Workspace[] {
+        const db = getDb();
+
+        const stmt = db.prepare(`
+      SELECT * FROM workspaces ORDER BY created_at ASC
+    `);
+
+        return stmt.all().map(row => this.mapRowToWorkspace(row));
+    },
+
+    /**
+     * Отвязка чата от доски
+     */
+    delete(chatId: number): boolean {
+        const db = getDb();
+
+        const stmt = db.prepare('DELETE FROM workspaces WHERE chat_id = ?');
+        const info = stmt.run(chatId);
+
+        if (info.changes > 0) {
+            Log.info({ chatId }, 'Workspace unlinked');
+            return true;
+        }
+
+        return false;
+    },
+
+    /**
+     * Маппинг строки БД в объект Workspace
+     */
+    mapRowToWorkspace(row: any): Workspace {
+        return {
+            id: row.id,
+            chatId: row.chat_id,
+            title: row.title || undefined,
+            projectId: row.project_id,
+            boardId: row.board_id,
+            createdBy: row.created_by,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at),
+        };
+    },
+};
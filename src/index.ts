@@ -3,6 +3,7 @@ import { config, validateConfig } from './config/env';
 import { initDatabase } from './data/db';
 import { startWorkBot } from './apps/work-bot';
 import { startRegBot } from './apps/reg-bot';
+import { verifyPlankaWebhook, handlePlankaWebhook } from './usecases/tasks/syncFromPlanka';
 import Log from './utils/log';
 
 /**
@@ -46,18 +47,35 @@ async function main() {
             });
         });
 
+        // Webhook от Planka - двусторонняя синхронизация карточек
+        app.post('/webhooks/planka', async (req, res) => {
+            if (!verifyPlankaWebhook(req.headers.authorization)) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            try {
+                const result = await handlePlankaWebhook(req.body);
+                res.json({ ok: true, ...result });
+            } catch (error) {
+                Log.error({ service: 'planka' }, 'Failed to handle Planka webhook', error);
+                res.status(500).json({ error: 'Internal error' });
+            }
+        });
+
+        // Запускаем HTTP сервер до ботов: bot.launch() в режиме polling
+        // не завершается, а webhook Planka должен приниматься сразу
+        const PORT = config.server.port;
+        app.listen(PORT, () => {
+            Log.info({}, `Server running on :${PORT}`);
+        });
+
         // Запускаем оба бота параллельно
         await Promise.all([
             startWorkBot(),
             startRegBot(),
         ]);
 
-        // Запускаем HTTP сервер
-        const PORT = config.server.port;
-        app.listen(PORT, () => {
-            Log.info({}, `Server & bots running on :${PORT}`);
-        });
-
     } catch (error) {
         Log.error({}, 'Failed to start application', error);
         process.exit(1);
@@ -86,6 +86,9 @@ export interface PlankaAttachment {
     updatedAt: string;
 }
 
+/**
+ * Комментарий — действие карточки (Planka v1) с типом commentCard
+ */
 export interface PlankaComment {
     id: string;
     cardId: string;
@@ -93,7 +96,7 @@ export interface PlankaComment {
     data: {
         text: string;
     };
-    type: 'commentCreate' | 'commentUpdate' | 'commentDelete';
+    type: 'commentCard' | 'createCard' | 'moveCard';
     createdAt: string;
     updatedAt: string;
 }
@@ -123,6 +126,25 @@ export interface PlankaWebhook {
     updatedAt: string;
 }
 
+/**
+ * Событие, которое Planka отправляет на webhook
+ */
+export interface PlankaWebhookEvent<T = unknown> {
+    event: string;
+    data: {
+        item: T;
+        included?: {
+            lists?: PlankaList[];
+            cards?: PlankaCard[];
+            users?: PlankaUser[];
+        };
+    };
+    prevData?: {
+        item: Partial<T>;
+    };
+    user?: PlankaUser;
+}
+
 /**
  * Типы для ответов API
  */
@@ -17,22 +17,28 @@ export interface Task {
     createdBy: string;
     status: TaskStatus;
     plankaCardId?: string;
+    boardId?: string;
     chatId: number;
+    // Свои напоминания задачи (минуты до дедлайна); нет — берутся настройки получателя
+    reminderOffsets?: number[];
 }
 
+/**
+ * Приоритет и категория хранятся кодами, названия — в i18n (tasks.priorities, tasks.categories)
+ */
 export enum TaskPriority {
-    LOW = 'низкий',
-    MEDIUM = 'средний',
-    HIGH = 'высокий',
-    CRITICAL = 'критический',
+    LOW = 'low',
+    MEDIUM = 'medium',
+    HIGH = 'high',
+    CRITICAL = 'critical',
 }
 
 export enum TaskCategory {
-    DEVELOPMENT = 'разработка',
-    DESIGN = 'дизайн',
-    TESTING = 'тестирование',
-    DOCUMENTATION = 'документация',
-    OTHER = 'другое',
+    DEVELOPMENT = 'development',
+    DESIGN = 'design',
+    TESTING = 'testing',
+    DOCUMENTATION = 'documentation',
+    OTHER = 'other',
 }
 
 export enum TaskStatus {
@@ -52,6 +58,8 @@ export interface CreateTaskInput {
     chatId: number;
     userId: number;
     username: string;
+    boardId?: string;
+    listId?: string;
     attachments?: TaskAttachment[];
 }
 
@@ -60,18 +68,133 @@ export interface UpdateTaskInput {
     title?: string;
     description?: string;
     priority?: TaskPriority;
+    category?: TaskCategory;
     status?: TaskStatus;
     assigneeId?: string;
-    dueDate?: Date;
+    dueDate?: Date | null;
+    // null — вернуть напоминания по умолчанию
+    reminderOffsets?: number[] | null;
+}
+
+export enum TaskEventType {
+    CREATED = 'created',
+    ASSIGNED = 'assigned',
+    STATUS = 'status',
+    DUE_DATE = 'due_date',
+    EDITED = 'edited',
+}
+
+/**
+ * Событие в истории задачи
+ * data: для status — { from, to }, для assigned — { from, to } (telegram id),
+ * для due_date — { from, to } (ISO), для edited — { fields }
+ */
+export interface TaskEvent {
+    id: number;
+    taskId: string;
+    type: TaskEventType;
+    actorId?: number;
+    actorName?: string;
+    data: Record<string, any>;
+    createdAt: Date;
+}
+
+export enum ExtensionStatus {
+    PENDING = 'pending',       // ждёт решения автора задачи
+    COUNTERED = 'countered',   // автор предложил свою дату, ждём ответа исполнителя
+    APPROVED = 'approved',
+    REJECTED = 'rejected',
+}
+
+/**
+ * Запрос на продление срока задачи
+ */
+export interface ExtensionRequest {
+    id: number;
+    taskId: string;
+    requestedBy: number;
+    approverId: number;
+    proposedDueDate: Date;
+    counterDueDate?: Date;
+    reason: string;
+    status: ExtensionStatus;
+    decidedAt?: Date;
+    createdAt: Date;
+}
+
+/**
+ * Комментарий к задаче (из карточки Planka)
+ */
+export interface TaskComment {
+    id: string;
+    authorName: string;
+    text: string;
+    createdAt: Date;
 }
 
 export interface TaskAttachment {
     name: string;
-    url: string;
+    // file_id Telegram; ссылка на скачивание получается при загрузке в Planka
+    fileId: string;
     size: number;
     type?: string;
 }
 
+/**
+ * Поисковый запрос: слова для полнотекстового поиска (ключи toSearchKey) и фильтры
+ * Срок — интервал [dueFrom, dueTo); openOnly — без выполненных задач
+ * sort учитывается, только если слов нет (иначе — по релевантности)
+ */
+export interface TaskSearchQuery {
+    terms: string[];
+    status?: TaskStatus;
+    assignee?: string;
+    assigneeId?: number;
+    creatorId?: number;
+    priority?: TaskPriority;
+    category?: TaskCategory;
+    dueFrom?: Date;
+    dueTo?: Date;
+    openOnly?: boolean;
+    boardId?: string;
+    sort?: TaskListSort;
+}
+
+/**
+ * Окно дедлайна в фильтрах (дни — по часовому поясу пользователя)
+ */
+export type TaskDueWindow = 'today' | 'tomorrow' | 'week' | 'month' | 'overdue';
+
+export type TaskListSort = 'due' | 'priority' | 'created';
+
+/**
+ * Чьи задачи в списке: назначенные мне, созданные мной, все (для владельцев)
+ */
+export type TaskListScope = 'assigned' | 'created' | 'all';
+
+/**
+ * Фильтры списка задач (/my_tasks); в таком виде сохраняются виды
+ */
+export interface TaskListFilters {
+    scope: TaskListScope;
+    status?: TaskStatus;
+    priority?: TaskPriority;
+    category?: TaskCategory;
+    due?: TaskDueWindow;
+    sort: TaskListSort;
+}
+
+/**
+ * Сохранённый вид списка задач
+ */
+export interface TaskView {
+    id: number;
+    userId: number;
+    name: string;
+    filters: TaskListFilters;
+    createdAt: Date;
+}
+
 export interface TaskSearchResult {
     tasks: Task[];
     total: number;
@@ -88,6 +211,32 @@ export interface TaskStats {
     dueThisWeek: number;
 }
 
+export type ReportPeriod = 'week' | 'month';
+
+/**
+ * Показатели сотрудника в отчёте по команде
+ * onTimeRate — доля закрытых в срок среди закрытых со сроком (null — сроков не было)
+ */
+export interface EmployeeReport {
+    userId: number;
+    name: string;
+    completed: number;
+    onTimeRate: number | null;
+    avgCycleHours: number | null;
+    overdue: number;
+    wip: number;
+}
+
+/**
+ * Отчёт по команде за период [from, to)
+ */
+export interface TeamReport {
+    period: ReportPeriod;
+    from: Date;
+    to: Date;
+    employees: EmployeeReport[];
+}
+
 export interface GeminiAnalysis {
     title: string;
     description: string;
@@ -96,4 +245,19 @@ export interface GeminiAnalysis {
     assigneeName?: string;
     dueDate?: Date;
     language: 'ru' | 'uz';
+    inferred: TaskDraftField[];
+}
+
+/**
+ * Поля черновика задачи, которые может определить анализ текста
+ */
+export type TaskDraftField = 'title' | 'description' | 'priority' | 'category' | 'assignee' | 'dueDate';
+
+/**
+ * Результат анализа сообщения для создания задачи
+ */
+export interface TaskDraft {
+    data: Partial<CreateTaskInput>;
+    source: 'ai' | 'rules';
+    inferred: TaskDraftField[];
 }
\ No newline at end of file
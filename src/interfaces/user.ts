@@ -10,7 +10,11 @@ export interface User {
     role: UserRole;
     email?: string;
     plankaUserId?: string;
+    // Бот выдал пароль Planka, но не смог его доставить
+    plankaCredentialsPending: boolean;
     language: Language;
+    // Часовой пояс (IANA, например 'Asia/Tashkent')
+    timezone: string;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -33,6 +37,7 @@ export interface CreateUserInput {
     role?: UserRole;
     email?: string;
     language?: Language;
+    timezone?: string;
 }
 
 export interface UpdateUserInput {
@@ -42,7 +47,9 @@ export interface UpdateUserInput {
     role?: UserRole;
     email?: string;
     plankaUserId?: string;
+    plankaCredentialsPending?: boolean;
     language?: Language;
+    timezone?: string;
 }
 
 export interface UserSession {
@@ -58,9 +65,13 @@ export interface UserSession {
 
 export interface UserSettings {
     userId: number;
+    // Часы утреннего и вечернего дайджестов по местному времени
     digestHour: number;
+    eveningDigestHour: number;
     digestEnabled: boolean;
     notificationsEnabled: boolean;
+    // Напоминания по умолчанию (минуты до дедлайна); нет — системные
+    reminderOffsets?: number[];
     createdAt: Date;
     updatedAt: Date;
 }
@@ -68,8 +79,10 @@ export interface UserSettings {
 export interface UpdateSettingsInput {
     userId: number;
     digestHour?: number;
+    eveningDigestHour?: number;
     digestEnabled?: boolean;
     notificationsEnabled?: boolean;
+    reminderOffsets?: number[] | null;
 }
 
 /**
@@ -0,0 +1,22 @@
+/**
+ * Интерфейсы для рабочих пространств (чат Telegram <-> доска Planka)
+ */
+
+export interface Workspace {
+    id: number;
+    chatId: number;
+    title?: string;
+    projectId: string;
+    boardId: string;
+    createdBy: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface LinkWorkspaceInput {
+    chatId: number;
+    title?: string;
+    projectId: string;
+    boardId: string;
+    createdBy: number;
+}
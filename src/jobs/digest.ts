@@ -1,139 +1,150 @@
 import { Telegraf } from 'telegraf';
-import { tasksRepo } from '../data/repo/tasksRepo';
 import { usersRepo } from '../data/repo/usersRepo';
-import { getDb } from '../data/db';
+import { settingsRepo } from '../data/repo/settingsRepo';
 import { config } from '../config/env';
-import { getTexts, formatTasksList } from '../bot/replies';
-import { UserRole } from '../interfaces/user';
-import { TaskStatus } from '../interfaces/task';
+import { getTexts, formatTasksList, formatPriorityEmoji } from '../bot/replies';
+import { User, UserRole, UserSettings } from '../interfaces/user';
+import { Task, TaskStatus } from '../interfaces/task';
+import { getMorningDigest, getEveningDigest, getEmployeeDigest } from '../usecases/tasks/dailyDigest';
+import { getDigestScopes, DigestScope } from '../usecases/workspaces/resolveWorkspace';
 import Log from '../utils/log';
-import dayjs from 'dayjs';
+import dayjs from '../utils/dayjs';
 
 // Инициализация бота для отправки сообщений
 const bot = new Telegraf(config.telegram.workBotToken);
 
 /**
- * Отправка ежедневного дайджеста
+ * Часовой диспетчер дайджестов
+ * Владельцы и администраторы получают утренний и вечерний дайджест в выбранные часы
+ * по своему часовому поясу, сотрудники — личный дайджест утром
  */
-export async function sendDailyDigest(
-    type: 'morning' | 'evening'
-): Promise<void> {
-    Log.job('digest', `Starting ${type} digest...`);
+export async function sendDailyDigests(now: Date = new Date()): Promise<void> {
+    Log.job('digest', 'Dispatching digests...');
 
-    try {
-        // Получаем всех владельцев и администраторов
-        const owners = usersRepo.getAll(UserRole.OWNER);
-        const admins = usersRepo.getAll(UserRole.ADMIN);
-        const recipients = [...owners, ...admins];
+    let sent = 0;
 
-        for (const user of recipients) {
+    try {
+        for (const user of usersRepo.getAll()) {
             // Проверяем настройки пользователя
-            const settings = await getUserSettings(user.telegramId);
+            const settings = settingsRepo.getOrDefault(user.telegramId);
 
             if (!settings.digestEnabled) {
                 continue;
             }
 
-            // Проверяем время для утреннего дайджеста
-            if (type === 'morning' && settings.digestHour !== 9) {
+            const type = getDueDigestType(settings, dayjs(now).tz(user.timezone).hour());
+
+            if (!type) {
+                continue;
+            }
+
+            // Сотруднику — только утренний дайджест по его собственным задачам
+            if (user.role === UserRole.EMPLOYEE) {
+                if (type === 'morning' && await sendEmployeeDigest(user)) {
+                    sent++;
+                }
                 continue;
             }
 
-            // Отправляем дайджест
-            if (type === 'morning') {
-                await sendMorningDigest(user.telegramId);
-            } else {
-                await sendEveningDigest(user.telegramId);
+            // Отправляем дайджест (отдельно по каждому рабочему пространству)
+            for (const scope of getDigestScopes(user.telegramId)) {
+                if (type === 'morning') {
+                    await sendMorningDigest(user.telegramId, scope);
+                } else {
+                    await sendEveningDigest(user.telegramId, scope);
+                }
             }
+
+            sent++;
         }
 
-        Log.job('digest', `${type} digest completed`);
+        Log.job('digest', 'Digests dispatched', { sent });
 
     } catch (error) {
-        Log.error({ job: 'digest' }, `Failed to send ${type} digest`, error);
+        Log.error({ job: 'digest' }, 'Failed to dispatch digests', error);
     }
 }
 
 /**
- * Получение настроек пользователя
+ * Какой дайджест положен пользователю в этот час (по местному времени)
+ * Если часы совпали, приходит только утренний
  */
-async function getUserSettings(userId: number): Promise<{
-    digestEnabled: boolean;
-    digestHour: number;
-    notificationsEnabled: boolean;
-}> {
-    const db = getDb();
-
-    const stmt = db.prepare(`
-    SELECT digest_enabled, digest_hour, notifications_enabled
-    FROM settings
-    WHERE user_id = ?
-  `);
-
-    const row = stmt.get(userId) as any;
-
-    if (!row) {
-        // Возвращаем настройки по умолчанию
-        return {
-            digestEnabled: true,
-            digestHour: 9,
-            notificationsEnabled: true,
-        };
+function getDueDigestType(settings: UserSettings, localHour: number): 'morning' | 'evening' | null {
+    if (localHour === settings.digestHour) {
+        return 'morning';
     }
 
-    return {
-        digestEnabled: Boolean(row.digest_enabled),
-        digestHour: row.digest_hour,
-        notificationsEnabled: Boolean(row.notifications_enabled),
-    };
+    if (localHour === settings.eveningDigestHour) {
+        return 'evening';
+    }
+
+    return null;
+}
+
+/**
+ * Личный дайджест сотрудника
+ * Пустой не отправляем; возвращает, было ли сообщение
+ */
+async function sendEmployeeDigest(user: User): Promise<boolean> {
+    try {
+        const t = getTexts(user.language);
+        const texts = t.notifications.digest.employee;
+        const digest = getEmployeeDigest(user.telegramId, user.timezone);
+
+        const sections: Array<[Task[], (count: number) => string]> = [
+            [digest.today, texts.today],
+            [digest.overdue, texts.overdue],
+            [digest.inReview, texts.inReview],
+            [digest.completedYesterday, texts.completedYesterday],
+        ];
+
+        const lines = [texts.title, ''];
+
+        for (const [tasks, title] of sections) {
+            if (tasks.length === 0) {
+                continue;
+            }
+
+            lines.push(formatTasksList(tasks.slice(0, 10), title(tasks.length), user.language, user.timezone));
+            lines.push('');
+        }
+
+        // Только заголовок — сегодня сказать нечего
+        if (lines.length === 2) {
+            return false;
+        }
+
+        await bot.telegram.sendMessage(user.telegramId, lines.join('\n').trim(), {
+            parse_mode: 'Markdown',
+        });
+
+        Log.info({ userId: user.telegramId }, 'Employee digest sent', {
+            today: digest.today.length,
+            overdue: digest.overdue.length,
+            inReview: digest.inReview.length,
+            completedYesterday: digest.completedYesterday.length,
+        });
+
+        return true;
+
+    } catch (error) {
+        Log.error({ userId: user.telegramId }, 'Failed to send employee digest', error);
+        return false;
+    }
 }
 
 /**
  * Отправка утреннего дайджеста
  */
-async function sendMorningDigest(userId: number): Promise<void> {
+async function sendMorningDigest(userId: number, scope: DigestScope = {}): Promise<void> {
     try {
         const user = usersRepo.getByTelegramId(userId);
         if (!user) return;
 
         const t = getTexts(user.language);
-        const today = dayjs().startOf('day');
-        const tomorrow = today.add(1, 'day');
-
-        // Получаем задачи на сегодня
-        const db = getDb();
-        const todayTasksStmt = db.prepare(`
-      SELECT * FROM tasks
-      WHERE (assigned_to = ? OR created_by = ?)
-        AND due_date >= ?
-        AND due_date < ?
-        AND status != ?
-      ORDER BY due_date ASC
-    `);
-
-        const todayTasksRows = todayTasksStmt.all(
-            userId,
-            userId,
-            today.toISOString(),
-            tomorrow.toISOString(),
-            TaskStatus.DONE
-        );
-
-        // Получаем просроченные задачи
-        const overdueTasksStmt = db.prepare(`
-      SELECT * FROM tasks
-      WHERE (assigned_to = ? OR created_by = ?)
-        AND due_date < ?
-        AND status != ?
-      ORDER BY due_date DESC
-    `);
-
-        const overdueTasksRows = overdueTasksStmt.all(
-            userId,
-            userId,
-            today.toISOString(),
-            TaskStatus.DONE
-        );
+
+        // Получаем задачи на сегодня и просроченные
+        const { today: todayTasks, overdue: overdueTasks } = getMorningDigest(userId, scope.boardId, user.timezone);
 
         // Формируем сообщение
         const lines = [
@@ -141,12 +152,15 @@ async function sendMorningDigest(userId: number): Promise<void> {
             '',
         ];
 
-        if (todayTasksRows.length > 0) {
-            lines.push(t.notifications.digest.tasksToday(todayTasksRows.length));
+        if (scope.title) {
+            lines.splice(1, 0, `🗂 ${scope.title}`);
+        }
+
+        if (todayTasks.length > 0) {
+            lines.push(t.notifications.digest.tasksToday(todayTasks.length));
             lines.push('');
 
-            for (const row of todayTasksRows.slice(0, 5)) {
-                const task = tasksRepo.mapRowToTask(row);
+            for (const task of todayTasks.slice(0, 5)) {
                 const statusEmoji = {
                     [TaskStatus.TODO]: '📋',
                     [TaskStatus.IN_PROGRESS]: '⚡',
@@ -156,24 +170,23 @@ async function sendMorningDigest(userId: number): Promise<void> {
                 lines.push(`${statusEmoji} ${task.title}`);
 
                 if (task.dueDate) {
-                    const time = dayjs(task.dueDate).format('HH:mm');
+                    const time = dayjs(task.dueDate).tz(user.timezone).format('HH:mm');
                     lines.push(`   ⏰ ${time}`);
                 }
             }
 
-            if (todayTasksRows.length > 5) {
-                lines.push(`   ... и ещё ${todayTasksRows.length - 5} задач`);
+            if (todayTasks.length > 5) {
+                lines.push(`   ... и ещё ${todayTasks.length - 5} задач`);
             }
         } else {
             lines.push('✅ На сегодня задач нет');
         }
 
-        if (overdueTasksRows.length > 0) {
+        if (overdueTasks.length > 0) {
             lines.push('');
-            lines.push(t.notifications.digest.tasksOverdue(overdueTasksRows.length));
+            lines.push(t.notifications.digest.tasksOverdue(overdueTasks.length));
 
-            for (const row of overdueTasksRows.slice(0, 3)) {
-                const task = tasksRepo.mapRowToTask(row);
+            for (const task of overdueTasks.slice(0, 3)) {
                 const daysOverdue = dayjs().diff(dayjs(task.dueDate), 'day');
                 lines.push(`🔴 ${task.title} (${daysOverdue} дн.)`);
             }
@@ -197,8 +210,8 @@ async function sendMorningDigest(userId: number): Promise<void> {
         });
 
         Log.info({ userId }, 'Morning digest sent', {
-            todayTasks: todayTasksRows.length,
-            overdueTasks: overdueTasksRows.length,
+            todayTasks: todayTasks.length,
+            overdueTasks: overdueTasks.length,
         });
 
     } catch (error) {
@@ -209,50 +222,15 @@ async function sendMorningDigest(userId: number): Promise<void> {
 /**
  * Отправка вечернего дайджеста
  */
-async function sendEveningDigest(userId: number): Promise<void> {
+async function sendEveningDigest(userId: number, scope: DigestScope = {}): Promise<void> {
     try {
         const user = usersRepo.getByTelegramId(userId);
         if (!user) return;
 
         const t = getTexts(user.language);
-        const today = dayjs().startOf('day');
-        const tomorrow = today.add(1, 'day');
-
-        // Получаем выполненные сегодня задачи
-        const db = getDb();
-        const completedStmt = db.prepare(`
-      SELECT COUNT(*) as count FROM tasks
-      WHERE (assigned_to = ? OR created_by = ?)
-        AND status = ?
-        AND updated_at >= ?
-        AND updated_at < ?
-    `);
-
-        const completed = completedStmt.get(
-            userId,
-            userId,
-            TaskStatus.DONE,
-            today.toISOString(),
-            tomorrow.toISOString()
-        ) as { count: number };
-
-        // Получаем задачи на завтра
-        const tomorrowTasksStmt = db.prepare(`
-      SELECT * FROM tasks
-      WHERE (assigned_to = ? OR created_by = ?)
-        AND due_date >= ?
-        AND due_date < ?
-        AND status != ?
-      ORDER BY due_date ASC
-    `);
-
-        const tomorrowTasksRows = tomorrowTasksStmt.all(
-            userId,
-            userId,
-            tomorrow.toISOString(),
-            tomorrow.add(1, 'day').toISOString(),
-            TaskStatus.DONE
-        );
+
+        // Итоги дня и задачи на завтра
+        const digest = getEveningDigest(userId, scope.boardId, user.timezone);
 
         // Формируем сообщение
         const lines = [
@@ -260,28 +238,24 @@ async function sendEveningDigest(userId: number): Promise<void> {
             '',
         ];
 
-        if (completed.count > 0) {
-            lines.push(t.notifications.digest.tasksCompleted(completed.count));
+        if (scope.title) {
+            lines.splice(1, 0, `🗂 ${scope.title}`);
+        }
+
+        if (digest.completed > 0) {
+            lines.push(t.notifications.digest.tasksCompleted(digest.completed));
             lines.push('');
         }
 
-        if (tomorrowTasksRows.length > 0) {
+        if (digest.tomorrow.length > 0) {
             lines.push('📅 **Задачи на завтра:**');
 
-            for (const row of tomorrowTasksRows.slice(0, 5)) {
-                const task = tasksRepo.mapRowToTask(row);
-                const priorityEmoji = {
-                    'низкий': '🟢',
-                    'средний': '🟡',
-                    'высокий': '🟠',
-                    'критический': '🔴',
-                }[task.priority] || '';
-
-                lines.push(`• ${task.title} ${priorityEmoji}`);
+            for (const task of digest.tomorrow.slice(0, 5)) {
+                lines.push(`• ${task.title} ${formatPriorityEmoji(task.priority)}`);
             }
 
-            if (tomorrowTasksRows.length > 5) {
-                lines.push(`• ... и ещё ${tomorrowTasksRows.length - 5} задач`);
+            if (digest.tomorrow.length > 5) {
+                lines.push(`• ... и ещё ${digest.tomorrow.length - 5} задач`);
             }
         } else {
             lines.push('✨ На завтра задач пока нет');
@@ -289,15 +263,15 @@ async function sendEveningDigest(userId: number): Promise<void> {
 
         // Добавляем итоги дня
         lines.push('');
-        lines.push(getDailySummary(userId, user.language));
+        lines.push(formatDailySummary(digest, user.language));
 
         await bot.telegram.sendMessage(userId, lines.join('\n'), {
             parse_mode: 'Markdown',
         });
 
         Log.info({ userId }, 'Evening digest sent', {
-            completed: completed.count,
-            tomorrowTasks: tomorrowTasksRows.length,
+            completed: digest.completed,
+            tomorrowTasks: digest.tomorrow.length,
         });
 
     } catch (error) {
@@ -331,37 +305,21 @@ function getMotivationalQuote(lang: 'ru' | 'uz'): string {
 }
 
 /**
- * Получение итогов дня
+ * Форматирование итогов дня
  */
-function getDailySummary(userId: number, lang: 'ru' | 'uz'): string {
-    const db = getDb();
-    const today = dayjs().startOf('day');
-    const tomorrow = today.add(1, 'day');
-
-    // Считаем статистику за день
-    const stats = db.prepare(`
-    SELECT 
-      COUNT(CASE WHEN status = 'done' AND updated_at >= ? AND updated_at < ? THEN 1 END) as completed,
-      COUNT(CASE WHEN status = 'in_progress' THEN 1 END) as in_progress,
-      COUNT(CASE WHEN due_date < CURRENT_TIMESTAMP AND status != 'done' THEN 1 END) as overdue
-    FROM tasks
-    WHERE assigned_to = ? OR created_by = ?
-  `).get(
-        today.toISOString(),
-        tomorrow.toISOString(),
-        userId,
-        userId
-    ) as { completed: number; in_progress: number; overdue: number };
-
+function formatDailySummary(
+    stats: { completed: number; inProgress: number; overdue: number },
+    lang: 'ru' | 'uz'
+): string {
     if (lang === 'uz') {
         return `📊 **Kun natijalari:**
 • Bajarildi: ${stats.completed}
-• Jarayonda: ${stats.in_progress}
+• Jarayonda: ${stats.inProgress}
 ${stats.overdue > 0 ? `• Muddati oʻtgan: ${stats.overdue}` : ''}`;
     }
 
     return `📊 **Итоги дня:**
 • Выполнено: ${stats.completed}
-• В работе: ${stats.in_progress}
+• В работе: ${stats.inProgress}
 ${stats.overdue > 0 ? `• Просрочено: ${stats.overdue}` : ''}`;
 }
\ No newline at end of file
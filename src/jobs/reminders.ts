@@ -1,67 +1,53 @@
 import { Telegraf } from 'telegraf';
 import { tasksRepo } from '../data/repo/tasksRepo';
 import { usersRepo } from '../data/repo/usersRepo';
-import { getDb } from '../data/db';
+import { settingsRepo } from '../data/repo/settingsRepo';
+import { remindersRepo } from '../data/repo/remindersRepo';
 import { config } from '../config/env';
-import { REMINDER_WINDOWS } from '../config/constants';
-import { getTexts } from '../bot/replies';
+import { LIMITS } from '../config/constants';
+import { getTexts, keyboards, formatReminderOffset } from '../bot/replies';
+import { Task, TaskStatus } from '../interfaces/task';
+import { getTaskReminderOffsets, getReachedOffsets, reminderType } from '../usecases/tasks/reminderSchedule';
 import { formatDate } from '../utils/parse';
 import Log from '../utils/log';
 
 // Инициализация бота для отправки сообщений
 const bot = new Telegraf(config.telegram.workBotToken);
 
-/**
- * Интерфейс для записи о напоминании
- */
-interface ReminderRecord {
-    taskId: number;
-    userId: number;
-    type: '24h' | '6h' | '2h';
-    sentAt?: Date;
-}
-
 /**
  * Отправка напоминаний о приближающихся дедлайнах
+ * Интервалы у каждого получателя свои: задача -> настройки пользователя -> системные
  */
 export async function sendReminders(): Promise<void> {
     Log.job('reminders', 'Starting reminders check...');
 
     const now = new Date();
-    const db = getDb();
 
     try {
-        // Проверяем задачи для каждого окна напоминаний
-        for (const [type, hours] of Object.entries(REMINDER_WINDOWS)) {
-            const tasks = tasksRepo.getUpcomingDeadlines(hours);
+        // Сначала — отложенные напоминания, время которых пришло
+        await sendSnoozedReminders(now);
 
-            for (const task of tasks) {
-                // Пропускаем выполненные задачи
-                if (task.status === 'done') continue;
+        // Берём все задачи, которые могут попасть хотя бы в одно окно
+        const tasks = tasksRepo.getUpcomingDeadlines(LIMITS.MAX_REMINDER_OFFSET / 60);
 
-                // Проверяем, не отправляли ли уже напоминание
-                if (await wasReminderSent(task.plankaCardId!, type as any)) {
-                    continue;
-                }
-
-                // Определяем получателей (владелец и исполнитель)
-                const recipients = new Set<number>();
+        for (const task of tasks) {
+            if (!task.dueDate) continue;
 
-                // Добавляем создателя задачи
-                recipients.add(parseInt(task.createdBy));
+            for (const userId of getRecipients(task, now)) {
+                const reached = getReachedOffsets(getTaskReminderOffsets(task, userId), task.dueDate, now);
+                const offset = reached[0];
 
-                // Добавляем исполнителя, если назначен
-                if (task.assigneeId) {
-                    recipients.add(parseInt(task.assigneeId));
+                // Напоминаем только о ближайшем окне, если о нём ещё не напоминали
+                if (offset === undefined || remindersRepo.wasSent(task.plankaCardId!, userId, reminderType(offset))) {
+                    continue;
                 }
 
-                // Отправляем напоминания
-                for (const userId of recipients) {
-                    await sendReminderToUser(userId, task, type as any);
-                }
+                await sendReminderToUser(userId, task, offset);
 
-                // Помечаем напоминание как отправленное
-                await markReminderSent(task.plankaCardId!, type as any);
+                // Более ранние окна считаем пройденными, чтобы не слать их вдогонку
+                for (const passed of reached) {
+                    remindersRepo.markSent(task.plankaCardId!, userId, reminderType(passed));
+                }
             }
         }
 
@@ -69,24 +55,17 @@ export async function sendReminders(): Promise<void> {
         const overdueTasks = tasksRepo.getOverdueTasks();
 
         for (const task of overdueTasks) {
-            // Отправляем напоминание раз в день о просрочке
-            const lastOverdueReminder = await getLastOverdueReminder(task.plankaCardId!);
-
-            if (!lastOverdueReminder ||
-                (now.getTime() - lastOverdueReminder.getTime()) > 24 * 60 * 60 * 1000) {
-
-                const recipients = new Set<number>();
-                recipients.add(parseInt(task.createdBy));
-
-                if (task.assigneeId) {
-                    recipients.add(parseInt(task.assigneeId));
-                }
+            for (const userId of getRecipients(task, now)) {
+                // Напоминание о просрочке — не чаще раза в сутки
+                const lastOverdueReminder = remindersRepo.getLastSent(task.plankaCardId!, userId, 'overdue');
 
-                for (const userId of recipients) {
-                    await sendOverdueReminderToUser(userId, task);
+                if (lastOverdueReminder &&
+                    (now.getTime() - lastOverdueReminder.getTime()) <= 24 * 60 * 60 * 1000) {
+                    continue;
                 }
 
-                await markOverdueReminderSent(task.plankaCardId!);
+                await sendOverdueReminderToUser(userId, task);
+                remindersRepo.markSent(task.plankaCardId!, userId, 'overdue');
             }
         }
 
@@ -98,83 +77,52 @@ export async function sendReminders(): Promise<void> {
 }
 
 /**
- * Проверка, было ли отправлено напоминание
+ * Повторные напоминания по истёкшим откладываниям
  */
-async function wasReminderSent(
-    taskId: string,
-    type: '24h' | '6h' | '2h'
-): Promise<boolean> {
-    const db = getDb();
-
-    const stmt = db.prepare(`
-    SELECT sent_at FROM reminders 
-    WHERE task_id = (SELECT id FROM tasks WHERE planka_card_id = ?)
-      AND type = ?
-      AND sent_at IS NOT NULL
-  `);
-
-    const row = stmt.get(taskId, type);
-    return !!row;
-}
+async function sendSnoozedReminders(now: Date): Promise<void> {
+    for (const { taskId, userId } of remindersRepo.getExpiredSnoozes(now)) {
+        remindersRepo.clearSnooze(taskId, userId);
 
-/**
- * Пометить напоминание как отправленное
- */
-async function markReminderSent(
-    taskId: string,
-    type: '24h' | '6h' | '2h'
-): Promise<void> {
-    const db = getDb();
-
-    const stmt = db.prepare(`
-    INSERT INTO reminders (task_id, user_id, type, sent_at)
-    SELECT t.id, t.created_by, ?, CURRENT_TIMESTAMP
-    FROM tasks t
-    WHERE t.planka_card_id = ?
-    ON CONFLICT(task_id, user_id, type) 
-    DO UPDATE SET sent_at = CURRENT_TIMESTAMP
-  `);
-
-    stmt.run(type, taskId);
-}
+        const task = tasksRepo.getByPlankaId(taskId);
 
-/**
- * Получить время последнего напоминания о просрочке
- */
-async function getLastOverdueReminder(taskId: string): Promise<Date | null> {
-    const db = getDb();
+        if (!task?.dueDate || task.status === TaskStatus.DONE) continue;
+        if (!settingsRepo.getOrDefault(userId).notificationsEnabled) continue;
 
-    const stmt = db.prepare(`
-    SELECT MAX(sent_at) as last_sent
-    FROM reminders 
-    WHERE task_id = (SELECT id FROM tasks WHERE planka_card_id = ?)
-      AND type = 'overdue'
-  `);
+        if (task.dueDate > now) {
+            const minutesLeft = Math.max(1, Math.round((task.dueDate.getTime() - now.getTime()) / 60000));
+            // Больше двух часов — округляем до часов, чтобы не писать "317 мин"
+            const left = minutesLeft > 120 ? Math.round(minutesLeft / 60) * 60 : minutesLeft;
 
-    const row = stmt.get(taskId) as { last_sent: string | null };
+            await sendReminderToUser(userId, task, left);
 
-    if (row?.last_sent) {
-        return new Date(row.last_sent);
+            // Окна, пройденные за время откладывания, не досылаем
+            for (const passed of getReachedOffsets(getTaskReminderOffsets(task, userId), task.dueDate, now)) {
+                remindersRepo.markSent(taskId, userId, reminderType(passed));
+            }
+        } else {
+            await sendOverdueReminderToUser(userId, task);
+            remindersRepo.markSent(taskId, userId, 'overdue');
+        }
     }
-
-    return null;
 }
 
 /**
- * Пометить напоминание о просрочке как отправленное
+ * Получатели напоминаний: автор и исполнитель с включёнными уведомлениями,
+ * кроме тех, кто отложил напоминания по задаче
  */
-async function markOverdueReminderSent(taskId: string): Promise<void> {
-    const db = getDb();
-
-    // Используем специальный тип 'overdue' через обход типизации
-    const stmt = db.prepare(`
-    INSERT OR REPLACE INTO reminders (task_id, user_id, type, sent_at)
-    SELECT t.id, t.created_by, 'overdue', CURRENT_TIMESTAMP
-    FROM tasks t
-    WHERE t.planka_card_id = ?
-  `);
-
-    stmt.run(taskId);
+function getRecipients(task: Task, now: Date): number[] {
+    const recipients = new Set<number>();
+
+    recipients.add(parseInt(task.createdBy));
+
+    if (task.assigneeId) {
+        recipients.add(parseInt(task.assigneeId));
+    }
+
+    return [...recipients].filter(userId =>
+        settingsRepo.getOrDefault(userId).notificationsEnabled
+        && !remindersRepo.isSnoozed(task.plankaCardId!, userId, now)
+    );
 }
 
 /**
@@ -182,8 +130,8 @@ async function markOverdueReminderSent(taskId: string): Promise<void> {
  */
 async function sendReminderToUser(
     userId: number,
-    task: any,
-    type: '24h' | '6h' | '2h'
+    task: Task,
+    offset: number
 ): Promise<void> {
     try {
         const user = usersRepo.getByTelegramId(userId);
@@ -192,42 +140,32 @@ async function sendReminderToUser(
         const t = getTexts(user.language);
 
         let message = t.notifications.reminder.title + '\n\n';
-
-        switch (type) {
-            case '24h':
-                message += t.notifications.reminder.in24h(task.title);
-                break;
-            case '6h':
-                message += t.notifications.reminder.in6h(task.title);
-                break;
-            case '2h':
-                message += t.notifications.reminder.in2h(task.title);
-                break;
-        }
+        message += t.notifications.reminder.before(task.title, formatReminderOffset(offset, user.language));
 
         if (task.description) {
             message += '\n\n📝 ' + task.description.substring(0, 100);
         }
 
         if (task.dueDate) {
-            message += '\n📅 ' + formatDate(task.dueDate, 'long', user.language);
+            message += '\n📅 ' + formatDate(task.dueDate, 'long', user.language, user.timezone);
         }
 
-        // Добавляем кнопку для просмотра задачи
-        const keyboard = {
-            inline_keyboard: [[
-                { text: t.buttons.viewTask, callback_data: `view_task_${task.plankaCardId}` }
-            ]]
-        };
+        // Кнопки: отложить, сменить статус, попросить продление
+        const keyboard = keyboards.reminderActions(
+            task.plankaCardId!,
+            task.status,
+            user.language,
+            task.createdBy === String(userId)
+        );
 
         await bot.telegram.sendMessage(userId, message, {
             parse_mode: 'Markdown',
-            reply_markup: keyboard,
+            reply_markup: keyboard.reply_markup,
         });
 
         Log.info({ userId }, 'Reminder sent', {
             taskId: task.plankaCardId,
-            type,
+            type: reminderType(offset),
         });
 
     } catch (error) {
@@ -240,7 +178,7 @@ async function sendReminderToUser(
  */
 async function sendOverdueReminderToUser(
     userId: number,
-    task: any
+    task: Task
 ): Promise<void> {
     try {
         const user = usersRepo.getByTelegramId(userId);
@@ -248,27 +186,30 @@ async function sendOverdueReminderToUser(
 
         const t = getTexts(user.language);
 
-        let message = '🔴 **ВНИМАНИЕ!**\n\n';
+        let message = `${t.notifications.reminder.overdueTitle}\n\n`;
         message += t.notifications.reminder.overdue(task.title);
 
         if (task.dueDate) {
             const overdueDays = Math.floor(
                 (Date.now() - new Date(task.dueDate).getTime()) / (1000 * 60 * 60 * 24)
             );
-            message += `\n\n⏰ Просрочено на ${overdueDays} дней`;
+
+            // Меньше суток — только "дедлайн истёк", без "0 дней"
+            if (overdueDays > 0) {
+                message += `\n\n${t.notifications.reminder.overdueFor(overdueDays)}`;
+            }
         }
 
-        // Добавляем кнопки
-        const keyboard = {
-            inline_keyboard: [
-                [{ text: t.buttons.viewTask, callback_data: `view_task_${task.plankaCardId}` }],
-                [{ text: t.buttons.moveToDone, callback_data: `status_${task.plankaCardId}_done` }],
-            ]
-        };
+        const keyboard = keyboards.reminderActions(
+            task.plankaCardId!,
+            task.status,
+            user.language,
+            task.createdBy === String(userId)
+        );
 
         await bot.telegram.sendMessage(userId, message, {
             parse_mode: 'Markdown',
-            reply_markup: keyboard,
+            reply_markup: keyboard.reply_markup,
         });
 
         Log.info({ userId }, 'Overdue reminder sent', {
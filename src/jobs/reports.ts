@@ -0,0 +1,33 @@
+import { usersRepo } from '../data/repo/usersRepo';
+import { WEEKLY_REPORT } from '../config/constants';
+import { buildTeamReport, sendTeamReport } from '../usecases/tasks/teamReport';
+import Log from '../utils/log';
+import dayjs from '../utils/dayjs';
+
+/**
+ * Еженедельный отчёт по команде владельцам
+ * Джоб запускается каждый час, отчёт уходит в понедельник утром по времени владельца
+ */
+export async function sendWeeklyReports(now: Date = new Date()): Promise<void> {
+    Log.job('reports', 'Checking weekly reports...');
+
+    let sent = 0;
+
+    for (const owner of usersRepo.getOwners()) {
+        const local = dayjs(now).tz(owner.timezone);
+
+        if (local.day() !== WEEKLY_REPORT.WEEKDAY || local.hour() !== WEEKLY_REPORT.HOUR) {
+            continue;
+        }
+
+        try {
+            const report = buildTeamReport('week', owner.timezone, undefined, now);
+            await sendTeamReport(owner.telegramId, report, owner.language, owner.timezone);
+            sent++;
+        } catch (error) {
+            Log.error({ userId: owner.telegramId }, 'Failed to send weekly report', error);
+        }
+    }
+
+    Log.job('reports', 'Weekly reports checked', { sent });
+}
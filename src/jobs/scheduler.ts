@@ -1,8 +1,10 @@
 import * as cron from 'node-cron';
-import { JOB_INTERVALS, REMINDER_WINDOWS } from '../config/constants';
+import { JOB_INTERVALS } from '../config/constants';
 import { sendReminders } from './reminders';
 import { cleanupExpired } from './cleanup';
-import { sendDailyDigest } from './digest';
+import { sendDailyDigests } from './digest';
+import { sendWeeklyReports } from './reports';
+import { syncWithPlanka } from './sync';
 import Log from '../utils/log';
 
 /**
@@ -26,25 +28,25 @@ export function setupScheduledJobs(): void {
     });
     scheduledJobs.set('reminders', remindersJob);
 
-    // Утренний дайджест - в 9:00
-    const morningDigestJob = cron.schedule(JOB_INTERVALS.DIGEST_MORNING, async () => {
+    // Дайджесты - каждый час; утренний и вечерний уходят в часы, выбранные получателями
+    const digestJob = cron.schedule(JOB_INTERVALS.DIGEST, async () => {
         try {
-            await sendDailyDigest('morning');
+            await sendDailyDigests();
         } catch (error) {
-            Log.error({ job: 'morning_digest' }, 'Morning digest job failed', error);
+            Log.error({ job: 'digest' }, 'Digest job failed', error);
         }
     });
-    scheduledJobs.set('morning_digest', morningDigestJob);
+    scheduledJobs.set('digest', digestJob);
 
-    // Вечерний дайджест - в 18:00
-    const eveningDigestJob = cron.schedule(JOB_INTERVALS.DIGEST_EVENING, async () => {
+    // Отчёт по команде - каждый час; владельцам уходит в понедельник утром по их времени
+    const reportsJob = cron.schedule(JOB_INTERVALS.WEEKLY_REPORT, async () => {
         try {
-            await sendDailyDigest('evening');
+            await sendWeeklyReports();
         } catch (error) {
-            Log.error({ job: 'evening_digest' }, 'Evening digest job failed', error);
+            Log.error({ job: 'reports' }, 'Weekly reports job failed', error);
         }
     });
-    scheduledJobs.set('evening_digest', eveningDigestJob);
+    scheduledJobs.set('reports', reportsJob);
 
     // Очистка мусора - каждый день в 3:00
     const cleanupJob = cron.schedule(JOB_INTERVALS.CLEANUP, async () => {
@@ -56,6 +58,16 @@ export function setupScheduledJobs(): void {
     });
     scheduledJobs.set('cleanup', cleanupJob);
 
+    // Синхронизация с Planka - каждые 30 минут
+    const syncJob = cron.schedule(JOB_INTERVALS.SYNC, async () => {
+        try {
+            await syncWithPlanka();
+        } catch (error) {
+            Log.error({ job: 'sync' }, 'Sync job failed', error);
+        }
+    });
+    scheduledJobs.set('sync', syncJob);
+
     Log.job('scheduler', 'Scheduled jobs started', {
         jobs: Array.from(scheduledJobs.keys()),
     });
@@ -0,0 +1,28 @@
+import { reconcileBoard } from '../usecases/tasks/syncFromPlanka';
+import { getTrackedBoardIds } from '../usecases/workspaces/resolveWorkspace';
+import Log from '../utils/log';
+
+/**
+ * Периодическая сверка досок Planka с локальной БД
+ * Каждая доска сверяется отдельно: ошибка одной не мешает остальным
+ */
+export async function syncWithPlanka(): Promise<void> {
+    Log.job('sync', 'Starting Planka sync...');
+
+    for (const boardId of getTrackedBoardIds()) {
+        const startedAt = Date.now();
+
+        try {
+            const report = await reconcileBoard(boardId);
+
+            Log.job('sync', 'Planka sync completed', {
+                boardId,
+                ...report,
+                durationMs: Date.now() - startedAt,
+            });
+
+        } catch (error) {
+            Log.error({ job: 'sync' }, 'Failed to sync with Planka', error, { boardId });
+        }
+    }
+}
@@ -0,0 +1,191 @@
+import { InlineKeyboardMarkup } from 'telegraf/types';
+import { nanoid } from 'nanoid';
+import { convRepo, contextHelpers } from '../../data/repo/convRepo';
+import { LIMITS } from '../../config/constants';
+import Log from '../../utils/log';
+
+/**
+ * Сессия мастера: состояние шагов плюс служебные поля
+ * Хранится в conversations (личный чат пользователя) и переживает перезапуск бота
+ */
+export type WizardSession<TState extends { step: string }> = TState & {
+    sessionId: string;
+    userId: number;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+/**
+ * Сообщение, которым мастер продолжается после перезапуска
+ */
+export interface WizardPrompt {
+    text: string;
+    parse_mode?: 'Markdown' | 'HTML';
+    reply_markup?: InlineKeyboardMarkup;
+}
+
+/**
+ * Описание мастера: имя (ключ в контексте диалога) и шаги
+ * resume шага — напоминание пользователю после перезапуска; нет или null — молча ждём ввода
+ */
+export interface WizardDefinition<TState extends { step: string }> {
+    name: string;
+    steps: Record<TState['step'], {
+        resume?: (session: WizardSession<TState>) => WizardPrompt | null;
+    }>;
+}
+
+/**
+ * Мастер с сохранением сессий; одна активная сессия на пользователя
+ * Сессия истекает через LIMITS.SESSION_TTL_MINUTES без действий
+ */
+export function defineWizard<TState extends { step: string }>(definition: WizardDefinition<TState>) {
+    const key = `wizard:${definition.name}`;
+    const ttl = LIMITS.SESSION_TTL_MINUTES * 60 * 1000;
+
+    const isExpired = (session: WizardSession<TState>, now: Date) =>
+        now.getTime() - session.updatedAt.getTime() > ttl;
+
+    return {
+        name: definition.name,
+
+        /**
+         * Новая сессия (предыдущая, если была, заменяется)
+         */
+        start(userId: number, state: TState): WizardSession<TState> {
+            const now = new Date();
+            const session: WizardSession<TState> = {
+                ...state,
+                sessionId: nanoid(10),
+                userId,
+                createdAt: now,
+                updatedAt: now,
+            };
+
+            contextHelpers.addToContext(userId, userId, key, session);
+
+            Log.info({ userId }, 'Wizard started', { wizard: definition.name, sessionId: session.sessionId });
+
+            return session;
+        },
+
+        /**
+         * Активная сессия пользователя; истёкшая удаляется
+         */
+        get(userId: number, now: Date = new Date()): WizardSession<TState> | null {
+            const stored = contextHelpers.getFromContext(userId, userId, key);
+
+            if (!stored) {
+                return null;
+            }
+
+            const session = reviveDates(stored) as WizardSession<TState>;
+
+            if (isExpired(session, now)) {
+                contextHelpers.removeFromContext(userId, userId, key);
+                Log.info({ userId }, 'Wizard session expired', { wizard: definition.name, sessionId: session.sessionId });
+                return null;
+            }
+
+            return session;
+        },
+
+        /**
+         * Есть ли у пользователя активная сессия
+         */
+        has(userId: number): boolean {
+            return this.get(userId) !== null;
+        },
+
+        /**
+         * Сохранение изменённой сессии (после смены шага или данных)
+         */
+        save(session: WizardSession<TState>): void {
+            session.updatedAt = new Date();
+            contextHelpers.addToContext(session.userId, session.userId, key, session);
+        },
+
+        /**
+         * Завершение или отмена мастера
+         */
+        clear(userId: number): void {
+            contextHelpers.removeFromContext(userId, userId, key);
+        },
+
+        /**
+         * Все активные сессии мастера
+         */
+        getActive(now: Date = new Date()): Array<WizardSession<TState>> {
+            return convRepo.getUpdatedSince(new Date(now.getTime() - ttl))
+                .filter(conversation => conversation.context?.[key])
+                .map(conversation => this.get(conversation.userId, now))
+                .filter((session): session is WizardSession<TState> => session !== null);
+        },
+
+        /**
+         * Напоминание для продолжения сессии с текущего шага
+         */
+        getResumePrompt(session: WizardSession<TState>): WizardPrompt | null {
+            const step = definition.steps[session.step as TState['step']];
+            return step?.resume?.(session) ?? null;
+        },
+    };
+}
+
+export type Wizard<TState extends { step: string }> = ReturnType<typeof defineWizard<TState>>;
+
+/**
+ * Напоминания о незавершённых мастерах после перезапуска бота
+ * Возвращает количество отправленных сообщений
+ */
+export async function resumeWizards(
+    wizards: Array<Wizard<any>>,
+    send: (userId: number, prompt: WizardPrompt) => Promise<unknown>
+): Promise<number> {
+    let resumed = 0;
+
+    for (const wizard of wizards) {
+        for (const session of wizard.getActive()) {
+            try {
+                const prompt = wizard.getResumePrompt(session);
+
+                if (!prompt) {
+                    continue;
+                }
+
+                await send(session.userId, prompt);
+                resumed++;
+            } catch (error) {
+                Log.warn({ userId: session.userId }, 'Failed to resume wizard', {
+                    wizard: wizard.name,
+                    sessionId: session.sessionId,
+                });
+            }
+        }
+    }
+
+    if (resumed > 0) {
+        Log.info({}, 'Wizards resumed after restart', { resumed });
+    }
+
+    return resumed;
+}
+
+/**
+ * Даты в JSON хранятся строками ISO — возвращаем им тип Date
+ */
+function reviveDates(value: any): any {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value)) {
+        return new Date(value);
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(reviveDates);
+    }
+
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, reviveDates(v)]));
+    }
+
+    return value;
+}
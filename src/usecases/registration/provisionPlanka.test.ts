@@ -0,0 +1,80 @@
+import { config } from '../../config/env';
+import { initDatabase, closeDatabase } from '../../data/db';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { plankaClient } from '../../clients/planka';
+import { telegramClient } from '../../clients/telegram';
+import { PlankaUser } from '../../interfaces/planka';
+import { UserRole } from '../../interfaces/user';
+import { repairPlankaUsers, getUnprovisionedUsers } from './provisionPlanka';
+
+const ADMIN_ID = 1;
+const EMPLOYEE_ID = 2;
+
+const PLANKA_USER: PlankaUser = {
+    id: 'planka-2',
+    email: 'ali@example.com',
+    isAdmin: false,
+    subscribeToOwnCards: false,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+let updatePassword: jest.SpyInstance;
+let sendMessage: jest.SpyInstance;
+
+beforeEach(() => {
+    config.database.path = ':memory:';
+    config.planka.boardId = 'board-main';
+    initDatabase();
+    usersRepo.create({ telegramId: ADMIN_ID, role: UserRole.ADMIN });
+    usersRepo.create({
+        telegramId: EMPLOYEE_ID,
+        username: 'ali',
+        email: PLANKA_USER.email,
+        role: UserRole.EMPLOYEE,
+    });
+
+    jest.spyOn(plankaClient, 'findUserByEmail').mockResolvedValue(PLANKA_USER);
+    jest.spyOn(plankaClient, 'createUser').mockResolvedValue(PLANKA_USER);
+    jest.spyOn(plankaClient, 'addBoardMember').mockResolvedValue();
+    updatePassword = jest.spyOn(plankaClient, 'updateUserPassword').mockResolvedValue();
+    sendMessage = jest.spyOn(telegramClient, 'sendRegistrationMessage').mockResolvedValue({});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    closeDatabase();
+});
+
+describe('repairPlankaUsers', () => {
+    it('links an existing account without touching its password', async () => {
+        const { repaired } = await repairPlankaUsers(ADMIN_ID, 'ali');
+
+        expect(repaired).toEqual([expect.objectContaining({ status: 'linked', credentialsSent: false })]);
+        expect(updatePassword).not.toHaveBeenCalled();
+        expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('resets the password of an existing account on request', async () => {
+        const { repaired } = await repairPlankaUsers(ADMIN_ID, 'ali', { resetPassword: true });
+
+        expect(repaired).toEqual([expect.objectContaining({ status: 'linked', credentialsSent: true })]);
+        expect(updatePassword).toHaveBeenCalledWith(PLANKA_USER.id, expect.any(String));
+    });
+
+    it('issues a new password when the one the bot created was not delivered', async () => {
+        jest.spyOn(plankaClient, 'findUserByEmail').mockResolvedValueOnce(null);
+        sendMessage.mockRejectedValueOnce(new Error('Forbidden: bot was blocked by the user'));
+
+        const first = await repairPlankaUsers(ADMIN_ID);
+
+        expect(first.repaired).toEqual([expect.objectContaining({ status: 'created', credentialsSent: false })]);
+        expect(getUnprovisionedUsers().map(user => user.telegramId)).toEqual([EMPLOYEE_ID]);
+
+        const second = await repairPlankaUsers(ADMIN_ID);
+
+        expect(second.repaired).toEqual([expect.objectContaining({ status: 'linked', credentialsSent: true })]);
+        expect(updatePassword).toHaveBeenCalledTimes(1);
+        expect(getUnprovisionedUsers()).toEqual([]);
+    });
+});
@@ -0,0 +1,248 @@
+import crypto from 'crypto';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { plankaClient } from '../../clients/planka';
+import { telegramClient } from '../../clients/telegram';
+import { getText } from '../../bot/replies';
+import { config } from '../../config/env';
+import { User, UserRole } from '../../interfaces/user';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import Log from '../../utils/log';
+
+/**
+ * Результат подключения пользователя к Planka
+ * created — аккаунт создан ботом, linked — найден существующий по email
+ */
+export interface PlankaProvisionResult {
+    user: User;
+    status: 'created' | 'linked';
+    credentialsSent: boolean;
+}
+
+/**
+ * Подключение пользователя к Planka: поиск или создание аккаунта,
+ * добавление в участники доски и отправка пароля в регистрационный бот
+ * Найденному аккаунту новый пароль задаётся только при resetPassword
+ * или если выданный ботом пароль не был доставлен
+ */
+export async function provisionPlankaUser(
+    telegramId: number,
+    options: { resetPassword?: boolean } = {}
+): Promise<PlankaProvisionResult> {
+    const user = usersRepo.getByTelegramId(telegramId);
+
+    if (!user) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'User not found'
+        );
+    }
+
+    if (!user.email) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'User has no email for Planka account',
+            { telegramId }
+        );
+    }
+
+    let plankaUser = await plankaClient.findUserByEmail(user.email);
+    let status: PlankaProvisionResult['status'] = 'linked';
+    let credentialsSent = false;
+    let passwordIssued = false;
+
+    if (!plankaUser) {
+        const password = generatePassword();
+
+        plankaUser = await plankaClient.createUser({
+            email: user.email,
+            password,
+            name: user.fullName || user.username || user.email.split('@')[0]!,
+        });
+        status = 'created';
+        passwordIssued = true;
+
+        // Пароль отправляем сразу: повторно его уже не получить
+        credentialsSent = await sendCredentials(
+            user,
+            getText(user.language).registration.plankaCredentials(getPlankaUrl(), user.email, password)
+        );
+    } else if (options.resetPassword || user.plankaCredentialsPending) {
+        const password = generatePassword();
+
+        await plankaClient.updateUserPassword(plankaUser.id, password);
+        passwordIssued = true;
+
+        credentialsSent = await sendCredentials(
+            user,
+            getText(user.language).registration.plankaPasswordReset(getPlankaUrl(), user.email, password)
+        );
+    }
+
+    // Недоставленный пароль запоминаем сразу: подключение ниже ещё может упасть
+    if (passwordIssued) {
+        usersRepo.update({ telegramId, plankaCredentialsPending: !credentialsSent });
+    }
+
+    // В Planka доступ к доске даёт членство в доске, а не в проекте
+    if (config.planka.boardId) {
+        await plankaClient.addBoardMember(plankaUser.id);
+    } else {
+        Log.warn({ userId: telegramId }, 'PLANKA_BOARD_ID is not set, board membership skipped');
+    }
+
+    // plankaUserId сохраняем последним: без него пользователь попадёт в /planka_repair
+    const updatedUser = usersRepo.update({
+        telegramId,
+        plankaUserId: plankaUser.id,
+    });
+
+    if (!updatedUser) {
+        throw new AppError(
+            ErrorCodes.DB_ERROR,
+            'Failed to save Planka user id'
+        );
+    }
+
+    Log.info(
+        { userId: telegramId },
+        'Planka user provisioned',
+        { plankaUserId: plankaUser.id, status, credentialsSent }
+    );
+
+    return { user: updatedUser, status, credentialsSent };
+}
+
+/**
+ * Пользователи с email, у которых подключение не удалось
+ * или выданный ботом пароль Planka не был доставлен
+ */
+export function getUnprovisionedUsers(): User[] {
+    return usersRepo.getAll().filter(user => user.email && (!user.plankaUserId || user.plankaCredentialsPending));
+}
+
+/**
+ * Повторное подключение к Planka (для админов)
+ * Без username — для всех пользователей, у которых подключение не удалось
+ * Пароль существующего аккаунта сбрасывается только при resetPassword
+ * (недоставленный пароль бот выдаёт заново сам)
+ */
+export async function repairPlankaUsers(
+    requestedBy: number,
+    username?: string,
+    options: { resetPassword?: boolean } = {}
+): Promise<{
+    repaired: PlankaProvisionResult[];
+    failed: Array<{ user: User; error: string }>;
+}> {
+    const requester = usersRepo.getByTelegramId(requestedBy);
+
+    if (!requester) {
+        throw new AppError(
+            ErrorCodes.UNAUTHORIZED,
+            'User not found'
+        );
+    }
+
+    if (requester.role !== UserRole.ADMIN) {
+        throw new AppError(
+            ErrorCodes.FORBIDDEN,
+            'Only admins can repair Planka accounts'
+        );
+    }
+
+    let targets: User[];
+
+    if (username) {
+        const target = usersRepo.getAll().find(user => user.username === username);
+
+        if (!target) {
+            throw new AppError(
+                ErrorCodes.NOT_FOUND,
+                'User not found',
+                { username }
+            );
+        }
+
+        targets = [target];
+    } else {
+        targets = getUnprovisionedUsers();
+    }
+
+    const repaired: PlankaProvisionResult[] = [];
+    const failed: Array<{ user: User; error: string }> = [];
+
+    for (const target of targets) {
+        try {
+            repaired.push(await provisionPlankaUser(target.telegramId, options));
+        } catch (error) {
+            Log.error({ userId: requestedBy }, 'Planka repair failed', error, {
+                targetId: target.telegramId,
+            });
+            failed.push({
+                user: target,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    Log.info(
+        { userId: requestedBy },
+        'Planka repair finished',
+        { total: targets.length, repaired: repaired.length, failed: failed.length }
+    );
+
+    return { repaired, failed };
+}
+
+/**
+ * Адрес Planka для входа (без /api)
+ */
+function getPlankaUrl(): string {
+    return config.planka.baseUrl.replace(/\/api\/?$/, '');
+}
+
+/**
+ * Отправка данных для входа в личные сообщения регистрационного бота
+ */
+async function sendCredentials(user: User, message: string): Promise<boolean> {
+    try {
+        await telegramClient.sendRegistrationMessage(
+            user.telegramId,
+            message,
+            { parse_mode: 'Markdown' }
+        );
+        return true;
+    } catch (error) {
+        // Пароль не логируем — пользователю останется сброс пароля в Planka
+        Log.error({ userId: user.telegramId }, 'Failed to deliver Planka credentials', error);
+        return false;
+    }
+}
+
+/**
+ * Генерация пароля для Planka
+ */
+function generatePassword(length: number = 12): string {
+    const letters = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+    const numbers = '0123456789';
+    const special = '!@#$%^&*';
+    const charset = letters + numbers + special;
+
+    const pick = (chars: string) => chars.charAt(crypto.randomInt(chars.length));
+
+    // Обеспечиваем наличие разных типов символов
+    const password = [pick(letters), pick(numbers), pick(special)];
+
+    // Заполняем остальные позиции
+    while (password.length < length) {
+        password.push(pick(charset));
+    }
+
+    // Перемешиваем (Фишер–Йетс)
+    for (let i = password.length - 1; i > 0; i--) {
+        const j = crypto.randomInt(i + 1);
+        [password[i], password[j]] = [password[j]!, password[i]!];
+    }
+
+    return password.join('');
+}
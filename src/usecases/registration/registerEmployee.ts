@@ -1,10 +1,10 @@
 import { invitesRepo } from '../../data/repo/invitesRepo';
 import { usersRepo } from '../../data/repo/usersRepo';
-import { plankaClient } from '../../clients/planka';
 import { User, UserRole, Language } from '../../interfaces/user';
 import { AppError, ErrorCodes } from '../../utils/errors';
 import { assertValidEmail, assertNotEmpty } from '../../utils/guard';
 import { detectLanguage } from '../../utils/lang';
+import { provisionPlankaUser, PlankaProvisionResult } from './provisionPlanka';
 import Log from '../../utils/log';
 
 /**
@@ -20,10 +20,6 @@ export async function registerEmployee(
 ): Promise<{
     user: User;
     needsEmail: boolean;
-    plankaCredentials?: {
-        email: string;
-        password: string;
-    };
 }> {
     Log.info(
         { userId: telegramId },
@@ -105,7 +101,8 @@ export async function registerEmployee(
 }
 
 /**
- * Завершение регистрации - добавление email и создание в Planka
+ * Завершение регистрации - добавление email и подключение к Planka
+ * Ошибка Planka не прерывает регистрацию: её можно повторить через /planka_repair
  */
 export async function completeRegistration(
     telegramId: number,
@@ -113,10 +110,8 @@ export async function completeRegistration(
     createInPlanka: boolean = true
 ): Promise<{
     user: User;
-    plankaCredentials?: {
-        email: string;
-        password: string;
-    };
+    planka: PlankaProvisionResult['status'] | 'failed' | 'skipped';
+    credentialsSent: boolean;
 }> {
     assertNotEmpty(email, 'Email');
     assertValidEmail(email);
@@ -140,63 +135,27 @@ export async function completeRegistration(
         );
     }
 
-    let plankaCredentials;
+    usersRepo.update({
+        telegramId,
+        email,
+    });
 
-    if (createInPlanka) {
-        // Проверяем, есть ли уже пользователь в Planka
-        let plankaUser = await plankaClient.findUserByEmail(email);
-
-        if (!plankaUser) {
-            // Создаём пользователя в Planka
-            const password = generatePassword();
-
-            try {
-                // Этот метод нужно добавить в plankaClient
-                // plankaUser = await plankaClient.createUser({
-                //   email,
-                //   password,
-                //   name: user.fullName || user.username || email.split('@')[0],
-                // });
-
-                plankaCredentials = {
-                    email,
-                    password,
-                };
-
-                Log.info(
-                    { userId: telegramId },
-                    'Planka user created',
-                    { email }
-                );
-            } catch (error) {
-                Log.error(
-                    { userId: telegramId },
-                    'Failed to create Planka user',
-                    error
-                );
-                // Продолжаем регистрацию даже если не удалось создать в Planka
-            }
-        }
+    let planka: PlankaProvisionResult['status'] | 'failed' | 'skipped' = 'skipped';
+    let credentialsSent = false;
 
-        // Обновляем пользователя с Planka ID
-        if (plankaUser) {
-            usersRepo.update({
-                telegramId,
-                email,
-                plankaUserId: plankaUser.id,
-            });
-        } else {
-            usersRepo.update({
-                telegramId,
-                email,
-            });
+    if (createInPlanka) {
+        try {
+            const result = await provisionPlankaUser(telegramId);
+            planka = result.status;
+            credentialsSent = result.credentialsSent;
+        } catch (error) {
+            Log.error(
+                { userId: telegramId },
+                'Failed to provision Planka user',
+                error
+            );
+            planka = 'failed';
         }
-    } else {
-        // Просто сохраняем email
-        usersRepo.update({
-            telegramId,
-            email,
-        });
     }
 
     const updatedUser = usersRepo.getByTelegramId(telegramId)!;
@@ -204,12 +163,13 @@ export async function completeRegistration(
     Log.info(
         { userId: telegramId },
         'Registration completed',
-        { email, hasPlanka: !!updatedUser.plankaUserId }
+        { email, planka }
     );
 
     return {
         user: updatedUser,
-        plankaCredentials,
+        planka,
+        credentialsSent,
     };
 }
 
@@ -400,28 +360,3 @@ function detectLanguageFromCode(languageCode?: string): Language | null {
 
     return null;
 }
-
-/**
- * Генерация пароля для Planka
- */
-function generatePassword(length: number = 12): string {
-    const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
-    let password = '';
-
-    // Обеспечиваем наличие разных типов символов
-    const letters = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    const numbers = '0123456789';
-    const special = '!@#$%^&*';
-
-    password += letters.charAt(Math.floor(Math.random() * letters.length));
-    password += numbers.charAt(Math.floor(Math.random() * numbers.length));
-    password += special.charAt(Math.floor(Math.random() * special.length));
-
-    // Заполняем остальные позиции
-    for (let i = 3; i < length; i++) {
-        password += charset.charAt(Math.floor(Math.random() * charset.length));
-    }
-
-    // Перемешиваем
-    return password.split('').sort(() => Math.random() - 0.5).join('');
-}
\ No newline at end of file
@@ -0,0 +1,110 @@
+import dayjs from '../../utils/dayjs';
+import { User } from '../../interfaces/user';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { config } from '../../config/env';
+import { TIMEZONE_CHOICES } from '../../config/constants';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import { isValidTimezone } from '../../utils/parse';
+import Log from '../../utils/log';
+
+/**
+ * Часовой пояс из ввода пользователя: название IANA ("Europe/Moscow", "Moscow")
+ * или текущее местное время ("14:30"), по которому определяется смещение
+ */
+export function resolveTimezone(input: string, now: Date = new Date()): string {
+    const text = input.trim();
+    const localTime = text.match(/^(\d{1,2})[:.](\d{2})$/);
+
+    if (localTime) {
+        return detectTimezoneByLocalTime(parseInt(localTime[1]!, 10), parseInt(localTime[2]!, 10), now);
+    }
+
+    const timeZone = findTimezoneName(text);
+
+    if (!timeZone) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Unknown timezone',
+            { input: text }
+        );
+    }
+
+    return timeZone;
+}
+
+/**
+ * Определение часового пояса по местному времени пользователя
+ * Смещение округляется до 15 минут; сначала проверяем пояс по умолчанию и частые варианты
+ */
+export function detectTimezoneByLocalTime(hours: number, minutes: number, now: Date = new Date()): string {
+    if (hours > 23 || minutes > 59) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Invalid local time',
+            { hours, minutes }
+        );
+    }
+
+    let offset = hours * 60 + minutes - (now.getUTCHours() * 60 + now.getUTCMinutes());
+
+    // У пользователя может быть уже другая дата: смещения лежат в пределах UTC-12..UTC+14
+    if (offset > 14 * 60) offset -= 24 * 60;
+    if (offset < -12 * 60) offset += 24 * 60;
+
+    const rounded = Math.round(offset / 15) * 15;
+    const candidates = [config.timezone.default, ...TIMEZONE_CHOICES, ...Intl.supportedValuesOf('timeZone')];
+    const timeZone = candidates.find(candidate => dayjs(now).tz(candidate).utcOffset() === rounded);
+
+    if (!timeZone) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Timezone not detected',
+            { offset: rounded }
+        );
+    }
+
+    return timeZone;
+}
+
+/**
+ * Сохранение часового пояса пользователя
+ */
+export function setUserTimezone(telegramId: number, timeZone: string): User {
+    if (!isValidTimezone(timeZone)) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Unknown timezone',
+            { timeZone }
+        );
+    }
+
+    const user = usersRepo.update({ telegramId, timezone: timeZone });
+
+    if (!user) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'User not found',
+            { telegramId }
+        );
+    }
+
+    Log.info({ userId: telegramId }, 'User timezone updated', { timeZone });
+
+    return user;
+}
+
+/**
+ * Каноническое название пояса; только город ("tashkent") дополняется регионом
+ */
+function findTimezoneName(text: string): string | null {
+    const name = text.replace(/\s+/g, '_');
+
+    if (isValidTimezone(name)) {
+        return new Intl.DateTimeFormat('en-US', { timeZone: name }).resolvedOptions().timeZone;
+    }
+
+    const city = name.toLowerCase();
+
+    return Intl.supportedValuesOf('timeZone')
+        .find(timeZone => timeZone.split('/').pop()!.toLowerCase() === city) ?? null;
+}
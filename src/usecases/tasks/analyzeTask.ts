@@ -0,0 +1,146 @@
+import { TaskDraft, TaskDraftField } from '../../interfaces/task';
+import { User, UserRole } from '../../interfaces/user';
+import { geminiClient } from '../../clients/gemini';
+import { plankaClient } from '../../clients/planka';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { config } from '../../config/env';
+import { LIMITS } from '../../config/constants';
+import { parseDate, parsePriority, parseCategory, parseAssignee } from '../../utils/parse';
+import Log from '../../utils/log';
+
+/**
+ * Анализ сообщения для создания задачи
+ * Основной путь — Gemini, при недоступности — регулярные выражения
+ * boardId — доска рабочего пространства, с которой берутся лейблы
+ */
+export async function analyzeTaskText(text: string, author: User, boardId?: string): Promise<TaskDraft> {
+    if (config.gemini.apiKey) {
+        try {
+            return await analyzeWithAi(text, author, boardId);
+        } catch (error) {
+            Log.warn(
+                { userId: author.telegramId },
+                'AI analysis unavailable, falling back to rules',
+                { error: error instanceof Error ? error.message : String(error) }
+            );
+        }
+    }
+
+    return analyzeWithRules(text, author.timezone);
+}
+
+/**
+ * Анализ через Gemini с сотрудниками и лейблами доски
+ */
+async function analyzeWithAi(text: string, author: User, boardId?: string): Promise<TaskDraft> {
+    const employees = getCandidates().map(user => ({
+        name: displayName(user),
+        email: user.email || '—',
+    }));
+
+    const analysis = await geminiClient.analyzeTaskMessage(
+        text,
+        displayName(author),
+        employees,
+        await getLabelNames(boardId),
+        author.timezone
+    );
+
+    const inferred: TaskDraftField[] = analysis.inferred.filter(field => field !== 'assignee');
+    const assignee = analysis.assigneeName ? findUserByName(analysis.assigneeName) : null;
+
+    if (assignee) {
+        inferred.push('assignee');
+    }
+
+    return {
+        data: {
+            title: analysis.title.substring(0, LIMITS.MAX_TASK_TITLE_LENGTH),
+            description: analysis.description || text,
+            priority: analysis.priority,
+            category: analysis.category,
+            assigneeId: assignee ? String(assignee.telegramId) : undefined,
+            // Gemini возвращает только дату — это полночь по часам автора, а не UTC
+            dueDate: analysis.dueDate
+                ? parseDate(analysis.dueDate.toISOString().slice(0, 10), author.timezone) || undefined
+                : undefined,
+        },
+        source: 'ai',
+        inferred,
+    };
+}
+
+/**
+ * Разбор сообщения регулярными выражениями
+ */
+function analyzeWithRules(text: string, timeZone: string): TaskDraft {
+    const inferred: TaskDraftField[] = [];
+
+    const priority = parsePriority(text) || undefined;
+    const category = parseCategory(text) || undefined;
+    const dueDate = parseDate(text, timeZone) || undefined;
+    const assigneeName = parseAssignee(text);
+    const assignee = assigneeName ? findUserByName(assigneeName) : null;
+
+    if (priority) inferred.push('priority');
+    if (category) inferred.push('category');
+    if (dueDate) inferred.push('dueDate');
+    if (assignee) inferred.push('assignee');
+
+    return {
+        data: {
+            title: text.substring(0, LIMITS.MAX_TASK_TITLE_LENGTH),
+            description: text,
+            priority,
+            category,
+            assigneeId: assignee ? String(assignee.telegramId) : undefined,
+            dueDate,
+        },
+        source: 'rules',
+        inferred,
+    };
+}
+
+/**
+ * Названия лейблов доски (без них анализ всё равно возможен)
+ */
+async function getLabelNames(boardId?: string): Promise<string[]> {
+    try {
+        const labels = await plankaClient.getBoardLabels(boardId);
+        return labels.map(label => label.name).filter((name): name is string => Boolean(name));
+    } catch (error) {
+        Log.warn({ service: 'planka' }, 'Failed to load board labels for analysis');
+        return [];
+    }
+}
+
+/**
+ * Сотрудники, которым можно назначить задачу
+ */
+function getCandidates(): User[] {
+    return [
+        ...usersRepo.getAll(UserRole.EMPLOYEE),
+        ...usersRepo.getAll(UserRole.OWNER),
+    ];
+}
+
+/**
+ * Поиск сотрудника по имени, username или email
+ */
+function findUserByName(name: string): User | null {
+    const needle = name.toLowerCase().replace(/^@/, '');
+
+    return getCandidates().find(user =>
+        user.username?.toLowerCase() === needle ||
+        user.email?.toLowerCase() === needle ||
+        user.fullName?.toLowerCase().includes(needle) ||
+        (user.fullName && needle.includes(user.fullName.toLowerCase()))
+    ) || null;
+}
+
+/**
+ * Отображаемое имя сотрудника
+ */
+function displayName(user: User): string {
+    return user.fullName || user.username || String(user.telegramId);
+}
@@ -1,10 +1,11 @@
-import { Task } from '../../interfaces/task';
+import { Task, TaskEventType } from '../../interfaces/task';
 import { User, UserRole } from '../../interfaces/user';
 import { plankaClient } from '../../clients/planka';
 import { tasksRepo } from '../../data/repo/tasksRepo';
 import { usersRepo } from '../../data/repo/usersRepo';
 import { AppError, ErrorCodes } from '../../utils/errors';
 import { autoUpdateStatusOnAssign } from './updateStatus';
+import { recordTaskEvent } from './taskHistory';
 import Log from '../../utils/log';
 
 /**
@@ -50,6 +51,13 @@ export async function assignTask(
             assignedTo: null,
         });
 
+        await recordTaskEvent({
+            taskId,
+            type: TaskEventType.ASSIGNED,
+            actorId: assignedBy,
+            data: { from: previousAssignee?.telegramId || null, to: null },
+        });
+
         Log.info(
             { userId: assignedBy },
             'Assignee removed from task',
@@ -79,8 +87,7 @@ export async function assignTask(
         // Удаляем предыдущего исполнителя если был
         if (previousAssignee?.plankaUserId) {
             try {
-                // API для удаления участника (нужно добавить в plankaClient)
-                // await plankaClient.removeCardMember(taskId, previousAssignee.plankaUserId);
+                await plankaClient.removeCardMember(taskId, previousAssignee.plankaUserId);
             } catch (error) {
                 Log.error(
                     { userId: assignedBy },
@@ -119,6 +126,13 @@ export async function assignTask(
         );
     }
 
+    await recordTaskEvent({
+        taskId: task.plankaCardId!,
+        type: TaskEventType.ASSIGNED,
+        actorId: assignedBy,
+        data: { from: previousAssignee?.telegramId || null, to: assigneeId },
+    });
+
     // Автоматически меняем статус если нужно
     await autoUpdateStatusOnAssign(task.plankaCardId!, assigneeId);
 
@@ -214,8 +228,7 @@ async function removeAssignee(task: Task): Promise<void> {
 
     if (assignee?.plankaUserId) {
         try {
-            // Здесь нужно добавить метод в plankaClient для удаления участника
-            // await plankaClient.removeCardMember(task.plankaCardId!, assignee.plankaUserId);
+            await plankaClient.removeCardMember(task.plankaCardId!, assignee.plankaUserId);
 
             Log.info(
                 { userId: assignee.telegramId },
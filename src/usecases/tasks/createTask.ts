@@ -0,0 +1,383 @@
+import {
+    CreateTaskInput,
+    Task,
+    TaskStatus,
+    TaskPriority,
+    TaskCategory,
+    TaskAttachment,
+    TaskDraft,
+    TaskDraftField,
+    TaskEventType,
+} from '../../interfaces/task';
+import { PlankaCard, PlankaList } from '../../interfaces/planka';
+import { User, UserRole, Language } from '../../interfaces/user';
+import { plankaClient } from '../../clients/planka';
+import { telegramClient } from '../../clients/telegram';
+import { fileStore } from '../../clients/fileStore';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { getText, formatDate, formatPriority, formatPriorityEmoji, formatCategory } from '../../bot/replies';
+import { config } from '../../config/env';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import { assertNotEmpty, validateTaskInput } from '../../utils/guard';
+import { getListForStatus, getStatusForList } from './updateStatus';
+import { recordTaskEvent } from './taskHistory';
+import { isTaskLabel } from './taskLabels';
+import { rememberTaskMessage } from './taskComments';
+import { getChatBoardId } from '../workspaces/resolveWorkspace';
+import Log from '../../utils/log';
+
+/**
+ * Создание задачи: карточка в Planka + запись в локальной БД
+ */
+export async function createTask(input: CreateTaskInput): Promise<{
+    task: Task;
+    card: PlankaCard;
+    listName: string;
+    assignee: User | null;
+    attachments: {
+        uploaded: string[];
+        failed: string[];
+    };
+}> {
+    assertNotEmpty(input.title, 'Title');
+    validateTaskInput(input);
+
+    Log.info(
+        { userId: input.userId, chatId: input.chatId },
+        'Creating task',
+        { title: input.title, assigneeId: input.assigneeId }
+    );
+
+    // Доска рабочего пространства чата и целевой список на ней
+    const boardId = input.boardId || getChatBoardId(input.chatId);
+    const lists = await plankaClient.getBoardLists(boardId);
+    const targetList = resolveTargetList(lists, input.listId);
+
+    if (!targetList) {
+        throw new AppError(
+            ErrorCodes.TASK_CREATE_FAILED,
+            'No list available on the board',
+            { listId: input.listId }
+        );
+    }
+
+    // Создаём карточку
+    let card: PlankaCard;
+
+    try {
+        card = await plankaClient.createCard({
+            boardId: targetList.boardId,
+            listId: targetList.id,
+            name: input.title,
+            description: input.description,
+            dueDate: input.dueDate?.toISOString(),
+        });
+    } catch (error) {
+        throw new AppError(
+            ErrorCodes.TASK_CREATE_FAILED,
+            'Failed to create card in Planka',
+            { title: input.title }
+        );
+    }
+
+    // Исполнитель
+    const assignee = input.assigneeId
+        ? usersRepo.getByTelegramId(parseInt(input.assigneeId))
+        : null;
+
+    if (input.assigneeId && !assignee) {
+        Log.warn({ userId: input.userId }, 'Assignee not found, task created without assignee', {
+            assigneeId: input.assigneeId,
+        });
+    }
+
+    // Сохраняем в локальной БД сразу после создания карточки:
+    // webhook cardCreate и сверка видят задачу и не импортируют её повторно,
+    // а если импорт успел раньше — перезаписываем его данными бота
+    const task = tasksRepo.upsert({
+        plankaCardId: card.id,
+        title: input.title,
+        description: input.description,
+        priority: input.priority || TaskPriority.MEDIUM,
+        category: input.category || TaskCategory.OTHER,
+        status: getStatusForList(lists, targetList.id) || TaskStatus.TODO,
+        createdBy: input.userId,
+        assignedTo: assignee?.telegramId,
+        chatId: input.chatId,
+        boardId: targetList.boardId,
+        dueDate: input.dueDate,
+    });
+
+    if (assignee) {
+        await addAssigneeToCard(card.id, assignee);
+    }
+
+    // Лейблы приоритета и категории
+    await attachLabels(
+        card.id,
+        targetList.boardId,
+        input.priority || TaskPriority.MEDIUM,
+        input.category || TaskCategory.OTHER
+    );
+
+    // Вложения
+    const attachments = await uploadAttachments(card.id, input.attachments || []);
+
+    // История
+    await recordTaskEvent({
+        taskId: card.id,
+        type: TaskEventType.CREATED,
+        actorId: input.userId,
+        data: { title: input.title, assigneeId: assignee?.telegramId },
+    });
+
+    // Уведомляем исполнителя
+    if (assignee && assignee.telegramId !== input.userId) {
+        await notifyAssignee(task, assignee);
+    }
+
+    Log.info(
+        { userId: input.userId, chatId: input.chatId },
+        'Task created successfully',
+        {
+            cardId: card.id,
+            listId: targetList.id,
+            assigneeId: assignee?.telegramId,
+            attachmentsUploaded: attachments.uploaded.length,
+            attachmentsFailed: attachments.failed.length,
+        }
+    );
+
+    return {
+        task,
+        card,
+        listName: targetList.name,
+        assignee,
+        attachments,
+    };
+}
+
+/**
+ * Получение списка возможных исполнителей
+ */
+export function getAvailableAssignees(): Array<{ id: string; name: string }> {
+    const users = [
+        ...usersRepo.getAll(UserRole.EMPLOYEE),
+        ...usersRepo.getAll(UserRole.OWNER),
+    ];
+
+    return users.map(user => ({
+        id: String(user.telegramId),
+        name: user.fullName || (user.username ? `@${user.username}` : String(user.telegramId)),
+    }));
+}
+
+/**
+ * Предпросмотр задачи перед созданием
+ * Если передан результат анализа — помечаем определённые и заполненные по умолчанию поля
+ */
+export function prepareTaskPreview(
+    data: Partial<CreateTaskInput>,
+    lang: Language = Language.RU,
+    analysis?: Pick<TaskDraft, 'source' | 'inferred'>,
+    timeZone: string = config.timezone.default
+): string {
+    const t = getText(lang);
+    const lines = [t.tasks.create.preview, ''];
+
+    const marker = analysis?.source === 'ai' ? '🤖' : '🔎';
+    const mark = (field: TaskDraftField, line: string, hasDefault: boolean): string => {
+        if (!analysis) return line;
+        if (analysis.inferred.includes(field)) return `${line} ${marker}`;
+        return hasDefault ? `${line} ${t.tasks.create.analysis.defaulted}` : line;
+    };
+
+    lines.push(t.tasks.view.title(data.title || '—'));
+
+    if (data.description && data.description !== data.title) {
+        lines.push(t.tasks.view.description(data.description));
+    }
+
+    const priority = data.priority || TaskPriority.MEDIUM;
+
+    lines.push(mark('priority', t.tasks.view.priority(formatPriority(priority, lang), formatPriorityEmoji(priority)), true));
+    lines.push(mark('category', t.tasks.create.analysis.category(formatCategory(data.category || TaskCategory.OTHER, lang)), true));
+
+    const assignee = data.assigneeId
+        ? usersRepo.getByTelegramId(parseInt(data.assigneeId))
+        : null;
+
+    if (assignee) {
+        lines.push(mark(
+            'assignee',
+            t.tasks.view.assignee(assignee.fullName || assignee.username || String(assignee.telegramId)),
+            false
+        ));
+    } else if (analysis) {
+        lines.push(t.tasks.view.assignee(t.tasks.create.analysis.notSet));
+    }
+
+    if (data.dueDate) {
+        lines.push(mark('dueDate', t.tasks.create.analysis.dueDate(formatDate(data.dueDate, lang, timeZone)), false));
+    } else if (analysis) {
+        lines.push(t.tasks.create.analysis.dueDate(t.tasks.create.analysis.notSet));
+    }
+
+    if (data.attachments && data.attachments.length > 0) {
+        lines.push(t.tasks.view.attachments(data.attachments.length));
+        for (const attachment of data.attachments) {
+            lines.push(t.tasks.view.attachmentName(attachment.name));
+        }
+    }
+
+    if (analysis && analysis.inferred.length > 0) {
+        lines.push('');
+        lines.push(analysis.source === 'ai' ? t.tasks.create.analysis.ai : t.tasks.create.analysis.rules);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Выбор списка для новой задачи
+ * Явно выбранный список, иначе список для статуса "todo"
+ */
+function resolveTargetList(lists: PlankaList[], listId?: string): PlankaList | undefined {
+    if (listId) {
+        const selected = lists.find(l => l.id === listId);
+        if (selected) {
+            return selected;
+        }
+    }
+
+    const todoList = getListForStatus(lists, TaskStatus.TODO);
+
+    return lists.find(l => l.id === todoList?.id);
+}
+
+/**
+ * Добавление исполнителя в участники карточки
+ * Ошибка здесь не должна ломать создание задачи
+ */
+async function addAssigneeToCard(cardId: string, assignee: User): Promise<void> {
+    try {
+        let plankaUserId = assignee.plankaUserId;
+
+        if (!plankaUserId && assignee.email) {
+            const plankaUser = await plankaClient.findUserByEmail(assignee.email);
+
+            if (plankaUser) {
+                plankaUserId = plankaUser.id;
+                usersRepo.update({
+                    telegramId: assignee.telegramId,
+                    plankaUserId,
+                });
+            }
+        }
+
+        if (!plankaUserId) {
+            Log.warn({ userId: assignee.telegramId }, 'Assignee has no Planka account', { cardId });
+            return;
+        }
+
+        await plankaClient.addCardMember(cardId, plankaUserId);
+    } catch (error) {
+        Log.error(
+            { userId: assignee.telegramId },
+            'Failed to add assignee to card',
+            error,
+            { cardId }
+        );
+    }
+}
+
+/**
+ * Привязка лейблов приоритета и категории
+ * Используются только лейблы, уже существующие на доске
+ */
+async function attachLabels(
+    cardId: string,
+    boardId: string,
+    priority: TaskPriority,
+    category: TaskCategory
+): Promise<void> {
+    try {
+        const labels = await plankaClient.getBoardLabels(boardId);
+
+        for (const label of labels) {
+            if (isTaskLabel(label.name, priority) || isTaskLabel(label.name, category)) {
+                await plankaClient.addCardLabel(cardId, label.id);
+            }
+        }
+    } catch (error) {
+        Log.error({ service: 'planka' }, 'Failed to attach labels', error, { cardId });
+    }
+}
+
+/**
+ * Загрузка вложений в карточку
+ */
+async function uploadAttachments(
+    cardId: string,
+    attachments: TaskAttachment[]
+): Promise<{ uploaded: string[]; failed: string[] }> {
+    const uploaded: string[] = [];
+    const failed: string[] = [];
+
+    for (const attachment of attachments) {
+        try {
+            const url = await telegramClient.getFileLink(attachment.fileId);
+            const file = await fileStore.download(url, attachment.name, attachment.type);
+
+            await plankaClient.uploadAttachment(cardId, {
+                buffer: file.buffer,
+                filename: file.filename,
+                mimetype: file.mimetype,
+            });
+
+            uploaded.push(attachment.name);
+        } catch (error) {
+            Log.error({ service: 'planka' }, 'Failed to upload attachment', error, {
+                cardId,
+                filename: attachment.name,
+            });
+            failed.push(attachment.name);
+        }
+    }
+
+    return { uploaded, failed };
+}
+
+/**
+ * Уведомление исполнителя о новой задаче
+ */
+async function notifyAssignee(task: Task, assignee: User): Promise<void> {
+    const t = getText(assignee.language);
+
+    let message = t.notifications.newTask(task.title);
+
+    if (task.dueDate) {
+        message += `\n📅 ${formatDate(task.dueDate, assignee.language, assignee.timezone)}`;
+    }
+
+    try {
+        const sent = await telegramClient.sendMessage(assignee.telegramId, message, {
+            parse_mode: 'Markdown',
+            reply_markup: {
+                inline_keyboard: [[
+                    { text: t.buttons.viewTask, callback_data: `view_task_${task.plankaCardId}` },
+                ]],
+            },
+        });
+
+        rememberTaskMessage(sent, task.plankaCardId!);
+    } catch (error) {
+        Log.error(
+            { userId: assignee.telegramId },
+            'Failed to notify assignee about new task',
+            error,
+            { taskId: task.plankaCardId }
+        );
+    }
+}
@@ -0,0 +1,79 @@
+import { Task, TaskStatus } from '../../interfaces/task';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { config } from '../../config/env';
+import dayjs from '../../utils/dayjs';
+
+/**
+ * Данные для утреннего дайджеста: задачи на сегодня и просроченные
+ * boardId — ограничить задачами одного рабочего пространства, "сегодня" — по часам пользователя
+ */
+export function getMorningDigest(
+    telegramId: number,
+    boardId?: string,
+    timeZone: string = config.timezone.default
+): {
+    today: Task[];
+    overdue: Task[];
+} {
+    const today = dayjs().tz(timeZone).startOf('day');
+    const tomorrow = today.add(1, 'day');
+
+    return {
+        today: tasksRepo.getUserTasksDueBetween(telegramId, today.toDate(), tomorrow.toDate(), boardId),
+        overdue: tasksRepo.getUserOverdueTasks(telegramId, today.toDate(), boardId),
+    };
+}
+
+/**
+ * Данные для вечернего дайджеста: итоги дня и задачи на завтра
+ */
+export function getEveningDigest(
+    telegramId: number,
+    boardId?: string,
+    timeZone: string = config.timezone.default
+): {
+    completed: number;
+    inProgress: number;
+    overdue: number;
+    tomorrow: Task[];
+} {
+    const today = dayjs().tz(timeZone).startOf('day');
+    const tomorrow = today.add(1, 'day');
+
+    const summary = tasksRepo.getUserSummary(telegramId, today.toDate(), tomorrow.toDate(), boardId);
+
+    return {
+        ...summary,
+        tomorrow: tasksRepo.getUserTasksDueBetween(
+            telegramId,
+            tomorrow.toDate(),
+            tomorrow.add(1, 'day').toDate(),
+            boardId
+        ),
+    };
+}
+
+/**
+ * Личный дайджест сотрудника: задачи на сегодня, просроченные,
+ * ожидающие проверки и закрытые вчера (всё по часам сотрудника)
+ */
+export function getEmployeeDigest(telegramId: number, timeZone: string = config.timezone.default): {
+    today: Task[];
+    overdue: Task[];
+    inReview: Task[];
+    completedYesterday: Task[];
+} {
+    const today = dayjs().tz(timeZone).startOf('day');
+    const { today: dueToday, overdue } = getMorningDigest(telegramId, undefined, timeZone);
+
+    return {
+        today: dueToday,
+        overdue,
+        inReview: tasksRepo.getUserTasks(telegramId, TaskStatus.IN_REVIEW),
+        completedYesterday: tasksRepo.getUserCompletedBetween(
+            telegramId,
+            today.subtract(1, 'day').toDate(),
+            today.toDate()
+        ),
+    };
+}
@@ -0,0 +1,349 @@
+import { Task, TaskStatus, ExtensionRequest, ExtensionStatus } from '../../interfaces/task';
+import { User, Permission, hasPermission } from '../../interfaces/user';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { extensionRequestsRepo } from '../../data/repo/extensionRequestsRepo';
+import { telegramClient } from '../../clients/telegram';
+import { getText, formatDate } from '../../bot/replies';
+import { LIMITS } from '../../config/constants';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import { assertNotEmpty, assertStringLength } from '../../utils/guard';
+import { editTask } from './editTask';
+import { rememberTaskMessage } from './taskComments';
+import Log from '../../utils/log';
+
+/**
+ * Запрос исполнителя на продление срока
+ * Решение принимает автор задачи: одобрить, отклонить или предложить свою дату
+ */
+export async function requestDeadlineExtension(
+    taskId: string,
+    requester: User,
+    proposedDueDate: Date,
+    reason: string
+): Promise<ExtensionRequest> {
+    const task = getExtendableTask(taskId, requester);
+
+    validateProposedDueDate(task, proposedDueDate);
+    assertNotEmpty(reason, 'Reason');
+    assertStringLength(reason.trim(), 1, LIMITS.MAX_COMMENT_LENGTH, 'Reason');
+
+    if (extensionRequestsRepo.getOpenByTask(taskId)) {
+        throw new AppError(
+            ErrorCodes.ALREADY_EXISTS,
+            'Extension request is already open for this task',
+            { taskId }
+        );
+    }
+
+    const approver = usersRepo.getByTelegramId(parseInt(task.createdBy))!;
+
+    const request = extensionRequestsRepo.create({
+        taskId,
+        requestedBy: requester.telegramId,
+        approverId: approver.telegramId,
+        proposedDueDate,
+        reason: reason.trim(),
+    });
+
+    const t = getText(approver.language);
+
+    await notifyUser(
+        approver,
+        task,
+        t.extensions.request(
+            task.title,
+            displayName(requester),
+            task.dueDate ? formatDate(task.dueDate, approver.language, approver.timezone) : '—',
+            formatDate(proposedDueDate, approver.language, approver.timezone),
+            request.reason
+        ),
+        [
+            [
+                { text: t.buttons.approveExtension, callback_data: `ext_approve_${request.id}` },
+                { text: t.buttons.rejectExtension, callback_data: `ext_reject_${request.id}` },
+            ],
+            [{ text: t.buttons.counterPropose, callback_data: `ext_counter_${request.id}` }],
+        ]
+    );
+
+    Log.info({ userId: requester.telegramId }, 'Deadline extension requested', {
+        taskId,
+        requestId: request.id,
+    });
+
+    return request;
+}
+
+/**
+ * Одобрение запроса: новый срок уходит в Planka и локальную БД,
+ * отправленные напоминания сбрасываются (через editTask)
+ */
+export async function approveExtension(requestId: number, approver: User): Promise<Task> {
+    const request = getOpenRequest(requestId, ExtensionStatus.PENDING);
+    assertApprover(request, approver);
+
+    const task = await editTask({ taskId: request.taskId, dueDate: request.proposedDueDate }, approver);
+    extensionRequestsRepo.decide(request.id, ExtensionStatus.APPROVED);
+
+    const requester = usersRepo.getByTelegramId(request.requestedBy);
+    if (requester) {
+        const t = getText(requester.language);
+        await notifyUser(
+            requester,
+            task,
+            t.extensions.approved(task.title, formatDate(request.proposedDueDate, requester.language, requester.timezone))
+        );
+    }
+
+    return task;
+}
+
+/**
+ * Отклонение запроса
+ */
+export async function rejectExtension(requestId: number, approver: User): Promise<ExtensionRequest> {
+    const request = getOpenRequest(requestId, ExtensionStatus.PENDING);
+    assertApprover(request, approver);
+
+    const decided = extensionRequestsRepo.decide(request.id, ExtensionStatus.REJECTED)!;
+    const task = tasksRepo.getByPlankaId(request.taskId);
+    const requester = usersRepo.getByTelegramId(request.requestedBy);
+
+    if (task && requester) {
+        await notifyUser(requester, task, getText(requester.language).extensions.rejected(task.title));
+    }
+
+    return decided;
+}
+
+/**
+ * Встречное предложение автора: исполнитель соглашается или отказывается
+ */
+export async function counterExtension(
+    requestId: number,
+    approver: User,
+    counterDueDate: Date
+): Promise<ExtensionRequest> {
+    const request = getOpenRequest(requestId, ExtensionStatus.PENDING);
+    assertApprover(request, approver);
+
+    const task = tasksRepo.getByPlankaId(request.taskId);
+
+    if (!task) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'Task not found',
+            { taskId: request.taskId }
+        );
+    }
+
+    validateProposedDueDate(task, counterDueDate);
+
+    const countered = extensionRequestsRepo.setCounter(request.id, counterDueDate)!;
+    const requester = usersRepo.getByTelegramId(request.requestedBy);
+
+    if (requester) {
+        const t = getText(requester.language);
+        await notifyUser(
+            requester,
+            task,
+            t.extensions.countered(task.title, formatDate(counterDueDate, requester.language, requester.timezone)),
+            [[
+                { text: t.buttons.acceptCounter, callback_data: `ext_accept_${request.id}` },
+                { text: t.buttons.declineCounter, callback_data: `ext_decline_${request.id}` },
+            ]]
+        );
+    }
+
+    Log.info({ userId: approver.telegramId }, 'Extension counter-proposed', { requestId });
+
+    return countered;
+}
+
+/**
+ * Ответ исполнителя на встречное предложение
+ * Срок меняется от имени автора задачи — это его предложение
+ */
+export async function respondToCounter(
+    requestId: number,
+    requester: User,
+    accept: boolean
+): Promise<ExtensionRequest> {
+    const request = getOpenRequest(requestId, ExtensionStatus.COUNTERED);
+
+    if (request.requestedBy !== requester.telegramId) {
+        throw new AppError(
+            ErrorCodes.FORBIDDEN,
+            'Only the requester can answer a counter-proposal',
+            { requestId, userId: requester.telegramId }
+        );
+    }
+
+    const approver = usersRepo.getByTelegramId(request.approverId);
+
+    if (!approver) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'Approver not found',
+            { requestId }
+        );
+    }
+
+    let task = tasksRepo.getByPlankaId(request.taskId);
+
+    if (accept) {
+        task = await editTask({ taskId: request.taskId, dueDate: request.counterDueDate! }, approver);
+    }
+
+    const decided = extensionRequestsRepo.decide(
+        request.id,
+        accept ? ExtensionStatus.APPROVED : ExtensionStatus.REJECTED
+    )!;
+
+    if (task) {
+        const t = getText(approver.language);
+        await notifyUser(
+            approver,
+            task,
+            accept
+                ? t.extensions.counterAccepted(task.title, displayName(requester), formatDate(request.counterDueDate!, approver.language, approver.timezone))
+                : t.extensions.counterDeclined(task.title, displayName(requester))
+        );
+    }
+
+    Log.info({ userId: requester.telegramId }, 'Extension counter answered', { requestId, accept });
+
+    return decided;
+}
+
+/**
+ * Проверка нового срока: в будущем и позже текущего
+ */
+export function validateProposedDueDate(task: Task, dueDate: Date): void {
+    const now = new Date();
+
+    if (dueDate <= now || (task.dueDate && dueDate <= task.dueDate)) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Proposed due date must be later than the current one',
+            { taskId: task.plankaCardId, dueDate: dueDate.toISOString() }
+        );
+    }
+}
+
+/**
+ * Задача, по которой пользователь может попросить продление
+ * Просит исполнитель, решает автор — самому себе продлевать не нужно
+ */
+export function getExtendableTask(taskId: string, requester: User): Task {
+    const task = tasksRepo.getByPlankaId(taskId);
+
+    if (!task) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'Task not found',
+            { taskId }
+        );
+    }
+
+    if (task.assigneeId !== String(requester.telegramId)) {
+        throw new AppError(
+            ErrorCodes.FORBIDDEN,
+            'Only the assignee can ask for extension',
+            { taskId, userId: requester.telegramId }
+        );
+    }
+
+    if (task.createdBy === String(requester.telegramId) || !usersRepo.getByTelegramId(parseInt(task.createdBy))) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Task has no other creator to approve extension',
+            { taskId }
+        );
+    }
+
+    if (task.status === TaskStatus.DONE) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Task is already done',
+            { taskId }
+        );
+    }
+
+    return task;
+}
+
+/**
+ * Запрос в нужном состоянии
+ */
+function getOpenRequest(requestId: number, status: ExtensionStatus): ExtensionRequest {
+    const request = extensionRequestsRepo.getById(requestId);
+
+    if (!request) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'Extension request not found',
+            { requestId }
+        );
+    }
+
+    if (request.status !== status) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Extension request is already decided',
+            { requestId, status: request.status }
+        );
+    }
+
+    return request;
+}
+
+/**
+ * Решать может автор задачи или тот, кто редактирует любые задачи
+ */
+function assertApprover(request: ExtensionRequest, user: User): void {
+    if (request.approverId !== user.telegramId && !hasPermission(user, Permission.EDIT_ANY_TASK)) {
+        throw new AppError(
+            ErrorCodes.FORBIDDEN,
+            'Not allowed to decide on this extension request',
+            { requestId: request.id, userId: user.telegramId }
+        );
+    }
+}
+
+/**
+ * Уведомление без Markdown — в тексте причина, введённая пользователем
+ */
+async function notifyUser(
+    user: User,
+    task: Task,
+    text: string,
+    buttons: Array<Array<{ text: string; callback_data: string }>> = []
+): Promise<void> {
+    const t = getText(user.language);
+
+    try {
+        const message = await telegramClient.sendMessage(user.telegramId, text, {
+            reply_markup: {
+                inline_keyboard: [
+                    ...buttons,
+                    [{ text: t.buttons.viewTask, callback_data: `view_task_${task.plankaCardId}` }],
+                ],
+            },
+        });
+
+        rememberTaskMessage(message, task.plankaCardId!);
+    } catch (error) {
+        Log.error({ userId: user.telegramId }, 'Failed to send extension notification', error, {
+            taskId: task.plankaCardId,
+        });
+    }
+}
+
+/**
+ * Отображаемое имя пользователя
+ */
+function displayName(user: User): string {
+    return user.fullName || user.username || String(user.telegramId);
+}
@@ -0,0 +1,198 @@
+import { Task, TaskPriority, TaskCategory, TaskEventType, UpdateTaskInput } from '../../interfaces/task';
+import { User, Permission, hasPermission } from '../../interfaces/user';
+import { plankaClient } from '../../clients/planka';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { remindersRepo } from '../../data/repo/remindersRepo';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import { assertNotEmpty, assertStringLength } from '../../utils/guard';
+import { LIMITS } from '../../config/constants';
+import { assignTask } from './assignTask';
+import { updateTaskStatus } from './updateStatus';
+import { recordTaskEvent } from './taskHistory';
+import { normalizeReminderOffsets } from './reminderSchedule';
+import { isTaskLabel } from './taskLabels';
+import Log from '../../utils/log';
+
+/**
+ * Редактирование задачи
+ * Название, описание и срок — через карточку, приоритет и категория — через лейблы,
+ * исполнитель и статус — через assignTask/updateTaskStatus, напоминания — только локально
+ */
+export async function editTask(input: UpdateTaskInput, editedBy: User): Promise<Task> {
+    const task = getEditableTask(input.taskId, editedBy, input.status !== undefined);
+
+    Log.info(
+        { userId: editedBy.telegramId },
+        'Editing task',
+        { taskId: input.taskId, fields: Object.keys(input).filter(key => key !== 'taskId') }
+    );
+
+    // Поля самой карточки
+    const cardChanges: { name?: string; description?: string; dueDate?: string | null } = {};
+
+    if (input.title !== undefined) {
+        assertNotEmpty(input.title, 'Title');
+        assertStringLength(input.title.trim(), 1, LIMITS.MAX_TASK_TITLE_LENGTH, 'Title');
+        cardChanges.name = input.title.trim();
+    }
+
+    if (input.description !== undefined) {
+        assertStringLength(input.description, 0, LIMITS.MAX_TASK_DESCRIPTION_LENGTH, 'Description');
+        cardChanges.description = input.description;
+    }
+
+    if (input.dueDate !== undefined) {
+        cardChanges.dueDate = input.dueDate ? input.dueDate.toISOString() : null;
+    }
+
+    // Напоминания живут только у нас, в Planka их нет
+    const reminderOffsets = input.reminderOffsets
+        ? normalizeReminderOffsets(input.reminderOffsets)
+        : input.reminderOffsets;
+
+    if (Object.keys(cardChanges).length > 0) {
+        await plankaClient.updateCard(task.plankaCardId!, cardChanges);
+    }
+
+    // Лейблы приоритета и категории
+    if (input.priority !== undefined && input.priority !== task.priority) {
+        await replaceLabel(task, task.priority, input.priority);
+    }
+
+    if (input.category !== undefined && input.category !== task.category) {
+        await replaceLabel(task, task.category, input.category);
+    }
+
+    let updated = tasksRepo.update(task.plankaCardId!, {
+        title: cardChanges.name,
+        description: input.description,
+        priority: input.priority,
+        category: input.category,
+        dueDate: input.dueDate,
+        reminderOffsets,
+    });
+
+    // История: срок отдельным событием, остальные поля — одним
+    if (input.dueDate !== undefined) {
+        // Новый срок — напоминания отсчитываются заново
+        remindersRepo.clearForTask(task.plankaCardId!);
+
+        await recordTaskEvent({
+            taskId: task.plankaCardId!,
+            type: TaskEventType.DUE_DATE,
+            actorId: editedBy.telegramId,
+            data: {
+                from: task.dueDate ? task.dueDate.toISOString() : null,
+                to: input.dueDate ? input.dueDate.toISOString() : null,
+            },
+        });
+    }
+
+    const editedFields = (['title', 'description', 'priority', 'category'] as const)
+        .filter(field => input[field] !== undefined && input[field] !== task[field]);
+
+    if (editedFields.length > 0) {
+        await recordTaskEvent({
+            taskId: task.plankaCardId!,
+            type: TaskEventType.EDITED,
+            actorId: editedBy.telegramId,
+            data: { fields: editedFields },
+        });
+    }
+
+    // Исполнитель и статус — отдельные сценарии со своими побочными эффектами
+    if (input.assigneeId !== undefined) {
+        const assigneeId = input.assigneeId ? parseInt(input.assigneeId) : null;
+        updated = (await assignTask(task.plankaCardId!, assigneeId, editedBy.telegramId)).task;
+    }
+
+    if (input.status !== undefined) {
+        updated = (await updateTaskStatus(task.plankaCardId!, input.status, editedBy.telegramId)).task;
+    }
+
+    if (!updated) {
+        throw new AppError(
+            ErrorCodes.DB_ERROR,
+            'Failed to update task in database'
+        );
+    }
+
+    Log.info({ userId: editedBy.telegramId }, 'Task edited', { taskId: input.taskId });
+
+    return updated;
+}
+
+/**
+ * Может ли пользователь редактировать задачу
+ * Статус своей задачи исполнитель может менять и без EDIT_ANY_TASK
+ */
+export function canEditTask(task: Task, user: User, statusOnly: boolean = false): boolean {
+    if (hasPermission(user, Permission.EDIT_ANY_TASK)) {
+        return true;
+    }
+
+    return statusOnly
+        && hasPermission(user, Permission.UPDATE_OWN_TASK_STATUS)
+        && task.assigneeId === String(user.telegramId);
+}
+
+/**
+ * Получение задачи с проверкой прав
+ */
+function getEditableTask(taskId: string, user: User, statusOnly: boolean): Task {
+    const task = tasksRepo.getByPlankaId(taskId);
+
+    if (!task) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'Task not found',
+            { taskId }
+        );
+    }
+
+    if (!canEditTask(task, user, statusOnly)) {
+        throw new AppError(
+            ErrorCodes.FORBIDDEN,
+            'Not allowed to edit this task',
+            { taskId, userId: user.telegramId }
+        );
+    }
+
+    return task;
+}
+
+/**
+ * Замена лейбла на карточке (старый приоритет/категория -> новый)
+ * Лейблы ищем по коду или названию среди существующих на доске
+ */
+async function replaceLabel(
+    task: Task,
+    previous: TaskPriority | TaskCategory,
+    next: TaskPriority | TaskCategory
+): Promise<void> {
+    const cardId = task.plankaCardId!;
+    const labels = await plankaClient.getBoardLabels(task.boardId);
+    const findLabel = (value: TaskPriority | TaskCategory) =>
+        labels.find(label => isTaskLabel(label.name, value));
+
+    const previousLabel = findLabel(previous);
+    const nextLabel = findLabel(next);
+
+    if (previousLabel) {
+        try {
+            await plankaClient.removeCardLabel(cardId, previousLabel.id);
+        } catch (error) {
+            // Лейбла могло не быть на карточке — это не ошибка редактирования
+            Log.warn({ service: 'planka' }, 'Previous label was not removed', {
+                cardId,
+                label: previous,
+            });
+        }
+    }
+
+    if (nextLabel) {
+        await plankaClient.addCardLabel(cardId, nextLabel.id);
+    } else {
+        Log.warn({ service: 'planka' }, 'Label not found on board', { cardId, label: next });
+    }
+}
@@ -0,0 +1,23 @@
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { listDeadlines } from './listDeadlines';
+
+/**
+ * Статистика по задачам (по доске рабочего пространства или по всем)
+ */
+export function getTaskStats(boardId?: string): {
+    total: number;
+    byStatus: Record<string, number>;
+    byPriority: Record<string, number>;
+    overdue: number;
+    dueToday: number;
+    dueThisWeek: number;
+} {
+    const stats = tasksRepo.getStats(boardId);
+    const deadlines = listDeadlines(boardId);
+
+    return {
+        ...stats,
+        dueToday: deadlines.today.length,
+        dueThisWeek: deadlines.thisWeek.length,
+    };
+}
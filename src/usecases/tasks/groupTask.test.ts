@@ -0,0 +1,34 @@
+import { parseGroupTaskMention, buildGroupTaskText } from './groupTask';
+
+describe('parseGroupTaskMention', () => {
+    it('returns the text after a bot mention with a trigger word', () => {
+        expect(parseGroupTaskMention('@WorkBot task: обновить прайс', 'workbot')).toBe('обновить прайс');
+        expect(parseGroupTaskMention('@workbot задачу — созвон с клиентом', 'WorkBot')).toBe('созвон с клиентом');
+    });
+
+    it('ignores a mention without a trigger word', () => {
+        expect(parseGroupTaskMention('@workbot привет', 'workbot')).toBeNull();
+    });
+
+    it('ignores mentions of other bots', () => {
+        expect(parseGroupTaskMention('@otherbot task обновить прайс', 'workbot')).toBeNull();
+    });
+
+    it('accepts a wake word instead of a mention', () => {
+        expect(parseGroupTaskMention('Помощник, обнови прайс', 'workbot')).toBe('обнови прайс');
+    });
+
+    it('returns null for ordinary messages', () => {
+        expect(parseGroupTaskMention('Кто обновит прайс?', 'workbot')).toBeNull();
+    });
+});
+
+describe('buildGroupTaskText', () => {
+    it('puts the clarification before the replied message', () => {
+        expect(buildGroupTaskText(' Прайс устарел ', 'до пятницы')).toBe('до пятницы\nПрайс устарел');
+    });
+
+    it('skips an empty clarification', () => {
+        expect(buildGroupTaskText('Прайс устарел', '  ')).toBe('Прайс устарел');
+    });
+});
@@ -0,0 +1,33 @@
+import { GROUP_TASK_TRIGGERS } from '../../config/constants';
+import { extractVoiceCommand } from './voiceTask';
+
+/**
+ * Обращение к боту в групповом чате: "@bot task ..." или слово-обращение ("помощник, ...")
+ * Возвращает текст после обращения или null, если сообщение боту не адресовано
+ */
+export function parseGroupTaskMention(text: string, botUsername: string): string | null {
+    const trimmed = text.trim();
+    const mention = `@${botUsername.toLowerCase()}`;
+
+    if (trimmed.toLowerCase().startsWith(mention)) {
+        const [trigger = '', ...rest] = trimmed.slice(mention.length).trim().split(/\s+/);
+        const word = trigger.toLowerCase().replace(/[^\p{L}]/gu, '');
+
+        if (!(GROUP_TASK_TRIGGERS as readonly string[]).includes(word)) {
+            return null;
+        }
+
+        return rest.join(' ').replace(/^[\s,.:;!?—-]+/, '').trim();
+    }
+
+    return extractVoiceCommand(trimmed);
+}
+
+/**
+ * Текст задачи из группы: уточнение после обращения и исходное сообщение, на которое ответили
+ */
+export function buildGroupTaskText(sourceText: string, extra: string): string {
+    return [extra.trim(), sourceText.trim()]
+        .filter(Boolean)
+        .join('\n');
+}
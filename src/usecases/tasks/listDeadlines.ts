@@ -0,0 +1,26 @@
+import { Task } from '../../interfaces/task';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Дедлайны, сгруппированные по срочности
+ * today — в ближайшие 24 часа, thisWeek — от 24 часов до 7 дней
+ */
+export function listDeadlines(boardId?: string): {
+    overdue: Task[];
+    today: Task[];
+    thisWeek: Task[];
+} {
+    const now = Date.now();
+    const overdue = tasksRepo.getOverdueTasks(boardId);
+    const upcoming = tasksRepo.getUpcomingDeadlines(24 * 7, boardId);
+
+    const hoursLeft = (task: Task) => (task.dueDate!.getTime() - now) / HOUR_MS;
+
+    return {
+        overdue,
+        today: upcoming.filter(task => hoursLeft(task) <= 24),
+        thisWeek: upcoming.filter(task => hoursLeft(task) > 24),
+    };
+}
@@ -0,0 +1,127 @@
+import { config } from '../../config/env';
+import { initDatabase, closeDatabase } from '../../data/db';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { plankaClient } from '../../clients/planka';
+import { PlankaCard, PlankaList } from '../../interfaces/planka';
+import { TaskStatus, TaskPriority, TaskCategory } from '../../interfaces/task';
+import { User, UserRole } from '../../interfaces/user';
+import { remindersRepo } from '../../data/repo/remindersRepo';
+import { completeTaskFromReminder, snoozeReminder } from './reminderActions';
+
+const LISTS: PlankaList[] = ['Новые', 'В работе', 'На проверке', 'Готово'].map((name, index) => ({
+    id: `list-${index}`,
+    boardId: 'board-main',
+    position: index,
+    name,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+}));
+
+let employee: User;
+let owner: User;
+let movedTo: string[];
+
+beforeEach(() => {
+    config.database.path = ':memory:';
+    initDatabase();
+    employee = usersRepo.create({ telegramId: 1, role: UserRole.EMPLOYEE });
+    owner = usersRepo.create({ telegramId: 2, role: UserRole.OWNER });
+
+    movedTo = [];
+
+    jest.spyOn(plankaClient, 'getBoardLists').mockResolvedValue(LISTS);
+    jest.spyOn(plankaClient, 'updateCard').mockImplementation(async (cardId, data) => {
+        movedTo.push(LISTS.find(list => list.id === data.listId)?.name ?? '');
+        return card(cardId, data.listId ?? '');
+    });
+    jest.spyOn(plankaClient, 'addComment').mockRejectedValue(new Error('Planka is offline'));
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    closeDatabase();
+});
+
+/**
+ * Карточка, которую вернёт Planka после перемещения
+ */
+function card(id: string, listId: string): PlankaCard {
+    return {
+        id,
+        boardId: 'board-main',
+        listId,
+        creatorUserId: 'planka-1',
+        position: 1,
+        name: id,
+        isSubscribed: false,
+        isCompleted: false,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+/**
+ * Задача сотрудника, созданная владельцем
+ */
+function createTask(status: TaskStatus) {
+    return tasksRepo.create({
+        plankaCardId: 'card-1',
+        title: 'Отчёт',
+        priority: TaskPriority.MEDIUM,
+        category: TaskCategory.OTHER,
+        status,
+        createdBy: owner.telegramId,
+        assignedTo: employee.telegramId,
+        chatId: 1,
+    });
+}
+
+describe('completeTaskFromReminder', () => {
+    it('sends a new task of an employee to review through work', async () => {
+        createTask(TaskStatus.TODO);
+
+        const task = await completeTaskFromReminder('card-1', employee);
+
+        expect(task.status).toBe(TaskStatus.IN_REVIEW);
+        expect(movedTo).toEqual(['В работе', 'На проверке']);
+    });
+
+    it('sends a task in progress straight to review', async () => {
+        createTask(TaskStatus.IN_PROGRESS);
+
+        const task = await completeTaskFromReminder('card-1', employee);
+
+        expect(task.status).toBe(TaskStatus.IN_REVIEW);
+        expect(movedTo).toEqual(['На проверке']);
+    });
+
+    it('lets the owner close a new task', async () => {
+        createTask(TaskStatus.TODO);
+
+        const task = await completeTaskFromReminder('card-1', owner);
+
+        expect(task.status).toBe(TaskStatus.DONE);
+        expect(movedTo).toEqual(['Готово']);
+    });
+});
+
+describe('snoozeReminder', () => {
+    const now = new Date('2024-03-13T20:30:00.000Z');
+
+    it('snoozes until tomorrow morning in the user timezone', () => {
+        createTask(TaskStatus.TODO);
+        const user = { ...employee, timezone: 'Asia/Tashkent' };
+
+        const until = snoozeReminder('card-1', user, 'tomorrow', now);
+
+        expect(until).toEqual(new Date('2024-03-15T04:00:00.000Z'));
+        expect(remindersRepo.isSnoozed('card-1', user.telegramId, now)).toBe(true);
+    });
+
+    it('snoozes for a short delay', () => {
+        createTask(TaskStatus.TODO);
+
+        expect(snoozeReminder('card-1', employee, '1h', now)).toEqual(new Date('2024-03-13T21:30:00.000Z'));
+    });
+});
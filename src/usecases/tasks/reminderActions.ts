@@ -0,0 +1,88 @@
+import dayjs from '../../utils/dayjs';
+import { Task, TaskStatus } from '../../interfaces/task';
+import { User, Permission, hasPermission } from '../../interfaces/user';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { remindersRepo } from '../../data/repo/remindersRepo';
+import { REMINDER_SNOOZE } from '../../config/constants';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import { updateTaskStatus } from './updateStatus';
+import Log from '../../utils/log';
+
+export type SnoozeOption = '1h' | 'tomorrow';
+
+/**
+ * Отложить напоминания по задаче: на час или до завтрашнего утра
+ * Возвращает время, когда напоминание придёт снова
+ */
+export function snoozeReminder(taskId: string, user: User, option: SnoozeOption, now: Date = new Date()): Date {
+    const task = getReminderTask(taskId, user);
+
+    // "Завтра в 9:00" — по часам пользователя
+    const tomorrow = dayjs(now).tz(user.timezone).add(1, 'day').format('YYYY-MM-DD');
+    const hour = String(REMINDER_SNOOZE.TOMORROW_HOUR).padStart(2, '0');
+
+    const until = option === 'tomorrow'
+        ? dayjs.tz(`${tomorrow} ${hour}:00`, user.timezone).toDate()
+        : dayjs(now).add(REMINDER_SNOOZE.SHORT_MINUTES, 'minute').toDate();
+
+    remindersRepo.snooze(task.plankaCardId!, user.telegramId, until);
+
+    Log.info({ userId: user.telegramId }, 'Reminder snoozed', { taskId, until: until.toISOString() });
+
+    return until;
+}
+
+/**
+ * "Взять в работу" из напоминания
+ */
+export async function startTaskFromReminder(taskId: string, user: User): Promise<Task> {
+    getReminderTask(taskId, user);
+
+    return (await updateTaskStatus(taskId, TaskStatus.IN_PROGRESS, user.telegramId)).task;
+}
+
+/**
+ * "Выполнено" из напоминания: владелец закрывает задачу,
+ * сотрудник отправляет её на проверку (закрыть сам он не может)
+ */
+export async function completeTaskFromReminder(taskId: string, user: User): Promise<Task> {
+    const task = getReminderTask(taskId, user);
+
+    if (hasPermission(user, Permission.EDIT_ANY_TASK)) {
+        return (await updateTaskStatus(taskId, TaskStatus.DONE, user.telegramId)).task;
+    }
+
+    // На проверку попадают только из работы: невзятую задачу сначала берём в работу
+    if (task.status === TaskStatus.TODO) {
+        await updateTaskStatus(taskId, TaskStatus.IN_PROGRESS, user.telegramId);
+    }
+
+    return (await updateTaskStatus(taskId, TaskStatus.IN_REVIEW, user.telegramId)).task;
+}
+
+/**
+ * Задача из напоминания: действовать могут только получатели (автор и исполнитель)
+ */
+function getReminderTask(taskId: string, user: User): Task {
+    const task = tasksRepo.getByPlankaId(taskId);
+
+    if (!task) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'Task not found',
+            { taskId }
+        );
+    }
+
+    const userId = String(user.telegramId);
+
+    if (task.createdBy !== userId && task.assigneeId !== userId) {
+        throw new AppError(
+            ErrorCodes.FORBIDDEN,
+            'Only reminder recipients can act on it',
+            { taskId, userId: user.telegramId }
+        );
+    }
+
+    return task;
+}
@@ -0,0 +1,141 @@
+import { Task } from '../../interfaces/task';
+import { settingsRepo } from '../../data/repo/settingsRepo';
+import { config } from '../../config/env';
+import { LIMITS, REMINDER_PRESETS } from '../../config/constants';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import Log from '../../utils/log';
+
+export type ReminderPreset = keyof typeof REMINDER_PRESETS | 'default';
+
+/**
+ * Единицы интервалов в пользовательском вводе ("48h 3ч 30m")
+ */
+const UNIT_MINUTES: Record<string, number> = {
+    m: 1, min: 1, 'м': 1, 'мин': 1, daqiqa: 1,
+    h: 60, 'ч': 60, soat: 60,
+    d: 1440, 'д': 1440, kun: 1440,
+};
+
+/**
+ * Разбор интервалов из текста; число без единицы — часы
+ */
+export function parseReminderOffsets(text: string): number[] {
+    const tokens = text.trim().toLowerCase().split(/[\s,;]+/).filter(Boolean);
+
+    if (tokens.length === 0) {
+        throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Reminder offsets are empty');
+    }
+
+    const offsets = tokens.map(token => {
+        const match = token.match(/^(\d+)\s*([a-zа-яё]*)$/);
+        const unit = match?.[2] || 'h';
+        const multiplier = UNIT_MINUTES[unit];
+
+        if (!match || !multiplier) {
+            throw new AppError(
+                ErrorCodes.VALIDATION_ERROR,
+                'Invalid reminder offset',
+                { token }
+            );
+        }
+
+        return parseInt(match[1]!, 10) * multiplier;
+    });
+
+    return normalizeReminderOffsets(offsets);
+}
+
+/**
+ * Проверка интервалов: границы, без повторов, от большего к меньшему
+ */
+export function normalizeReminderOffsets(offsets: readonly number[]): number[] {
+    const unique = [...new Set(offsets.map(offset => Math.round(offset)))];
+
+    if (unique.length > LIMITS.MAX_REMINDERS_PER_TASK) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Too many reminder offsets',
+            { count: unique.length, max: LIMITS.MAX_REMINDERS_PER_TASK }
+        );
+    }
+
+    const outOfRange = unique.find(offset =>
+        offset < LIMITS.MIN_REMINDER_OFFSET || offset > LIMITS.MAX_REMINDER_OFFSET
+    );
+
+    if (outOfRange !== undefined) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Reminder offset is out of range',
+            { offset: outOfRange }
+        );
+    }
+
+    return unique.sort((a, b) => b - a);
+}
+
+/**
+ * Интервалы готового набора; null — сброс к значениям по умолчанию
+ */
+export function resolveReminderPreset(preset: string): number[] | null {
+    if (preset === 'default') {
+        return null;
+    }
+
+    if (!(preset in REMINDER_PRESETS)) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Unknown reminder preset',
+            { preset }
+        );
+    }
+
+    return [...REMINDER_PRESETS[preset as keyof typeof REMINDER_PRESETS]];
+}
+
+/**
+ * Напоминания пользователя по умолчанию
+ */
+export function getUserReminderOffsets(userId: number): number[] {
+    return settingsRepo.getOrDefault(userId).reminderOffsets ?? config.reminders.defaultOffsets;
+}
+
+/**
+ * Напоминания получателя по задаче: свои у задачи важнее настроек пользователя
+ */
+export function getTaskReminderOffsets(task: Task, userId: number): number[] {
+    return task.reminderOffsets ?? getUserReminderOffsets(userId);
+}
+
+/**
+ * Сохранение напоминаний по умолчанию (null — системные)
+ */
+export function setUserReminderOffsets(userId: number, offsets: readonly number[] | null): number[] {
+    const normalized = offsets ? normalizeReminderOffsets(offsets) : null;
+
+    settingsRepo.update({ userId, reminderOffsets: normalized });
+
+    Log.info({ userId }, 'Reminder offsets updated', { offsets: normalized });
+
+    return normalized ?? config.reminders.defaultOffsets;
+}
+
+/**
+ * Тип напоминания в таблице reminders: '24h' для целых часов, иначе '90m'
+ * Совпадает со старыми типами '24h', '6h', '2h', поэтому отправленное раньше не повторяется
+ */
+export function reminderType(offset: number): string {
+    return offset % 60 === 0 ? `${offset / 60}h` : `${offset}m`;
+}
+
+/**
+ * Окна напоминаний, в которые уже попал дедлайн
+ * Первым идёт самое близкое к дедлайну — о нём и напоминаем, остальные считаем пройденными
+ */
+export function getReachedOffsets(offsets: readonly number[], dueDate: Date, now: Date = new Date()): number[] {
+    const minutesLeft = (dueDate.getTime() - now.getTime()) / 60000;
+
+    return offsets
+        .filter(offset => minutesLeft <= offset)
+        .sort((a, b) => a - b);
+}
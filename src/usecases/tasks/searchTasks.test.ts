@@ -0,0 +1,117 @@
+import { config } from '../../config/env';
+import { initDatabase, closeDatabase } from '../../data/db';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { TaskStatus, TaskPriority, TaskCategory } from '../../interfaces/task';
+import { UserRole } from '../../interfaces/user';
+import { ErrorCodes } from '../../utils/errors';
+import { parseSearchQuery, searchTasks } from './searchTasks';
+
+const TIME_ZONE = 'Asia/Tashkent';
+const NOW = new Date('2024-03-13T07:00:00.000Z'); // 12:00 в Ташкенте
+
+describe('parseSearchQuery', () => {
+    it('separates filters from search words', () => {
+        const query = parseSearchQuery('отчёт status:in_progress @ali #дизайн due:today', TIME_ZONE, NOW);
+
+        expect(query).toEqual({
+            terms: ['otchet'],
+            status: TaskStatus.IN_PROGRESS,
+            assignee: 'ali',
+            category: TaskCategory.DESIGN,
+            dueFrom: new Date('2024-03-12T19:00:00.000Z'),
+            dueTo: new Date('2024-03-13T19:00:00.000Z'),
+        });
+    });
+
+    it('accepts priority tags in any language', () => {
+        expect(parseSearchQuery('#yuqori', TIME_ZONE, NOW).priority).toBe(TaskPriority.HIGH);
+        expect(parseSearchQuery('#critical', TIME_ZONE, NOW).priority).toBe(TaskPriority.CRITICAL);
+    });
+
+    it('limits overdue to open tasks', () => {
+        expect(parseSearchQuery('due:overdue', TIME_ZONE, NOW)).toEqual({
+            terms: [],
+            dueTo: NOW,
+            openOnly: true,
+        });
+    });
+
+    it('brings Cyrillic and Latin spellings to one key', () => {
+        expect(parseSearchQuery('Ҳисобот', TIME_ZONE, NOW).terms)
+            .toEqual(parseSearchQuery('xisobot', TIME_ZONE, NOW).terms);
+    });
+
+    it('rejects unknown filter values', () => {
+        expect(() => parseSearchQuery('status:later', TIME_ZONE, NOW))
+            .toThrow(expect.objectContaining({ code: ErrorCodes.VALIDATION_ERROR }));
+        expect(() => parseSearchQuery('#marketing', TIME_ZONE, NOW))
+            .toThrow(expect.objectContaining({ code: ErrorCodes.VALIDATION_ERROR }));
+    });
+});
+
+describe('searchTasks', () => {
+    beforeEach(() => {
+        config.database.path = ':memory:';
+        initDatabase();
+        usersRepo.create({ telegramId: 1, username: 'ali', fullName: 'Ali Valiev', role: UserRole.EMPLOYEE });
+        usersRepo.create({ telegramId: 2, username: 'olga', fullName: 'Ольга', role: UserRole.EMPLOYEE });
+
+        createTask('report-ali', 'Ҳисобот за март', 1, TaskStatus.IN_PROGRESS, TaskCategory.DOCUMENTATION);
+        createTask('report-olga', 'Hisobot for April', 2, TaskStatus.TODO, TaskCategory.DOCUMENTATION);
+        createTask('design', 'Макет главной страницы', 1, TaskStatus.TODO, TaskCategory.DESIGN);
+    });
+
+    afterEach(() => {
+        closeDatabase();
+    });
+
+    /**
+     * Задача с исполнителем
+     */
+    function createTask(
+        plankaCardId: string,
+        title: string,
+        assignedTo: number,
+        status: TaskStatus,
+        category: TaskCategory
+    ) {
+        return tasksRepo.create({
+            plankaCardId,
+            title,
+            priority: TaskPriority.MEDIUM,
+            category,
+            status,
+            createdBy: 1,
+            assignedTo,
+            chatId: 1,
+        });
+    }
+
+    /**
+     * ID карточек найденных задач
+     */
+    function search(query: string): string[] {
+        return searchTasks(query, undefined, TIME_ZONE, NOW).map(task => task.plankaCardId ?? '').sort();
+    }
+
+    it('finds tasks regardless of the alphabet', () => {
+        expect(search('хисобот')).toEqual(['report-ali', 'report-olga']);
+        expect(search('hisob')).toEqual(['report-ali', 'report-olga']);
+        expect(search('maket')).toEqual(['design']);
+    });
+
+    it('combines words with filters', () => {
+        expect(search('hisobot @ali')).toEqual(['report-ali']);
+        expect(search('hisobot status:todo')).toEqual(['report-olga']);
+        expect(search('#дизайн')).toEqual(['design']);
+    });
+
+    it('returns a task by its card id', () => {
+        expect(search('report-olga')).toEqual(['report-olga']);
+    });
+
+    it('returns nothing for unmatched words', () => {
+        expect(search('бюджет')).toEqual([]);
+    });
+});
@@ -0,0 +1,159 @@
+import { Task, TaskSearchQuery, TaskStatus, TaskPriority, TaskCategory, TaskDueWindow } from '../../interfaces/task';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { isTaskLabel } from './taskLabels';
+import { config } from '../../config/env';
+import { LIMITS } from '../../config/constants';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import { assertNotEmpty } from '../../utils/guard';
+import { toSearchKey } from '../../utils/lang';
+import Log from '../../utils/log';
+import dayjs from '../../utils/dayjs';
+
+/**
+ * Значения фильтра due:
+ */
+export const DUE_WINDOWS: readonly TaskDueWindow[] = ['today', 'tomorrow', 'week', 'month', 'overdue'];
+
+/**
+ * Поиск задач по названию, описанию, комментариям или ID карточки
+ * Запрос может содержать фильтры: status:in_progress @ali due:week #design
+ */
+export function searchTasks(
+    query: string,
+    boardId?: string,
+    timeZone: string = config.timezone.default,
+    now: Date = new Date()
+): Task[] {
+    const normalized = query.trim();
+    assertNotEmpty(normalized, 'Search query');
+
+    // ID карточки целиком — сразу нужная задача
+    const byId = tasksRepo.getByPlankaId(normalized);
+
+    if (byId && (!boardId || byId.boardId === boardId)) {
+        return [byId];
+    }
+
+    const searchQuery = parseSearchQuery(normalized, timeZone, now);
+    const tasks = tasksRepo.search({ ...searchQuery, boardId }, LIMITS.MAX_SEARCH_RESULTS);
+
+    Log.info({}, 'Tasks searched', { query: normalized, boardId, found: tasks.length });
+
+    return tasks;
+}
+
+/**
+ * Разбор запроса на слова и фильтры
+ * Неизвестный фильтр — VALIDATION_ERROR с { filter } в meta
+ */
+export function parseSearchQuery(
+    query: string,
+    timeZone: string = config.timezone.default,
+    now: Date = new Date()
+): TaskSearchQuery {
+    const words: string[] = [];
+    const result: TaskSearchQuery = { terms: [] };
+
+    for (const token of query.split(/\s+/).filter(Boolean)) {
+        const lower = token.toLowerCase();
+
+        if (lower.startsWith('status:')) {
+            result.status = parseStatus(token, lower.slice('status:'.length));
+        } else if (lower.startsWith('due:')) {
+            Object.assign(result, getDueRange(parseDue(token, lower.slice('due:'.length)), timeZone, now));
+        } else if (token.length > 1 && token.startsWith('@')) {
+            result.assignee = token.slice(1);
+        } else if (token.length > 1 && token.startsWith('#')) {
+            Object.assign(result, parseTag(token, token.slice(1)));
+        } else {
+            words.push(token);
+        }
+    }
+
+    result.terms = toSearchKey(words.join(' '))
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean);
+
+    return result;
+}
+
+/**
+ * status:<код статуса>
+ */
+function parseStatus(token: string, value: string): TaskStatus {
+    const status = Object.values(TaskStatus).find(code => code === value);
+
+    if (!status) {
+        throw invalidFilter(token);
+    }
+
+    return status;
+}
+
+/**
+ * due:today|tomorrow|week|month|overdue
+ */
+function parseDue(token: string, value: string): TaskDueWindow {
+    const due = DUE_WINDOWS.find(window => window === value);
+
+    if (!due) {
+        throw invalidFilter(token);
+    }
+
+    return due;
+}
+
+/**
+ * #<категория или приоритет> — кодом или названием на любом языке
+ */
+function parseTag(token: string, value: string): Pick<TaskSearchQuery, 'category' | 'priority'> {
+    const category = Object.values(TaskCategory).find(code => isTaskLabel(value, code));
+
+    if (category) {
+        return { category };
+    }
+
+    const priority = Object.values(TaskPriority).find(code => isTaskLabel(value, code));
+
+    if (priority) {
+        return { priority };
+    }
+
+    throw invalidFilter(token);
+}
+
+/**
+ * Интервал дедлайна для фильтра due: — дни считаются по часовому поясу пользователя
+ * week и month — от начала сегодняшнего дня на 7 и 30 дней вперёд
+ */
+export function getDueRange(
+    due: TaskDueWindow,
+    timeZone: string,
+    now: Date
+): Pick<TaskSearchQuery, 'dueFrom' | 'dueTo' | 'openOnly'> {
+    const today = dayjs(now).tz(timeZone).startOf('day');
+
+    switch (due) {
+        case 'today':
+            return { dueFrom: today.toDate(), dueTo: today.add(1, 'day').toDate() };
+        case 'tomorrow':
+            return { dueFrom: today.add(1, 'day').toDate(), dueTo: today.add(2, 'day').toDate() };
+        case 'week':
+            return { dueFrom: today.toDate(), dueTo: today.add(7, 'day').toDate() };
+        case 'month':
+            return { dueFrom: today.toDate(), dueTo: today.add(30, 'day').toDate() };
+        case 'overdue':
+            return { dueTo: now, openOnly: true };
+    }
+}
+
+/**
+ * Ошибка неизвестного фильтра
+ */
+function invalidFilter(filter: string): AppError {
+    return new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        'Unknown search filter',
+        { filter }
+    );
+}
@@ -0,0 +1,178 @@
+import { config } from '../../config/env';
+import { initDatabase, closeDatabase } from '../../data/db';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { remindersRepo } from '../../data/repo/remindersRepo';
+import { taskEventsRepo } from '../../data/repo/taskEventsRepo';
+import { plankaClient } from '../../clients/planka';
+import { PlankaCard, PlankaList } from '../../interfaces/planka';
+import { TaskStatus, TaskPriority, TaskCategory, TaskEventType } from '../../interfaces/task';
+import { UserRole } from '../../interfaces/user';
+import { reconcileBoard } from './syncFromPlanka';
+
+const DEFAULT_BOARD = 'board-main';
+const OTHER_BOARD = 'board-other';
+
+const TODO_LIST: PlankaList = {
+    id: 'list-todo',
+    boardId: DEFAULT_BOARD,
+    position: 1,
+    name: 'Новые',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+beforeEach(() => {
+    config.database.path = ':memory:';
+    config.planka.boardId = DEFAULT_BOARD;
+    initDatabase();
+    usersRepo.create({ telegramId: 1, role: UserRole.EMPLOYEE });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    closeDatabase();
+});
+
+/**
+ * Задача пользователя 1 на доске (без доски — доска по умолчанию)
+ */
+function createTask(plankaCardId: string, boardId?: string) {
+    return tasksRepo.create({
+        plankaCardId,
+        title: plankaCardId,
+        priority: TaskPriority.MEDIUM,
+        category: TaskCategory.OTHER,
+        status: TaskStatus.TODO,
+        createdBy: 1,
+        chatId: 1,
+        boardId,
+    });
+}
+
+/**
+ * Карточка Planka, совпадающая с задачей createTask
+ */
+function card(id: string, boardId: string): PlankaCard {
+    return {
+        id,
+        boardId,
+        listId: TODO_LIST.id,
+        creatorUserId: 'planka-1',
+        position: 1,
+        name: id,
+        isSubscribed: false,
+        isCompleted: false,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+/**
+ * Ответ Planka с доской из одного списка
+ */
+function mockSnapshot(cards: PlankaCard[]) {
+    return jest.spyOn(plankaClient, 'getBoardSnapshot').mockResolvedValue({
+        lists: [TODO_LIST],
+        cards,
+        cardMemberships: [],
+    });
+}
+
+/**
+ * ID карточек оставшихся задач
+ */
+function remainingCardIds(): string[] {
+    return tasksRepo.getAll().map(task => task.plankaCardId ?? '').sort();
+}
+
+describe('reconcileBoard', () => {
+    beforeEach(() => {
+        createTask('legacy');
+        createTask('main', DEFAULT_BOARD);
+        createTask('other', OTHER_BOARD);
+    });
+
+    it('deletes only missing tasks of the default board and tasks without a board', async () => {
+        mockSnapshot([]);
+
+        const report = await reconcileBoard();
+
+        expect(report.deleted).toBe(2);
+        expect(remainingCardIds()).toEqual(['other']);
+    });
+
+    it('keeps tasks of other boards while reconciling the default one', async () => {
+        mockSnapshot([card('legacy', DEFAULT_BOARD), card('main', DEFAULT_BOARD)]);
+
+        const report = await reconcileBoard(DEFAULT_BOARD);
+
+        expect(report.deleted).toBe(0);
+        expect(remainingCardIds()).toEqual(['legacy', 'main', 'other']);
+    });
+
+    it('deletes only tasks of the linked board being reconciled', async () => {
+        const snapshot = mockSnapshot([]);
+
+        const report = await reconcileBoard(OTHER_BOARD);
+
+        expect(snapshot).toHaveBeenCalledWith(OTHER_BOARD);
+        expect(report.deleted).toBe(1);
+        expect(remainingCardIds()).toEqual(['legacy', 'main']);
+    });
+
+    it('deletes missing tasks with sent reminders', async () => {
+        remindersRepo.markSent('legacy', 1, '24h');
+        mockSnapshot([card('main', DEFAULT_BOARD)]);
+
+        const report = await reconcileBoard();
+
+        expect(report.deleted).toBe(1);
+        expect(remainingCardIds()).toEqual(['main', 'other']);
+    });
+
+    it('keeps reconciling when a task cannot be deleted', async () => {
+        const remove = tasksRepo.delete.bind(tasksRepo);
+        jest.spyOn(tasksRepo, 'delete').mockImplementation(cardId => {
+            if (cardId === 'legacy') {
+                throw new Error('locked');
+            }
+
+            return remove(cardId);
+        });
+        mockSnapshot([]);
+
+        const report = await reconcileBoard();
+
+        expect(report).toMatchObject({ deleted: 1, failed: 1 });
+        expect(remainingCardIds()).toEqual(['legacy', 'other']);
+    });
+
+    it('records repaired deadlines and resets their reminders', async () => {
+        remindersRepo.markSent('main', 1, '24h');
+        mockSnapshot([
+            card('legacy', DEFAULT_BOARD),
+            { ...card('main', DEFAULT_BOARD), dueDate: '2024-02-01T10:00:00.000Z' },
+        ]);
+
+        const report = await reconcileBoard();
+
+        expect(report.updated).toBe(1);
+        expect(tasksRepo.getByPlankaId('main')?.dueDate).toEqual(new Date('2024-02-01T10:00:00.000Z'));
+        expect(remindersRepo.wasSent('main', 1, '24h')).toBe(false);
+        expect(taskEventsRepo.getByTask('main', TaskEventType.DUE_DATE)).toEqual([
+            expect.objectContaining({ data: { from: null, to: '2024-02-01T10:00:00.000Z' } }),
+        ]);
+    });
+
+    it('changes nothing when the board has no lists', async () => {
+        jest.spyOn(plankaClient, 'getBoardSnapshot').mockResolvedValue({
+            lists: [],
+            cards: [],
+            cardMemberships: [],
+        });
+
+        await expect(reconcileBoard()).rejects.toThrow('reconciliation aborted');
+        expect(remainingCardIds()).toEqual(['legacy', 'main', 'other']);
+    });
+});
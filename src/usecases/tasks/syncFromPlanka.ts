@@ -0,0 +1,614 @@
+import crypto from 'crypto';
+import { PlankaCard, PlankaComment, PlankaList, PlankaMember, PlankaWebhookEvent } from '../../interfaces/planka';
+import { Task, TaskStatus, TaskPriority, TaskCategory, TaskEventType } from '../../interfaces/task';
+import { User } from '../../interfaces/user';
+import { plankaClient } from '../../clients/planka';
+import { telegramClient } from '../../clients/telegram';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { remindersRepo } from '../../data/repo/remindersRepo';
+import { getText } from '../../bot/replies';
+import { config } from '../../config/env';
+import { TASK_STATUS_DISPLAY } from '../../config/constants';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import { getStatusForList } from './updateStatus';
+import { recordTaskEvent } from './taskHistory';
+import { forwardPlankaComment, rememberTaskMessage } from './taskComments';
+import { isTrackedBoard, getBoardChatId } from '../workspaces/resolveWorkspace';
+import Log from '../../utils/log';
+
+/**
+ * События Planka, которые мы обрабатываем
+ */
+const HANDLED_EVENTS = [
+    'cardCreate',
+    'cardUpdate',
+    'cardDelete',
+    'cardMembershipCreate',
+    'cardMembershipDelete',
+    'actionCreate',
+] as const;
+
+type HandledEvent = typeof HANDLED_EVENTS[number];
+
+/**
+ * Проверка подлинности входящего webhook
+ * Planka передаёт accessToken webhook-а в заголовке Authorization
+ */
+export function verifyPlankaWebhook(authorization?: string): boolean {
+    const secret = config.planka.webhookSecret;
+
+    if (!secret) {
+        Log.warn({ service: 'planka' }, 'PLANKA_WEBHOOK_SECRET is not set, webhook rejected');
+        return false;
+    }
+
+    const token = (authorization || '').replace(/^Bearer\s+/i, '');
+
+    const expected = Buffer.from(secret);
+    const received = Buffer.from(token);
+
+    if (expected.length !== received.length) {
+        return false;
+    }
+
+    return crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Обработка события webhook от Planka
+ */
+export async function handlePlankaWebhook(
+    payload: PlankaWebhookEvent
+): Promise<{ handled: boolean }> {
+    const item = payload?.data?.item;
+
+    if (!payload?.event || !hasStringFields<{ id: string }>(item, 'id')) {
+        Log.warn({ service: 'planka' }, 'Malformed webhook payload');
+        return { handled: false };
+    }
+
+    if (!(HANDLED_EVENTS as readonly string[]).includes(payload.event)) {
+        return { handled: false };
+    }
+
+    const event = payload.event as HandledEvent;
+
+    Log.external('planka', 'Webhook received', {
+        event,
+        itemId: item.id,
+    });
+
+    // Пользователь Planka, совершивший действие
+    const actor = payload.user
+        ? usersRepo.getByPlankaUserId(payload.user.id)
+        : null;
+
+    switch (event) {
+        case 'cardCreate':
+            return { handled: isPlankaCard(item) && await handleCardCreate(item) };
+
+        case 'cardUpdate':
+            return {
+                handled: isPlankaCard(item) && await handleCardUpdate(
+                    item,
+                    actor,
+                    payload.data.included?.lists
+                ),
+            };
+
+        case 'cardDelete':
+            return { handled: isPlankaCard(item) && await handleCardDelete(item, actor) };
+
+        case 'cardMembershipCreate':
+            return { handled: isPlankaMember(item) && await handleMembershipChange(item, true, actor) };
+
+        case 'cardMembershipDelete':
+            return { handled: isPlankaMember(item) && await handleMembershipChange(item, false, actor) };
+
+        // Planka v1 присылает комментарии как действия карточки
+        case 'actionCreate':
+            return { handled: isPlankaComment(item) && await forwardPlankaComment(item, payload.user) };
+    }
+}
+
+/**
+ * Элемент события — объект с перечисленными строковыми полями
+ */
+function hasStringFields<T>(item: unknown, ...fields: Array<keyof T & string>): item is T {
+    return typeof item === 'object' && item !== null &&
+        fields.every(field => typeof (item as Record<string, unknown>)[field] === 'string');
+}
+
+/**
+ * Элемент события — карточка
+ */
+function isPlankaCard(item: unknown): item is PlankaCard {
+    return hasStringFields<PlankaCard>(item, 'id', 'boardId', 'listId');
+}
+
+/**
+ * Элемент события — участник карточки
+ */
+function isPlankaMember(item: unknown): item is PlankaMember {
+    return hasStringFields<PlankaMember>(item, 'id', 'cardId', 'userId');
+}
+
+/**
+ * Элемент события — действие-комментарий (остальные действия не пересылаем)
+ */
+function isPlankaComment(item: unknown): item is PlankaComment {
+    return hasStringFields<PlankaComment>(item, 'id', 'cardId', 'type') && item.type === 'commentCard';
+}
+
+/**
+ * Карточка создана в Planka
+ * Созданные ботом карточки уже есть в БД, добавляем только чужие
+ */
+async function handleCardCreate(card: PlankaCard): Promise<boolean> {
+    if (!isTrackedBoard(card.boardId) || tasksRepo.getByPlankaId(card.id)) {
+        return false;
+    }
+
+    const lists = await plankaClient.getBoardLists(card.boardId);
+
+    return importCard(card, lists) !== null;
+}
+
+/**
+ * Создание локальной задачи для карточки, созданной вне бота
+ * Задача попадает в чат, к которому привязана доска, иначе — в личку автора
+ */
+function importCard(
+    card: PlankaCard,
+    lists: Array<{ id: string; name: string }>,
+    memberUserIds: string[] = []
+): Task | null {
+    // Пока ждали списки доски, задачу мог сохранить бот
+    if (tasksRepo.getByPlankaId(card.id)) {
+        return null;
+    }
+
+    const creator = usersRepo.getByPlankaUserId(card.creatorUserId);
+
+    if (!creator) {
+        Log.info({ service: 'planka' }, 'Card creator is not registered, skipping', {
+            cardId: card.id,
+        });
+        return null;
+    }
+
+    const assignee = memberUserIds
+        .map(id => usersRepo.getByPlankaUserId(id))
+        .find((user): user is User => user !== null);
+
+    return tasksRepo.create({
+        plankaCardId: card.id,
+        title: card.name,
+        description: card.description,
+        priority: TaskPriority.MEDIUM,
+        category: TaskCategory.OTHER,
+        status: resolveCardStatus(card, lists) || TaskStatus.TODO,
+        createdBy: creator.telegramId,
+        assignedTo: assignee?.telegramId,
+        chatId: getBoardChatId(card.boardId) ?? creator.telegramId,
+        boardId: card.boardId,
+        dueDate: card.dueDate ? new Date(card.dueDate) : undefined,
+    });
+}
+
+/**
+ * Карточка изменена в Planka (название, описание, срок, список)
+ */
+async function handleCardUpdate(
+    card: PlankaCard,
+    actor: User | null,
+    includedLists?: PlankaList[]
+): Promise<boolean> {
+    const task = tasksRepo.getByPlankaId(card.id);
+
+    if (!task) {
+        return false;
+    }
+
+    const lists = includedLists?.length
+        ? includedLists
+        : await plankaClient.getBoardLists(card.boardId);
+
+    const changes = diffCardWithTask(card, task, lists);
+
+    if (Object.keys(changes).length === 0) {
+        return false;
+    }
+
+    const updatedTask = tasksRepo.update(card.id, changes);
+
+    await recordPlankaChanges(card.id, task, changes, actor);
+
+    if (updatedTask && changes.status) {
+        await notifyAssignee(updatedTask, actor, (t, lang) =>
+            t.notifications.planka.statusChanged(
+                updatedTask.title,
+                TASK_STATUS_DISPLAY[changes.status!][lang]
+            )
+        );
+    } else if (updatedTask) {
+        await notifyAssignee(updatedTask, actor, t =>
+            t.notifications.planka.updated(updatedTask.title)
+        );
+    }
+
+    return true;
+}
+
+/**
+ * Карточка удалена в Planka
+ */
+async function handleCardDelete(card: PlankaCard, actor: User | null): Promise<boolean> {
+    const task = tasksRepo.getByPlankaId(card.id);
+
+    if (!task) {
+        return false;
+    }
+
+    tasksRepo.delete(card.id);
+
+    await notifyAssignee(task, actor, t => t.notifications.planka.deleted(task.title));
+
+    return true;
+}
+
+/**
+ * Участник добавлен/удалён из карточки в Planka
+ */
+async function handleMembershipChange(
+    membership: PlankaMember,
+    added: boolean,
+    actor: User | null
+): Promise<boolean> {
+    const task = tasksRepo.getByPlankaId(membership.cardId);
+    const member = usersRepo.getByPlankaUserId(membership.userId);
+
+    if (!task || !member) {
+        return false;
+    }
+
+    if (added) {
+        if (task.assigneeId === String(member.telegramId)) {
+            return false;
+        }
+
+        const updatedTask = tasksRepo.update(membership.cardId, {
+            assignedTo: member.telegramId,
+        });
+
+        await recordTaskEvent({
+            taskId: membership.cardId,
+            type: TaskEventType.ASSIGNED,
+            actorId: actor?.telegramId,
+            data: { from: task.assigneeId ? Number(task.assigneeId) : null, to: member.telegramId },
+        }, { comment: false });
+
+        if (updatedTask) {
+            await notifyAssignee(updatedTask, actor, t =>
+                t.notifications.taskAssigned(updatedTask.title)
+            );
+        }
+
+        return true;
+    }
+
+    // Снимаем исполнителя только если удалён именно он
+    if (task.assigneeId !== String(member.telegramId)) {
+        return false;
+    }
+
+    tasksRepo.update(membership.cardId, { assignedTo: null });
+
+    await recordTaskEvent({
+        taskId: membership.cardId,
+        type: TaskEventType.ASSIGNED,
+        actorId: actor?.telegramId,
+        data: { from: member.telegramId, to: null },
+    }, { comment: false });
+
+    await notifyAssignee(task, actor, t => t.notifications.planka.unassigned(task.title));
+
+    return true;
+}
+
+/**
+ * Запись изменений из Planka в историю
+ * Комментарии не пишем — изменение и так видно в Planka
+ */
+async function recordPlankaChanges(
+    cardId: string,
+    task: Task,
+    changes: ReturnType<typeof diffCardWithTask>,
+    actor: User | null
+): Promise<void> {
+    const base = { taskId: cardId, actorId: actor?.telegramId };
+
+    if (changes.status) {
+        await recordTaskEvent({
+            ...base,
+            type: TaskEventType.STATUS,
+            data: { from: task.status, to: changes.status },
+        }, { comment: false });
+    }
+
+    if (changes.dueDate !== undefined) {
+        // Новый срок — напоминания отсчитываются заново
+        remindersRepo.clearForTask(cardId);
+
+        await recordTaskEvent({
+            ...base,
+            type: TaskEventType.DUE_DATE,
+            data: {
+                from: task.dueDate ? task.dueDate.toISOString() : null,
+                to: changes.dueDate ? changes.dueDate.toISOString() : null,
+            },
+        }, { comment: false });
+    }
+
+    const editedFields = (['title', 'description'] as const).filter(field => changes[field] !== undefined);
+
+    if (editedFields.length > 0) {
+        await recordTaskEvent({
+            ...base,
+            type: TaskEventType.EDITED,
+            data: { fields: editedFields },
+        }, { comment: false });
+    }
+}
+
+/**
+ * Сравнение карточки Planka с локальной задачей
+ * Возвращает только изменившиеся поля
+ */
+export function diffCardWithTask(
+    card: PlankaCard,
+    task: Task,
+    lists: Array<{ id: string; name: string }>
+): {
+    title?: string;
+    description?: string;
+    status?: TaskStatus;
+    dueDate?: Date | null;
+} {
+    const changes: {
+        title?: string;
+        description?: string;
+        status?: TaskStatus;
+        dueDate?: Date | null;
+    } = {};
+
+    if (card.name && card.name !== task.title) {
+        changes.title = card.name;
+    }
+
+    if ((card.description || '') !== (task.description || '')) {
+        changes.description = card.description || '';
+    }
+
+    const cardDue = card.dueDate ? new Date(card.dueDate).getTime() : null;
+    const taskDue = task.dueDate ? task.dueDate.getTime() : null;
+
+    if (cardDue !== taskDue) {
+        changes.dueDate = cardDue !== null ? new Date(cardDue) : null;
+    }
+
+    const status = resolveCardStatus(card, lists);
+
+    if (status && status !== task.status) {
+        changes.status = status;
+    }
+
+    return changes;
+}
+
+/**
+ * Сравнение участников карточки с исполнителем задачи
+ * Возвращает нового исполнителя (null - снять), либо undefined если изменений нет
+ */
+function diffCardMembers(
+    task: Task,
+    memberUserIds: string[]
+): number | null | undefined {
+    const members = memberUserIds
+        .map(id => usersRepo.getByPlankaUserId(id))
+        .filter((user): user is User => user !== null);
+
+    if (members.some(user => String(user.telegramId) === task.assigneeId)) {
+        return undefined;
+    }
+
+    if (members.length > 0) {
+        return members[0]!.telegramId;
+    }
+
+    if (!task.assigneeId) {
+        return undefined;
+    }
+
+    // Исполнитель без аккаунта Planka не может быть участником карточки,
+    // поэтому снимаем его только если он привязан к Planka
+    const current = usersRepo.getByTelegramId(parseInt(task.assigneeId));
+
+    return current?.plankaUserId ? null : undefined;
+}
+
+/**
+ * Полная сверка доски Planka с таблицей tasks
+ * Добавляет карточки, созданные вне бота, удаляет исчезнувшие
+ * и исправляет расхождения в полях и участниках
+ */
+export async function reconcileBoard(boardId?: string): Promise<{
+    cards: number;
+    created: number;
+    updated: number;
+    deleted: number;
+    skipped: number;
+    failed: number;
+}> {
+    const report = {
+        cards: 0,
+        created: 0,
+        updated: 0,
+        deleted: 0,
+        skipped: 0,
+        failed: 0,
+    };
+
+    // Если доску получить не удалось - выходим до любых изменений,
+    // иначе можно удалить все локальные задачи
+    const snapshot = await plankaClient.getBoardSnapshot(boardId);
+
+    // Доска без списков - признак некорректного ответа API
+    if (snapshot.lists.length === 0) {
+        throw new AppError(
+            ErrorCodes.PLANKA_ERROR,
+            'Board snapshot has no lists, reconciliation aborted',
+            { boardId }
+        );
+    }
+
+    report.cards = snapshot.cards.length;
+
+    const membersByCard = new Map<string, string[]>();
+    for (const membership of snapshot.cardMemberships) {
+        const members = membersByCard.get(membership.cardId) || [];
+        members.push(membership.userId);
+        membersByCard.set(membership.cardId, members);
+    }
+
+    const cardIds = new Set<string>();
+
+    for (const card of snapshot.cards) {
+        cardIds.add(card.id);
+
+        try {
+            const memberUserIds = membersByCard.get(card.id) || [];
+            const task = tasksRepo.getByPlankaId(card.id);
+
+            if (!task) {
+                if (importCard(card, snapshot.lists, memberUserIds)) {
+                    report.created++;
+                } else {
+                    report.skipped++;
+                }
+                continue;
+            }
+
+            const changes = diffCardWithTask(card, task, snapshot.lists);
+            const update: Parameters<typeof tasksRepo.update>[1] = { ...changes };
+
+            const assignedTo = diffCardMembers(task, memberUserIds);
+            if (assignedTo !== undefined) {
+                update.assignedTo = assignedTo;
+            }
+
+            if (Object.keys(update).length > 0) {
+                tasksRepo.update(card.id, update);
+
+                // Пропущенные вебхуки: история и напоминания — как при обычном изменении
+                await recordPlankaChanges(card.id, task, changes, null);
+                report.updated++;
+            }
+        } catch (error) {
+            Log.error({ service: 'planka' }, 'Failed to reconcile card', error, {
+                cardId: card.id,
+            });
+            report.failed++;
+        }
+    }
+
+    // Задачи этой доски, карточек которых больше нет
+    // (задачи без доски считаются задачами доски по умолчанию)
+    const reconciledBoardId = boardId || config.planka.boardId;
+
+    for (const task of tasksRepo.getAll()) {
+        if ((task.boardId || config.planka.boardId) !== reconciledBoardId) {
+            continue;
+        }
+
+        if (!task.plankaCardId || cardIds.has(task.plankaCardId)) {
+            continue;
+        }
+
+        try {
+            tasksRepo.delete(task.plankaCardId);
+            report.deleted++;
+        } catch (error) {
+            Log.error({ service: 'planka' }, 'Failed to delete missing task', error, {
+                cardId: task.plankaCardId,
+            });
+            report.failed++;
+        }
+    }
+
+    return report;
+}
+
+/**
+ * Определение статуса по карточке: завершённая карточка всегда "done",
+ * иначе статус берётся из списка, в котором она лежит
+ */
+function resolveCardStatus(
+    card: PlankaCard,
+    lists: Array<{ id: string; name: string }>
+): TaskStatus | null {
+    if (card.isCompleted) {
+        return TaskStatus.DONE;
+    }
+
+    return getStatusForList(lists, card.listId);
+}
+
+/**
+ * Уведомление исполнителя об изменениях, сделанных в Planka
+ */
+async function notifyAssignee(
+    task: Task,
+    actor: User | null,
+    buildMessage: (t: ReturnType<typeof getText>, lang: User['language']) => string
+): Promise<void> {
+    const cardId = task.plankaCardId;
+
+    if (!cardId || !task.assigneeId) {
+        return;
+    }
+
+    const assignee = usersRepo.getByTelegramId(parseInt(task.assigneeId));
+
+    // Не уведомляем пользователя о его собственных действиях
+    if (!assignee || assignee.telegramId === actor?.telegramId) {
+        return;
+    }
+
+    const t = getText(assignee.language);
+
+    try {
+        const message = await telegramClient.sendMessage(
+            assignee.telegramId,
+            buildMessage(t, assignee.language),
+            {
+                parse_mode: 'Markdown',
+                reply_markup: {
+                    inline_keyboard: [[
+                        { text: t.buttons.viewTask, callback_data: `view_task_${cardId}` },
+                    ]],
+                },
+            }
+        );
+
+        rememberTaskMessage(message, cardId);
+    } catch (error) {
+        Log.error(
+            { userId: assignee.telegramId },
+            'Failed to notify assignee about Planka change',
+            error,
+            { taskId: cardId }
+        );
+    }
+}
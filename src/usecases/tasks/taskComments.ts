@@ -0,0 +1,206 @@
+import { PlankaComment, PlankaUser } from '../../interfaces/planka';
+import { Task, TaskComment } from '../../interfaces/task';
+import { User, Permission, hasPermission } from '../../interfaces/user';
+import { plankaClient } from '../../clients/planka';
+import { telegramClient } from '../../clients/telegram';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { taskMessagesRepo } from '../../data/repo/taskMessagesRepo';
+import { getText } from '../../bot/replies';
+import { config } from '../../config/env';
+import { LIMITS } from '../../config/constants';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import { assertNotEmpty, assertStringLength } from '../../utils/guard';
+import Log from '../../utils/log';
+
+/**
+ * Комментарий из Telegram в карточку Planka
+ * Все комментарии пишутся от сервисного аккаунта, поэтому автора указываем в тексте
+ */
+export async function addTaskComment(taskId: string, text: string, author: User): Promise<Task> {
+    const task = tasksRepo.getByPlankaId(taskId);
+
+    if (!task) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'Task not found',
+            { taskId }
+        );
+    }
+
+    if (!canCommentTask(task, author)) {
+        throw new AppError(
+            ErrorCodes.FORBIDDEN,
+            'Not allowed to comment this task',
+            { taskId, userId: author.telegramId }
+        );
+    }
+
+    assertNotEmpty(text, 'Comment');
+    assertStringLength(text.trim(), 1, LIMITS.MAX_COMMENT_LENGTH, 'Comment');
+
+    await plankaClient.addComment(taskId, `💬 ${displayName(author)} (Telegram):\n${text.trim()}`);
+    tasksRepo.indexSearchComment(taskId, text);
+
+    Log.info({ userId: author.telegramId }, 'Comment added from Telegram', { taskId });
+
+    return task;
+}
+
+/**
+ * Последние комментарии карточки (новые первыми)
+ */
+export async function getTaskComments(
+    taskId: string,
+    limit: number = LIMITS.COMMENTS_SHOWN
+): Promise<TaskComment[]> {
+    const { comments, users } = await plankaClient.getComments(taskId);
+
+    return comments
+        .slice()
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, limit)
+        .map(comment => ({
+            id: comment.id,
+            authorName: resolveAuthorName(comment.userId, users.find(user => user.id === comment.userId)),
+            text: comment.data.text,
+            createdAt: new Date(comment.createdAt),
+        }));
+}
+
+/**
+ * Может ли пользователь комментировать задачу
+ */
+export function canCommentTask(task: Task, user: User): boolean {
+    return hasPermission(user, Permission.EDIT_ANY_TASK)
+        || task.assigneeId === String(user.telegramId)
+        || task.createdBy === String(user.telegramId);
+}
+
+/**
+ * Пересылка нового комментария из Planka исполнителю и автору задачи
+ * Комментарии, оставленные через бота, не пересылаются
+ */
+export async function forwardPlankaComment(
+    comment: PlankaComment,
+    author?: PlankaUser
+): Promise<boolean> {
+    if (!comment?.cardId || !comment.data?.text || isServiceAccount(author)) {
+        return false;
+    }
+
+    const task = tasksRepo.getByPlankaId(comment.cardId);
+
+    if (!task) {
+        return false;
+    }
+
+    tasksRepo.indexSearchComment(task.plankaCardId!, comment.data.text);
+
+    const authorUser = usersRepo.getByPlankaUserId(comment.userId);
+    const authorName = resolveAuthorName(comment.userId, author);
+
+    const recipientIds = [...new Set([task.assigneeId, task.createdBy])]
+        .filter((id): id is string => Boolean(id))
+        .map(id => parseInt(id))
+        .filter(id => id !== authorUser?.telegramId);
+
+    for (const recipientId of recipientIds) {
+        const recipient = usersRepo.getByTelegramId(recipientId);
+
+        if (!recipient) {
+            continue;
+        }
+
+        const t = getText(recipient.language);
+
+        try {
+            const message = await telegramClient.sendMessage(
+                recipient.telegramId,
+                t.notifications.newComment(task.title, authorName, comment.data.text),
+                {
+                    reply_markup: {
+                        inline_keyboard: [[
+                            { text: t.buttons.viewTask, callback_data: `view_task_${task.plankaCardId}` },
+                            { text: t.buttons.comments, callback_data: `task_comments_${task.plankaCardId}` },
+                        ]],
+                    },
+                }
+            );
+
+            rememberTaskMessage(message, task.plankaCardId!);
+        } catch (error) {
+            Log.error(
+                { userId: recipient.telegramId },
+                'Failed to forward Planka comment',
+                error,
+                { taskId: task.plankaCardId }
+            );
+        }
+    }
+
+    Log.info({ service: 'planka' }, 'Planka comment forwarded', {
+        taskId: task.plankaCardId,
+        recipients: recipientIds.length,
+    });
+
+    return true;
+}
+
+/**
+ * Запоминаем сообщение бота по задаче, чтобы принять ответ на него как комментарий
+ */
+export function rememberTaskMessage(
+    message: { chat?: { id: number }; message_id?: number } | null | undefined,
+    taskId: string
+): void {
+    if (!message?.chat || !message.message_id) {
+        return;
+    }
+
+    try {
+        taskMessagesRepo.save(message.chat.id, message.message_id, taskId);
+    } catch (error) {
+        Log.warn({ chatId: message.chat.id }, 'Task message was not remembered', { taskId });
+    }
+}
+
+/**
+ * Задача, к которой относится сообщение бота (для ответов-комментариев)
+ */
+export function getTaskIdByMessage(chatId: number, messageId: number): string | null {
+    return taskMessagesRepo.getTaskId(chatId, messageId);
+}
+
+/**
+ * Комментарий оставлен сервисным аккаунтом бота
+ */
+function isServiceAccount(author?: PlankaUser): boolean {
+    if (!author || !config.planka.username) {
+        return false;
+    }
+
+    const login = config.planka.username.toLowerCase();
+
+    return author.username?.toLowerCase() === login || author.email?.toLowerCase() === login;
+}
+
+/**
+ * Имя автора комментария: сначала наш пользователь, затем профиль Planka
+ */
+function resolveAuthorName(plankaUserId: string, plankaUser?: PlankaUser): string {
+    const user = usersRepo.getByPlankaUserId(plankaUserId);
+
+    if (user) {
+        return displayName(user);
+    }
+
+    return plankaUser?.name || plankaUser?.username || 'Planka';
+}
+
+/**
+ * Отображаемое имя пользователя
+ */
+function displayName(user: User): string {
+    return user.fullName || user.username || String(user.telegramId);
+}
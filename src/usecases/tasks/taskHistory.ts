@@ -0,0 +1,82 @@
+import { TaskEvent, TaskEventType } from '../../interfaces/task';
+import { Language } from '../../interfaces/user';
+import { plankaClient } from '../../clients/planka';
+import { taskEventsRepo } from '../../data/repo/taskEventsRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { getText, describeTaskEvent, formatDateTime } from '../../bot/replies';
+import { config } from '../../config/env';
+import Log from '../../utils/log';
+
+/**
+ * Запись события в историю задачи + комментарий в карточке Planka
+ * Ошибки не пробрасываются: история не должна ломать основное действие
+ */
+export async function recordTaskEvent(
+    event: {
+        taskId: string;
+        type: TaskEventType;
+        actorId?: number;
+        data?: Record<string, any>;
+    },
+    options: { comment?: boolean } = {}
+): Promise<TaskEvent | null> {
+    let saved: TaskEvent;
+
+    try {
+        saved = taskEventsRepo.create(event);
+    } catch (error) {
+        Log.error({ userId: event.actorId }, 'Failed to record task event', error, {
+            taskId: event.taskId,
+            type: event.type,
+        });
+        return null;
+    }
+
+    if (options.comment !== false) {
+        try {
+            await plankaClient.addComment(event.taskId, formatEventComment(saved));
+        } catch (error) {
+            Log.warn({ service: 'planka' }, 'Task event comment was not posted', {
+                taskId: event.taskId,
+                type: event.type,
+            });
+        }
+    }
+
+    return saved;
+}
+
+/**
+ * История задачи
+ */
+export function getTaskHistory(taskId: string): TaskEvent[] {
+    return taskEventsRepo.getByTask(taskId);
+}
+
+/**
+ * Текст комментария для карточки Planka
+ * Язык и часовой пояс — автора действия; действия из Planka — по умолчанию
+ */
+export function formatEventComment(event: TaskEvent): string {
+    const actor = event.actorId ? usersRepo.getByTelegramId(event.actorId) : null;
+    const lang = actor?.language ?? Language.RU;
+    const timeZone = actor?.timezone ?? config.timezone.default;
+
+    return `${describeEvent(event, lang, timeZone)}
+👤 ${event.actorName || 'Planka'}
+🕐 ${formatDateTime(event.createdAt, lang, timeZone)}`;
+}
+
+/**
+ * Описание события для комментария — как в истории, но с именем исполнителя
+ */
+function describeEvent(event: TaskEvent, lang: Language, timeZone: string): string {
+    if (event.type === TaskEventType.ASSIGNED && event.data.to) {
+        const assignee = usersRepo.getByTelegramId(Number(event.data.to));
+        const name = assignee?.fullName || assignee?.username || String(event.data.to);
+
+        return getText(lang).tasks.history.assignedTo(name);
+    }
+
+    return describeTaskEvent(event, lang, timeZone);
+}
@@ -0,0 +1,29 @@
+import { TaskPriority, TaskCategory } from '../../interfaces/task';
+import { Language } from '../../interfaces/user';
+import { formatPriority, formatCategory } from '../../bot/replies';
+
+/**
+ * Соответствует ли лейбл Planka приоритету или категории
+ * На досках лейблы называют по-разному: кодом ("high") или названием на любом из языков
+ */
+export function isTaskLabel(labelName: string | undefined, value: TaskPriority | TaskCategory): boolean {
+    if (!labelName) {
+        return false;
+    }
+
+    return getLabelNames(value).includes(labelName.trim().toLowerCase());
+}
+
+/**
+ * Возможные названия лейбла для кода
+ */
+function getLabelNames(value: TaskPriority | TaskCategory): string[] {
+    const isPriority = (Object.values(TaskPriority) as string[]).includes(value);
+
+    const names = [Language.RU, Language.UZ].map(lang => isPriority
+        ? formatPriority(value as TaskPriority, lang)
+        : formatCategory(value as TaskCategory, lang)
+    );
+
+    return [value, ...names].map(name => name.toLowerCase());
+}
@@ -0,0 +1,151 @@
+import { config } from '../../config/env';
+import { LIMITS } from '../../config/constants';
+import { initDatabase, closeDatabase } from '../../data/db';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { TaskStatus, TaskPriority, TaskCategory } from '../../interfaces/task';
+import { User, UserRole } from '../../interfaces/user';
+import { ErrorCodes } from '../../utils/errors';
+import {
+    listTasks,
+    setListFilter,
+    isDefaultListFilters,
+    DEFAULT_TASK_LIST_FILTERS,
+} from './taskList';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-03-13T07:00:00.000Z');
+
+/**
+ * Задача с исполнителем, приоритетом и дедлайном
+ */
+function createTask(
+    plankaCardId: string,
+    assignedTo: number,
+    options: { priority?: TaskPriority; dueDate?: Date; createdBy?: number } = {}
+) {
+    return tasksRepo.create({
+        plankaCardId,
+        title: plankaCardId,
+        priority: options.priority ?? TaskPriority.MEDIUM,
+        category: TaskCategory.OTHER,
+        status: TaskStatus.TODO,
+        createdBy: options.createdBy ?? assignedTo,
+        assignedTo,
+        chatId: 1,
+        dueDate: options.dueDate,
+    });
+}
+
+/**
+ * ID карточек задач страницы в порядке вывода
+ */
+function cardIds(user: User, filters = DEFAULT_TASK_LIST_FILTERS, page = 1): string[] {
+    return listTasks(user, filters, page, 'UTC', NOW).tasks.map(task => task.plankaCardId ?? '');
+}
+
+describe('listTasks', () => {
+    let employee: User;
+    let owner: User;
+
+    beforeEach(() => {
+        config.database.path = ':memory:';
+        initDatabase();
+        employee = usersRepo.create({ telegramId: 1, role: UserRole.EMPLOYEE });
+        owner = usersRepo.create({ telegramId: 2, role: UserRole.OWNER });
+    });
+
+    afterEach(() => {
+        closeDatabase();
+    });
+
+    it('splits tasks into pages and clamps the page number', () => {
+        for (let i = 0; i < LIMITS.TASKS_PER_PAGE + 2; i++) {
+            createTask(`task-${i}`, employee.telegramId, { dueDate: new Date(NOW.getTime() + (i + 1) * DAY) });
+        }
+
+        const first = listTasks(employee, DEFAULT_TASK_LIST_FILTERS, 1, 'UTC', NOW);
+        const last = listTasks(employee, DEFAULT_TASK_LIST_FILTERS, 99, 'UTC', NOW);
+
+        expect(first).toMatchObject({ total: LIMITS.TASKS_PER_PAGE + 2, page: 1 });
+        expect(first.tasks).toHaveLength(LIMITS.TASKS_PER_PAGE);
+        expect(last.page).toBe(2);
+        expect(last.tasks.map(task => task.plankaCardId)).toEqual([
+            `task-${LIMITS.TASKS_PER_PAGE}`,
+            `task-${LIMITS.TASKS_PER_PAGE + 1}`,
+        ]);
+        expect(listTasks(employee, DEFAULT_TASK_LIST_FILTERS, 0, 'UTC', NOW).page).toBe(1);
+    });
+
+    it('returns the first page of an empty list', () => {
+        expect(listTasks(employee, DEFAULT_TASK_LIST_FILTERS, 3, 'UTC', NOW)).toMatchObject({
+            tasks: [],
+            total: 0,
+            page: 1,
+        });
+    });
+
+    it('sorts by nearest deadline with undated tasks last', () => {
+        createTask('undated', employee.telegramId);
+        createTask('later', employee.telegramId, { dueDate: new Date(NOW.getTime() + 3 * DAY) });
+        createTask('sooner', employee.telegramId, { dueDate: new Date(NOW.getTime() + DAY) });
+
+        expect(cardIds(employee)).toEqual(['sooner', 'later', 'undated']);
+    });
+
+    it('sorts by priority, then by deadline', () => {
+        createTask('low', employee.telegramId, { priority: TaskPriority.LOW });
+        createTask('high-later', employee.telegramId, {
+            priority: TaskPriority.HIGH,
+            dueDate: new Date(NOW.getTime() + 3 * DAY),
+        });
+        createTask('high-sooner', employee.telegramId, {
+            priority: TaskPriority.HIGH,
+            dueDate: new Date(NOW.getTime() + DAY),
+        });
+        createTask('critical', employee.telegramId, { priority: TaskPriority.CRITICAL });
+
+        expect(cardIds(employee, { scope: 'assigned', sort: 'priority' }))
+            .toEqual(['critical', 'high-sooner', 'high-later', 'low']);
+    });
+
+    it('lists the whole team only for owners', () => {
+        createTask('mine', employee.telegramId, { createdBy: owner.telegramId });
+        createTask('theirs', owner.telegramId);
+
+        const all = { scope: 'all', sort: 'created' } as const;
+
+        expect(cardIds(employee, all)).toEqual(['mine']);
+        expect(cardIds(owner, all)).toEqual(['theirs', 'mine']);
+        expect(cardIds(owner, { scope: 'created', sort: 'created' })).toEqual(['theirs', 'mine']);
+    });
+});
+
+describe('setListFilter', () => {
+    it('sets and removes optional filters', () => {
+        const filtered = setListFilter(DEFAULT_TASK_LIST_FILTERS, 'status', TaskStatus.IN_PROGRESS);
+
+        expect(filtered).toEqual({ ...DEFAULT_TASK_LIST_FILTERS, status: TaskStatus.IN_PROGRESS });
+        expect(setListFilter(filtered, 'status', undefined)).toEqual(DEFAULT_TASK_LIST_FILTERS);
+    });
+
+    it('resets scope and sort to their defaults', () => {
+        const filters = { scope: 'created', sort: 'priority' } as const;
+
+        expect(setListFilter(filters, 'scope', undefined).scope).toBe(DEFAULT_TASK_LIST_FILTERS.scope);
+        expect(setListFilter(filters, 'sort', undefined).sort).toBe(DEFAULT_TASK_LIST_FILTERS.sort);
+    });
+
+    it('rejects values outside the filter options', () => {
+        expect(() => setListFilter(DEFAULT_TASK_LIST_FILTERS, 'sort', 'title'))
+            .toThrow(expect.objectContaining({ code: ErrorCodes.VALIDATION_ERROR }));
+    });
+});
+
+describe('isDefaultListFilters', () => {
+    it('is true only without changes', () => {
+        expect(isDefaultListFilters(DEFAULT_TASK_LIST_FILTERS)).toBe(true);
+        expect(isDefaultListFilters({ ...DEFAULT_TASK_LIST_FILTERS, due: 'week' })).toBe(false);
+        expect(isDefaultListFilters({ ...DEFAULT_TASK_LIST_FILTERS, sort: 'created' })).toBe(false);
+    });
+});
@@ -0,0 +1,213 @@
+import {
+    TaskListFilters,
+    TaskSearchQuery,
+    TaskSearchResult,
+    TaskView,
+    TaskStatus,
+    TaskPriority,
+    TaskCategory,
+    TaskListScope,
+    TaskListSort,
+} from '../../interfaces/task';
+import { User, Permission, hasPermission } from '../../interfaces/user';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { taskViewsRepo } from '../../data/repo/taskViewsRepo';
+import { DUE_WINDOWS, getDueRange } from './searchTasks';
+import { config } from '../../config/env';
+import { LIMITS } from '../../config/constants';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import { assertNotEmpty, assertStringLength } from '../../utils/guard';
+import Log from '../../utils/log';
+
+/**
+ * Значения фильтров списка задач (порядок — как в кнопках)
+ */
+export const TASK_LIST_OPTIONS = {
+    scope: ['assigned', 'created', 'all'] as readonly TaskListScope[],
+    status: Object.values(TaskStatus),
+    priority: Object.values(TaskPriority),
+    category: Object.values(TaskCategory),
+    due: DUE_WINDOWS,
+    sort: ['due', 'priority', 'created'] as readonly TaskListSort[],
+};
+
+export type TaskListFilterField = keyof typeof TASK_LIST_OPTIONS;
+
+/**
+ * /my_tasks без фильтров: назначенные мне, ближайшие дедлайны первыми
+ */
+export const DEFAULT_TASK_LIST_FILTERS: TaskListFilters = {
+    scope: 'assigned',
+    sort: 'due',
+};
+
+/**
+ * Страница списка задач пользователя
+ * Номер страницы приводится к существующему диапазону
+ */
+export function listTasks(
+    user: User,
+    filters: TaskListFilters,
+    page: number = 1,
+    timeZone: string = config.timezone.default,
+    now: Date = new Date()
+): TaskSearchResult {
+    const query = buildListQuery(user, filters, timeZone, now);
+    const pageSize = LIMITS.TASKS_PER_PAGE;
+
+    const total = tasksRepo.countSearch(query);
+    const pages = Math.max(1, Math.ceil(total / pageSize));
+    const current = Math.min(Math.max(1, page), pages);
+
+    const tasks = total > 0 ? tasksRepo.search(query, pageSize, (current - 1) * pageSize) : [];
+
+    return { tasks, total, page: current, pageSize };
+}
+
+/**
+ * Поле фильтра списка (например, из callback-данных)
+ */
+export function isListFilterField(value: string): value is TaskListFilterField {
+    return Object.keys(TASK_LIST_OPTIONS).includes(value);
+}
+
+/**
+ * Совпадают ли фильтры с фильтрами по умолчанию (нечего сбрасывать)
+ */
+export function isDefaultListFilters(filters: TaskListFilters): boolean {
+    return (Object.keys(TASK_LIST_OPTIONS) as TaskListFilterField[])
+        .every(field => filters[field] === DEFAULT_TASK_LIST_FILTERS[field]);
+}
+
+/**
+ * Может ли пользователь смотреть задачи всей команды
+ */
+export function canListAllTasks(user: User): boolean {
+    return hasPermission(user, Permission.EDIT_ANY_TASK);
+}
+
+/**
+ * Фильтры списка с новым значением одного поля (undefined — сбросить)
+ * Недопустимое значение — VALIDATION_ERROR
+ */
+export function setListFilter(
+    filters: TaskListFilters,
+    field: TaskListFilterField,
+    value: string | undefined
+): TaskListFilters {
+    if (value === undefined) {
+        if (field === 'scope' || field === 'sort') {
+            return { ...filters, [field]: DEFAULT_TASK_LIST_FILTERS[field] };
+        }
+
+        const { [field]: _removed, ...rest } = filters;
+        return rest;
+    }
+
+    if (!(TASK_LIST_OPTIONS[field] as readonly string[]).includes(value)) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Invalid task list filter',
+            { field, value }
+        );
+    }
+
+    return { ...filters, [field]: value };
+}
+
+/**
+ * Сохранение текущих фильтров под именем
+ */
+export function saveTaskView(userId: number, name: string, filters: TaskListFilters): TaskView {
+    const normalized = name.trim();
+
+    assertNotEmpty(normalized, 'View name');
+    assertStringLength(normalized, 1, LIMITS.MAX_TASK_VIEW_NAME_LENGTH, 'View name');
+
+    const views = taskViewsRepo.getByUser(userId);
+
+    if (findView(views, normalized)) {
+        throw new AppError(
+            ErrorCodes.ALREADY_EXISTS,
+            'Task view already exists',
+            { userId, name: normalized }
+        );
+    }
+
+    if (views.length >= LIMITS.MAX_TASK_VIEWS) {
+        throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            'Too many task views',
+            { userId, max: LIMITS.MAX_TASK_VIEWS }
+        );
+    }
+
+    const view = taskViewsRepo.create(userId, normalized, filters);
+
+    Log.info({ userId }, 'Task list view saved', { viewId: view.id, filters });
+
+    return view;
+}
+
+/**
+ * Сохранённые виды пользователя
+ */
+export function getTaskViews(userId: number): TaskView[] {
+    return taskViewsRepo.getByUser(userId);
+}
+
+/**
+ * Вид по имени без учёта регистра (/my_tasks <вид>)
+ */
+export function findTaskView(userId: number, name: string): TaskView | null {
+    return findView(taskViewsRepo.getByUser(userId), name.trim());
+}
+
+/**
+ * Вид пользователя по ID (чужие не отдаём)
+ */
+export function getTaskView(userId: number, viewId: number): TaskView | null {
+    const view = taskViewsRepo.getById(viewId);
+
+    return view && view.userId === userId ? view : null;
+}
+
+/**
+ * Удаление своего вида
+ */
+export function deleteTaskView(userId: number, viewId: number): boolean {
+    return taskViewsRepo.delete(viewId, userId);
+}
+
+/**
+ * Поисковый запрос для фильтров списка
+ * Все задачи команды видят только владельцы, остальным — их задачи
+ */
+function buildListQuery(
+    user: User,
+    filters: TaskListFilters,
+    timeZone: string,
+    now: Date
+): TaskSearchQuery {
+    const scope = filters.scope === 'all' && !canListAllTasks(user) ? 'assigned' : filters.scope;
+
+    return {
+        terms: [],
+        assigneeId: scope === 'assigned' ? user.telegramId : undefined,
+        creatorId: scope === 'created' ? user.telegramId : undefined,
+        status: filters.status,
+        priority: filters.priority,
+        category: filters.category,
+        ...(filters.due ? getDueRange(filters.due, timeZone, now) : {}),
+        sort: filters.sort,
+    };
+}
+
+/**
+ * Поиск вида по имени без учёта регистра
+ */
+function findView(views: TaskView[], name: string): TaskView | null {
+    const lower = name.toLowerCase();
+
+    return views.find(view => view.name.toLowerCase() === lower) ?? null;
+}
@@ -0,0 +1,94 @@
+import { ReportPeriod, TeamReport, EmployeeReport } from '../../interfaces/task';
+import { Language } from '../../interfaces/user';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { usersRepo } from '../../data/repo/usersRepo';
+import { telegramClient } from '../../clients/telegram';
+import { getText, formatTeamReport, formatTeamReportCsv } from '../../bot/replies';
+import { config } from '../../config/env';
+import Log from '../../utils/log';
+import dayjs from '../../utils/dayjs';
+
+/**
+ * Период отчёта из аргумента команды
+ */
+export function isReportPeriod(value: string): value is ReportPeriod {
+    return value === 'week' || value === 'month';
+}
+
+/**
+ * Отчёт по команде за последнюю неделю или месяц
+ * Закрытые задачи берутся из истории статусов, загрузка — текущая;
+ * начало периода — полночь по часовому поясу получателя
+ */
+export function buildTeamReport(
+    period: ReportPeriod,
+    timeZone: string = config.timezone.default,
+    boardId?: string,
+    now: Date = new Date()
+): TeamReport {
+    const from = dayjs(now).tz(timeZone).subtract(1, period).startOf('day').toDate();
+
+    const completions = new Map(
+        tasksRepo.getCompletionStats(from, now, boardId).map(row => [row.assigneeId, row])
+    );
+    const workload = new Map(
+        tasksRepo.getWorkloadByAssignee(boardId).map(row => [row.assigneeId, row])
+    );
+
+    // Сотрудники без задач тоже попадают в отчёт (кроме отчёта по одной доске)
+    const userIds = new Set<number>([
+        ...(boardId ? [] : usersRepo.getEmployees().map(user => user.telegramId)),
+        ...completions.keys(),
+        ...workload.keys(),
+    ]);
+
+    const employees: EmployeeReport[] = [...userIds].map(userId => {
+        const user = usersRepo.getByTelegramId(userId);
+        const done = completions.get(userId);
+        const load = workload.get(userId);
+
+        return {
+            userId,
+            name: user?.fullName || user?.username || String(userId),
+            completed: done?.completed ?? 0,
+            onTimeRate: done && done.withDueDate > 0 ? done.onTime / done.withDueDate : null,
+            avgCycleHours: done?.avgCycleHours ?? null,
+            overdue: load?.overdue ?? 0,
+            wip: load?.wip ?? 0,
+        };
+    });
+
+    employees.sort((a, b) => b.completed - a.completed || a.name.localeCompare(b.name));
+
+    return { period, from, to: now, employees };
+}
+
+/**
+ * Отправка отчёта: сообщение со сводкой и CSV-файл
+ */
+export async function sendTeamReport(
+    chatId: number,
+    report: TeamReport,
+    lang: Language = Language.RU,
+    timeZone: string = config.timezone.default
+): Promise<void> {
+    const t = getText(lang);
+
+    await telegramClient.sendMessage(chatId, formatTeamReport(report, lang, timeZone), {
+        parse_mode: 'Markdown',
+    });
+
+    // BOM — чтобы Excel открыл кириллицу в UTF-8
+    const csv = Buffer.from('\uFEFF' + formatTeamReportCsv(report, lang), 'utf-8');
+    const date = dayjs(report.to).tz(timeZone).format('YYYY-MM-DD');
+
+    await telegramClient.sendDocument(chatId, csv, {
+        filename: `team-report-${report.period}-${date}.csv`,
+        caption: t.reports.csvCaption,
+    });
+
+    Log.info({ chatId }, 'Team report sent', {
+        period: report.period,
+        employees: report.employees.length,
+    });
+}
@@ -0,0 +1,76 @@
+import { TaskStatus } from '../../interfaces/task';
+import { getListForStatus, getStatusForList } from './updateStatus';
+
+/**
+ * Списки доски в порядке позиций
+ */
+function lists(...names: string[]): Array<{ id: string; name: string }> {
+    return names.map((name, index) => ({ id: `list-${index}`, name }));
+}
+
+describe('getListForStatus', () => {
+    it('matches lists by name regardless of position', () => {
+        const board = lists('Готово', 'На проверке', 'В работе', 'Новые');
+
+        expect(getListForStatus(board, TaskStatus.TODO)?.name).toBe('Новые');
+        expect(getListForStatus(board, TaskStatus.IN_PROGRESS)?.name).toBe('В работе');
+        expect(getListForStatus(board, TaskStatus.IN_REVIEW)?.name).toBe('На проверке');
+        expect(getListForStatus(board, TaskStatus.DONE)?.name).toBe('Готово');
+    });
+
+    it('has no review list on a todo/doing/done board', () => {
+        const board = lists('Todo', 'Doing', 'Done');
+
+        expect(getListForStatus(board, TaskStatus.IN_REVIEW)).toBeUndefined();
+        expect(getListForStatus(board, TaskStatus.DONE)?.name).toBe('Done');
+    });
+
+    it('falls back to positions for unknown names', () => {
+        const board = lists('A', 'B', 'C', 'D');
+
+        expect(getListForStatus(board, TaskStatus.TODO)?.name).toBe('A');
+        expect(getListForStatus(board, TaskStatus.IN_PROGRESS)?.name).toBe('B');
+        expect(getListForStatus(board, TaskStatus.IN_REVIEW)?.name).toBe('C');
+        expect(getListForStatus(board, TaskStatus.DONE)?.name).toBe('D');
+    });
+
+    it('never gives the last list to review on a three-list board', () => {
+        const board = lists('A', 'B', 'C');
+
+        expect(getListForStatus(board, TaskStatus.IN_REVIEW)).toBeUndefined();
+        expect(getListForStatus(board, TaskStatus.DONE)?.name).toBe('C');
+    });
+
+    it('does not fall back to a list already matched by name', () => {
+        const board = lists('Backlog', 'Готово', 'Misc');
+
+        expect(getListForStatus(board, TaskStatus.DONE)?.name).toBe('Готово');
+        expect(getListForStatus(board, TaskStatus.IN_PROGRESS)).toBeUndefined();
+    });
+});
+
+describe('getStatusForList', () => {
+    it('resolves the done list of a three-list board to done', () => {
+        const board = lists('Todo', 'Doing', 'Done');
+
+        expect(getStatusForList(board, 'list-0')).toBe(TaskStatus.TODO);
+        expect(getStatusForList(board, 'list-1')).toBe(TaskStatus.IN_PROGRESS);
+        expect(getStatusForList(board, 'list-2')).toBe(TaskStatus.DONE);
+    });
+
+    it('is the inverse of getListForStatus', () => {
+        const board = lists('Новые', 'X', 'Y', 'Z', 'Выполнено');
+
+        for (const status of Object.values(TaskStatus)) {
+            const list = getListForStatus(board, status);
+
+            if (list) {
+                expect(getStatusForList(board, list.id)).toBe(status);
+            }
+        }
+    });
+
+    it('returns null for an unmapped list', () => {
+        expect(getStatusForList(lists('Todo', 'Doing', 'Done'), 'missing')).toBeNull();
+    });
+});
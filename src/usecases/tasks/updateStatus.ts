@@ -1,9 +1,15 @@
-import { Task, TaskStatus } from '../../interfaces/task';
-import { User } from '../../interfaces/user';
+import { Task, TaskStatus, TaskEventType } from '../../interfaces/task';
+import { User, UserRole, Permission, hasPermission } from '../../interfaces/user';
 import { plankaClient } from '../../clients/planka';
+import { telegramClient } from '../../clients/telegram';
 import { tasksRepo } from '../../data/repo/tasksRepo';
 import { usersRepo } from '../../data/repo/usersRepo';
+import { taskEventsRepo } from '../../data/repo/taskEventsRepo';
+import { getText } from '../../bot/replies';
+import { TASK_STATUS_DISPLAY } from '../../config/constants';
 import { AppError, ErrorCodes } from '../../utils/errors';
+import { recordTaskEvent } from './taskHistory';
+import { rememberTaskMessage } from './taskComments';
 import Log from '../../utils/log';
 
 /**
@@ -49,11 +55,22 @@ export async function updateTaskStatus(
         };
     }
 
-    // Валидация перехода статусов (опционально)
+    const user = usersRepo.getByTelegramId(userId);
+
+    if (!user) {
+        throw new AppError(
+            ErrorCodes.UNAUTHORIZED,
+            'User not found',
+            { userId }
+        );
+    }
+
+    // Валидация перехода статусов и прав на него
     validateStatusTransition(previousStatus, newStatus);
+    assertStatusChangeAllowed(task, user, newStatus);
 
     // Получаем списки Planka для статусов
-    const lists = await plankaClient.getBoardLists();
+    const lists = await plankaClient.getBoardLists(task.boardId);
     const targetList = getListForStatus(lists, newStatus);
 
     if (!targetList) {
@@ -81,12 +98,15 @@ export async function updateTaskStatus(
         );
     }
 
-    // Добавляем комментарий в Planka о смене статуса
-    const user = usersRepo.getByTelegramId(userId)!;
-    const comment = formatStatusChangeComment(previousStatus, newStatus, user);
+    // История + комментарий в Planka о смене статуса
+    await recordTaskEvent({
+        taskId: task.plankaCardId!,
+        type: TaskEventType.STATUS,
+        actorId: userId,
+        data: { from: previousStatus, to: newStatus },
+    });
 
-    // Здесь можно добавить вызов API для добавления комментария
-    // await plankaClient.addComment(task.plankaCardId!, comment);
+    await notifyOwnersAboutStatus(updatedTask, previousStatus, newStatus, user);
 
     Log.info(
         { userId },
@@ -183,63 +203,189 @@ function validateStatusTransition(
 }
 
 /**
- * Получение списка Planka для статуса
+ * Проверка прав на смену статуса
+ * Сотрудник двигает только свою задачу и не может закрыть её сам —
+ * перевод в "done" (приёмка после проверки) только за владельцем
  */
-function getListForStatus(
-    lists: Array<{ id: string; name: string }>,
-    status: TaskStatus
-): { id: string; name: string } | undefined {
-    // Маппинг статусов на названия списков
-    const statusToListName: Record<TaskStatus, string[]> = {
-        [TaskStatus.TODO]: ['todo', 'новые', 'новая', 'backlog', 'к выполнению'],
-        [TaskStatus.IN_PROGRESS]: ['in progress', 'в работе', 'doing', 'выполняется'],
-        [TaskStatus.IN_REVIEW]: ['review', 'проверка', 'на проверке', 'testing'],
-        [TaskStatus.DONE]: ['done', 'готово', 'выполнено', 'completed', 'finished'],
-    };
+export function assertStatusChangeAllowed(
+    task: Task,
+    user: User,
+    newStatus: TaskStatus
+): void {
+    if (hasPermission(user, Permission.EDIT_ANY_TASK)) {
+        return;
+    }
 
-    const possibleNames = statusToListName[status] || [];
+    if (
+        !hasPermission(user, Permission.UPDATE_OWN_TASK_STATUS) ||
+        task.assigneeId !== String(user.telegramId)
+    ) {
+        throw new AppError(
+            ErrorCodes.FORBIDDEN,
+            'Only the assignee can change task status',
+            { taskId: task.id, userId: user.telegramId }
+        );
+    }
 
-    // Ищем список по возможным названиям
-    for (const name of possibleNames) {
-        const list = lists.find(l =>
-            l.name.toLowerCase().includes(name.toLowerCase())
+    if (newStatus === TaskStatus.DONE) {
+        throw new AppError(
+            ErrorCodes.INVALID_STATUS_TRANSITION,
+            'Only owners can approve tasks',
+            { taskId: task.id, userId: user.telegramId }
         );
+    }
+}
+
+/**
+ * Уведомление владельцев о смене статуса
+ * Получатель — автор задачи, если он владелец, иначе все владельцы
+ */
+async function notifyOwnersAboutStatus(
+    task: Task,
+    from: TaskStatus,
+    to: TaskStatus,
+    movedBy: User
+): Promise<void> {
+    const creator = usersRepo.getByTelegramId(parseInt(task.createdBy));
+    const recipients = creator && creator.role !== UserRole.EMPLOYEE
+        ? [creator]
+        : usersRepo.getAll(UserRole.OWNER);
+
+    for (const recipient of recipients) {
+        if (recipient.telegramId === movedBy.telegramId) {
+            continue;
+        }
+
+        const t = getText(recipient.language);
+        const lang = recipient.language;
+
+        let message = t.notifications.statusMoved(
+            task.title,
+            `${TASK_STATUS_DISPLAY[from].emoji} ${TASK_STATUS_DISPLAY[from][lang]}`,
+            `${TASK_STATUS_DISPLAY[to].emoji} ${TASK_STATUS_DISPLAY[to][lang]}`,
+            movedBy.fullName || movedBy.username || String(movedBy.telegramId)
+        );
+
+        const buttons = [[
+            { text: t.buttons.viewTask, callback_data: `view_task_${task.plankaCardId}` },
+        ]];
+
+        // На проверку — сразу даём принять или вернуть
+        if (to === TaskStatus.IN_REVIEW) {
+            message += `\n\n${t.notifications.reviewRequested}`;
+            buttons.unshift([
+                { text: t.buttons.approve, callback_data: `set_status_${task.plankaCardId}_${TaskStatus.DONE}` },
+                { text: t.buttons.returnToWork, callback_data: `set_status_${task.plankaCardId}_${TaskStatus.IN_PROGRESS}` },
+            ]);
+        }
+
+        try {
+            const sent = await telegramClient.sendMessage(recipient.telegramId, message, {
+                parse_mode: 'Markdown',
+                reply_markup: { inline_keyboard: buttons },
+            });
 
-        if (list) {
-            return list;
+            rememberTaskMessage(sent, task.plankaCardId!);
+        } catch (error) {
+            Log.error(
+                { userId: recipient.telegramId },
+                'Failed to notify owner about status change',
+                error,
+                { taskId: task.plankaCardId }
+            );
         }
     }
+}
 
-    // Если не нашли по названию, используем индексы
-    const statusToIndex: Record<TaskStatus, number> = {
-        [TaskStatus.TODO]: 0,
-        [TaskStatus.IN_PROGRESS]: 1,
-        [TaskStatus.IN_REVIEW]: 2,
-        [TaskStatus.DONE]: lists.length - 1,
-    };
+/**
+ * Маппинг статусов на возможные названия списков Planka
+ */
+const STATUS_LIST_NAMES: Record<TaskStatus, string[]> = {
+    [TaskStatus.TODO]: ['todo', 'новые', 'новая', 'backlog', 'к выполнению'],
+    [TaskStatus.IN_PROGRESS]: ['in progress', 'в работе', 'doing', 'выполняется'],
+    [TaskStatus.IN_REVIEW]: ['review', 'проверка', 'на проверке', 'testing'],
+    [TaskStatus.DONE]: ['done', 'готово', 'выполнено', 'completed', 'finished'],
+};
+
+/**
+ * Позиции списков для досок, где названия не распознаны
+ * "На проверке" не берёт последний список — он всегда "готово"
+ */
+const STATUS_LIST_FALLBACK: Record<TaskStatus, (count: number) => number | null> = {
+    [TaskStatus.TODO]: () => 0,
+    [TaskStatus.IN_PROGRESS]: count => (count > 2 ? 1 : null),
+    [TaskStatus.IN_REVIEW]: count => (count > 3 ? 2 : null),
+    [TaskStatus.DONE]: count => (count > 1 ? count - 1 : null),
+};
+
+/**
+ * Соответствие статусов спискам доски
+ * Сначала списки сопоставляются по названиям, затем оставшиеся — по позиции
+ */
+function mapStatusesToLists<L extends { id: string; name: string }>(
+    lists: L[]
+): Map<TaskStatus, L> {
+    const statuses = Object.values(TaskStatus);
+    const result = new Map<TaskStatus, L>();
+    const claimed = new Set<string>();
+
+    for (const status of statuses) {
+        for (const name of STATUS_LIST_NAMES[status]) {
+            const list = lists.find(l =>
+                !claimed.has(l.id) && l.name.toLowerCase().includes(name)
+            );
+
+            if (list) {
+                result.set(status, list);
+                claimed.add(list.id);
+                break;
+            }
+        }
+    }
+
+    for (const status of statuses) {
+        if (result.has(status)) {
+            continue;
+        }
+
+        const index = STATUS_LIST_FALLBACK[status](lists.length);
+        const list = index !== null ? lists[index] : undefined;
+
+        if (list && !claimed.has(list.id)) {
+            result.set(status, list);
+            claimed.add(list.id);
+        }
+    }
 
-    const index = statusToIndex[status];
-    return lists[index];
+    return result;
 }
 
 /**
- * Форматирование комментария о смене статуса
+ * Получение списка Planka для статуса
  */
-function formatStatusChangeComment(
-    from: TaskStatus,
-    to: TaskStatus,
-    user: User
-): string {
-    const statusNames = {
-        [TaskStatus.TODO]: 'К выполнению',
-        [TaskStatus.IN_PROGRESS]: 'В работе',
-        [TaskStatus.IN_REVIEW]: 'На проверке',
-        [TaskStatus.DONE]: 'Выполнено',
-    };
+export function getListForStatus<L extends { id: string; name: string }>(
+    lists: L[],
+    status: TaskStatus
+): L | undefined {
+    return mapStatusesToLists(lists).get(status);
+}
 
-    return `📊 Статус изменён: ${statusNames[from]} → ${statusNames[to]}
-👤 ${user.fullName || user.username || 'Пользователь'}
-🕐 ${new Date().toLocaleString('ru-RU')}`;
+/**
+ * Определение статуса задачи по списку Planka (обратный маппинг)
+ * Использует то же соответствие, что и перемещение карточки,
+ * чтобы статус и список всегда соответствовали друг другу
+ */
+export function getStatusForList(
+    lists: Array<{ id: string; name: string }>,
+    listId: string
+): TaskStatus | null {
+    for (const [status, list] of mapStatusesToLists(lists)) {
+        if (list.id === listId) {
+            return status;
+        }
+    }
+
+    return null;
 }
 
 /**
@@ -270,18 +416,20 @@ export async function autoUpdateStatusOnAssign(
 }
 
 /**
- * Получение истории изменений статуса (если будет реализовано логирование)
+ * Получение истории изменений статуса
  */
-export async function getStatusHistory(
+export function getStatusHistory(
     taskId: string
-): Promise<Array<{
+): Array<{
     from: TaskStatus;
     to: TaskStatus;
-    changedBy: number;
+    changedBy?: number;
     changedAt: Date;
-}>> {
-    // Заглушка для будущей реализации
-    // Можно добавить таблицу task_history в БД
-    Log.info({}, 'Status history not implemented yet', { taskId });
-    return [];
-}
\ No newline at end of file
+}> {
+    return taskEventsRepo.getByTask(taskId, TaskEventType.STATUS).map(event => ({
+        from: event.data.from as TaskStatus,
+        to: event.data.to as TaskStatus,
+        changedBy: event.actorId,
+        changedAt: event.createdAt,
+    }));
+}
@@ -0,0 +1,29 @@
+import { extractVoiceCommand } from './voiceTask';
+
+describe('extractVoiceCommand', () => {
+    it('returns the text after a wake word at the start', () => {
+        expect(extractVoiceCommand('Помощник, подготовь отчёт к пятнице'))
+            .toBe('подготовь отчёт к пятнице');
+    });
+
+    it('finds the wake word within the first words', () => {
+        expect(extractVoiceCommand('Эй, ассистент: позвони клиенту')).toBe('позвони клиенту');
+    });
+
+    it('accepts inflected and Uzbek wake words', () => {
+        expect(extractVoiceCommand('Помощнику надо напомнить про счёт')).toBe('надо напомнить про счёт');
+        expect(extractVoiceCommand('Yordamchi, hisobotni tayyorla')).toBe('hisobotni tayyorla');
+    });
+
+    it('ignores a wake word too far from the start', () => {
+        expect(extractVoiceCommand('Скажи пожалуйста коллеге помощник занят')).toBeNull();
+    });
+
+    it('returns null without a wake word', () => {
+        expect(extractVoiceCommand('Подготовь отчёт к пятнице')).toBeNull();
+    });
+
+    it('returns an empty command for a bare wake word', () => {
+        expect(extractVoiceCommand('Помощник!')).toBe('');
+    });
+});
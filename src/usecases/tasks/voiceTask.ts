@@ -0,0 +1,64 @@
+import { geminiClient } from '../../clients/gemini';
+import { fileStore } from '../../clients/fileStore';
+import { VOICE_TASK_KEYWORDS } from '../../config/constants';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import Log from '../../utils/log';
+
+/**
+ * Сколько первых слов проверяем на обращение к помощнику
+ * ("Эй, помощник, ..." — обращение вторым словом)
+ */
+const WAKE_WORD_WINDOW = 3;
+
+/**
+ * Скачивание и распознавание голосового сообщения
+ */
+export async function transcribeVoiceMessage(fileUrl: string, fileId: string): Promise<string> {
+    const file = await fileStore.download(fileUrl, `${fileId}.ogg`, 'audio/ogg');
+    const transcript = (await geminiClient.transcribeVoice(file.buffer.toString('base64'))).trim();
+
+    if (!transcript) {
+        throw new AppError(
+            ErrorCodes.GEMINI_ERROR,
+            'Empty voice transcription',
+            { fileId }
+        );
+    }
+
+    Log.info({ service: 'gemini' }, 'Voice message transcribed', {
+        fileId,
+        size: file.size,
+        textLength: transcript.length,
+    });
+
+    return transcript;
+}
+
+/**
+ * Поиск обращения к помощнику в начале расшифровки
+ * Возвращает текст после обращения или null, если обращения нет
+ */
+export function extractVoiceCommand(transcript: string): string | null {
+    const words = transcript.trim().split(/\s+/);
+
+    for (let i = 0; i < Math.min(words.length, WAKE_WORD_WINDOW); i++) {
+        const word = normalizeWord(words[i] || '');
+
+        if (VOICE_TASK_KEYWORDS.some(keyword => word.startsWith(keyword))) {
+            return words
+                .slice(i + 1)
+                .join(' ')
+                .replace(/^[\s,.:;!?—-]+/, '')
+                .trim();
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Нижний регистр без знаков препинания
+ */
+function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}]/gu, '');
+}
@@ -0,0 +1,108 @@
+import { Workspace } from '../../interfaces/workspace';
+import { User, Permission, hasPermission } from '../../interfaces/user';
+import { plankaClient } from '../../clients/planka';
+import { workspacesRepo } from '../../data/repo/workspacesRepo';
+import { AppError, ErrorCodes } from '../../utils/errors';
+import Log from '../../utils/log';
+
+/**
+ * Доски Planka, которые можно привязать к чату
+ */
+export async function getLinkableBoards(): Promise<Array<{
+    boardId: string;
+    projectId: string;
+    name: string;
+}>> {
+    const { projects, boards } = await plankaClient.getProjects();
+
+    return boards.map(board => {
+        const project = projects.find(p => p.id === board.projectId);
+
+        return {
+            boardId: board.id,
+            projectId: board.projectId,
+            name: project ? `${project.name} / ${board.name}` : board.name,
+        };
+    });
+}
+
+/**
+ * Привязка чата к доске Planka
+ * Все задачи, списки, лейблы и статистика чата дальше берутся с этой доски
+ */
+export async function linkBoard(
+    chatId: number,
+    boardId: string,
+    linkedBy: User,
+    chatTitle?: string
+): Promise<Workspace> {
+    assertCanManageWorkspace(linkedBy);
+
+    const board = await plankaClient.getBoard(boardId);
+
+    if (!board) {
+        throw new AppError(
+            ErrorCodes.NOT_FOUND,
+            'Planka board not found',
+            { boardId }
+        );
+    }
+
+    const workspace = workspacesRepo.upsert({
+        chatId,
+        title: chatTitle,
+        projectId: board.projectId,
+        boardId: board.id,
+        createdBy: linkedBy.telegramId,
+    });
+
+    Log.info({ userId: linkedBy.telegramId, chatId }, 'Chat linked to board', {
+        boardId: board.id,
+        projectId: board.projectId,
+    });
+
+    return workspace;
+}
+
+/**
+ * Отвязка чата — он вернётся к доске по умолчанию
+ */
+export function unlinkBoard(chatId: number, unlinkedBy: User): boolean {
+    assertCanManageWorkspace(unlinkedBy);
+
+    const removed = workspacesRepo.delete(chatId);
+
+    if (removed) {
+        Log.info({ userId: unlinkedBy.telegramId, chatId }, 'Chat unlinked from board');
+    }
+
+    return removed;
+}
+
+/**
+ * Привязывать доски могут владельцы и администраторы
+ */
+function assertCanManageWorkspace(user: User): void {
+    if (!hasPermission(user, Permission.MANAGE_SETTINGS)) {
+        throw new AppError(
+            ErrorCodes.FORBIDDEN,
+            'Only owners can link boards',
+            { userId: user.telegramId }
+        );
+    }
+}
+
+/**
+ * Название доски, привязанной к чату (null — чат не привязан)
+ */
+export async function getLinkedBoardName(chatId: number): Promise<string | null> {
+    const workspace = workspacesRepo.getByChatId(chatId);
+
+    if (!workspace) {
+        return null;
+    }
+
+    const board = await plankaClient.getBoard(workspace.boardId);
+
+    return board?.name || workspace.boardId;
+}
@@ -0,0 +1,76 @@
+import { Workspace } from '../../interfaces/workspace';
+import { workspacesRepo } from '../../data/repo/workspacesRepo';
+import { tasksRepo } from '../../data/repo/tasksRepo';
+import { config } from '../../config/env';
+
+/**
+ * Рабочее пространство чата (null — чат не привязан)
+ */
+export function getChatWorkspace(chatId: number): Workspace | null {
+    return workspacesRepo.getByChatId(chatId);
+}
+
+/**
+ * Доска, с которой работает чат
+ * Непривязанные чаты работают с доской по умолчанию (PLANKA_BOARD_ID)
+ */
+export function getChatBoardId(chatId?: number): string | undefined {
+    const workspace = chatId !== undefined ? workspacesRepo.getByChatId(chatId) : null;
+
+    return workspace?.boardId || config.planka.boardId || undefined;
+}
+
+/**
+ * Все доски, за которыми следит бот: доска по умолчанию + привязанные к чатам
+ */
+export function getTrackedBoardIds(): string[] {
+    const boardIds = workspacesRepo.getAll().map(workspace => workspace.boardId);
+
+    if (config.planka.boardId) {
+        boardIds.unshift(config.planka.boardId);
+    }
+
+    return [...new Set(boardIds)];
+}
+
+/**
+ * Относится ли доска к отслеживаемым
+ * Если ни одной доски не настроено — принимаем все
+ */
+export function isTrackedBoard(boardId: string): boolean {
+    const tracked = getTrackedBoardIds();
+
+    return tracked.length === 0 || tracked.includes(boardId);
+}
+
+/**
+ * Чат, к которому привязана доска (первый по времени привязки)
+ */
+export function getBoardChatId(boardId: string): number | null {
+    return workspacesRepo.getByBoardId(boardId)[0]?.chatId ?? null;
+}
+
+/**
+ * Область дайджеста: доска и её название (пустая — все задачи пользователя)
+ */
+export interface DigestScope {
+    boardId?: string;
+    title?: string;
+}
+
+/**
+ * Дайджесты пользователя: по одному на каждое рабочее пространство,
+ * в котором у него есть задачи, либо один общий
+ */
+export function getDigestScopes(telegramId: number): DigestScope[] {
+    const boardIds = tasksRepo.getUserBoardIds(telegramId);
+
+    if (boardIds.length <= 1) {
+        return [{}];
+    }
+
+    return boardIds.map(boardId => ({
+        boardId,
+        title: workspacesRepo.getByBoardId(boardId)[0]?.title || 'Planka',
+    }));
+}
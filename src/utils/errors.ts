@@ -58,6 +58,10 @@ export function errorToUserMessage(error: unknown, lang: 'ru' | 'uz' = 'ru'): st
                 ru: '❌ У вас нет прав для выполнения этой команды',
                 uz: '❌ Ushbu buyruqni bajarish uchun huquqlaringiz yoʻq',
             },
+            [ErrorCodes.FORBIDDEN]: {
+                ru: '❌ У вас недостаточно прав для этого действия',
+                uz: '❌ Bu amal uchun huquqlaringiz yetarli emas',
+            },
             [ErrorCodes.NOT_FOUND]: {
                 ru: '❌ Запрашиваемые данные не найдены',
                 uz: '❌ Soʻralgan maʼlumotlar topilmadi',
@@ -78,6 +82,10 @@ export function errorToUserMessage(error: unknown, lang: 'ru' | 'uz' = 'ru'): st
                 ru: '❌ Исполнитель не найден',
                 uz: '❌ Ijrochi topilmadi',
             },
+            [ErrorCodes.INVALID_STATUS_TRANSITION]: {
+                ru: '❌ Такой переход статуса недоступен',
+                uz: '❌ Bunday holat oʻtishi mumkin emas',
+            },
             [ErrorCodes.INVITE_EXPIRED]: {
                 ru: '❌ Срок действия приглашения истёк',
                 uz: '❌ Taklifnoma muddati tugagan',
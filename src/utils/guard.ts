@@ -104,6 +104,7 @@ export function assertFileType(mimetype: string, allowedTypes?: string[]): void
         ...ALLOWED_FILE_TYPES.DOCUMENTS,
         ...ALLOWED_FILE_TYPES.IMAGES,
         ...ALLOWED_FILE_TYPES.ARCHIVES,
+        ...ALLOWED_FILE_TYPES.VIDEOS,
     ];
 
     if (!allowed.includes(mimetype)) {
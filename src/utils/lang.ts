@@ -96,8 +96,14 @@ export function transliterate(text: string, direction: 'ru-to-latin' | 'latin-to
         'Э': 'E', 'Ю': 'Yu', 'Я': 'Ya',
     };
 
+    // Буквы узбекской кириллицы (только в сторону латиницы)
+    const uzCyrillicToLatin: Record<string, string> = {
+        'ў': 'oʻ', 'қ': 'q', 'ғ': 'gʻ', 'ҳ': 'h',
+        'Ў': 'Oʻ', 'Қ': 'Q', 'Ғ': 'Gʻ', 'Ҳ': 'H',
+    };
+
     if (direction === 'ru-to-latin') {
-        return text.split('').map(char => ruToLatin[char] || char).join('');
+        return text.split('').map(char => uzCyrillicToLatin[char] ?? ruToLatin[char] ?? char).join('');
     }
 
     // Обратная транслитерация (упрощённая)
@@ -130,6 +136,20 @@ export function normalizeText(text: string): string {
         .trim();
 }
 
+/**
+ * Ключ для полнотекстового поиска: текст на любом алфавите сводится к одной латинице
+ * "Ҳисобот", "hisobot" и "xisobot" дают одинаковый ключ; варианты, которые путают
+ * при наборе (х/ҳ/kh/x, қ/к, ж/j, ё/е, апострофы), склеиваются
+ */
+export function toSearchKey(text: string): string {
+    return transliterate(normalizeText(text).replace(/ё/g, 'е'), 'ru-to-latin')
+        .toLowerCase()
+        .replace(/['`ʻʼ‘’]/g, '')
+        .replace(/kh|x/g, 'h')
+        .replace(/q/g, 'k')
+        .replace(/zh/g, 'j');
+}
+
 /**
  * Определение направления текста (LTR/RTL)
  */
@@ -1,47 +1,55 @@
-import dayjs from 'dayjs';
-import customParseFormat from 'dayjs/plugin/customParseFormat';
-import utc from 'dayjs/plugin/utc';
-import timezone from 'dayjs/plugin/timezone';
+import dayjs from './dayjs';
 import { TaskPriority, TaskCategory } from '../interfaces/task';
 import { REGEX_PATTERNS } from '../config/constants';
-
-// Подключаем плагины dayjs
-dayjs.extend(customParseFormat);
-dayjs.extend(utc);
-dayjs.extend(timezone);
+import { config } from '../config/env';
 
 /**
  * Парсинг даты из текста
+ * Дата и время в тексте — местные для часового пояса пользователя
  */
-export function parseDate(text: string): Date | null {
+export function parseDate(text: string, timeZone: string = config.timezone.default): Date | null {
     const normalizedText = text.toLowerCase().trim();
+    const now = dayjs().tz(timeZone);
+    const time = parseTime(normalizedText);
+
+    // "завтра в 15:00" — день из текста и указанное время в часовом поясе пользователя
+    const withTime = (day: dayjs.Dayjs): Date => {
+        if (!time) {
+            return day.toDate();
+        }
+
+        const hours = String(time.hours).padStart(2, '0');
+        const minutes = String(time.minutes).padStart(2, '0');
+
+        return dayjs.tz(`${day.format('YYYY-MM-DD')} ${hours}:${minutes}`, timeZone).toDate();
+    };
 
     // Относительные даты
-    const relativePatterns: Record<string, () => Date> = {
-        'сегодня': () => dayjs().toDate(),
-        'today': () => dayjs().toDate(),
-        'bugun': () => dayjs().toDate(),
+    const relativePatterns: Record<string, () => dayjs.Dayjs> = {
+        'сегодня': () => now,
+        'today': () => now,
+        'bugun': () => now,
 
-        'завтра': () => dayjs().add(1, 'day').toDate(),
-        'tomorrow': () => dayjs().add(1, 'day').toDate(),
-        'ertaga': () => dayjs().add(1, 'day').toDate(),
+        'завтра': () => now.add(1, 'day'),
+        'tomorrow': () => now.add(1, 'day'),
+        'ertaga': () => now.add(1, 'day'),
 
-        'послезавтра': () => dayjs().add(2, 'day').toDate(),
-        'after tomorrow': () => dayjs().add(2, 'day').toDate(),
+        'послезавтра': () => now.add(2, 'day'),
+        'after tomorrow': () => now.add(2, 'day'),
 
-        'через неделю': () => dayjs().add(1, 'week').toDate(),
-        'next week': () => dayjs().add(1, 'week').toDate(),
-        'keyingi hafta': () => dayjs().add(1, 'week').toDate(),
+        'через неделю': () => now.add(1, 'week'),
+        'next week': () => now.add(1, 'week'),
+        'keyingi hafta': () => now.add(1, 'week'),
 
-        'через месяц': () => dayjs().add(1, 'month').toDate(),
-        'next month': () => dayjs().add(1, 'month').toDate(),
-        'keyingi oy': () => dayjs().add(1, 'month').toDate(),
+        'через месяц': () => now.add(1, 'month'),
+        'next month': () => now.add(1, 'month'),
+        'keyingi oy': () => now.add(1, 'month'),
     };
 
     // Проверяем относительные даты
     for (const [pattern, getDate] of Object.entries(relativePatterns)) {
         if (normalizedText.includes(pattern)) {
-            return getDate();
+            return withTime(getDate());
         }
     }
 
@@ -49,13 +57,13 @@ export function parseDate(text: string): Date | null {
     const inDaysMatch = normalizedText.match(/через\s+(\d+)\s+(день|дня|дней)/);
     if (inDaysMatch) {
         const days = parseInt(inDaysMatch[1], 10);
-        return dayjs().add(days, 'day').toDate();
+        return withTime(now.add(days, 'day'));
     }
 
     const inHoursMatch = normalizedText.match(/через\s+(\d+)\s+(час|часа|часов)/);
     if (inHoursMatch) {
         const hours = parseInt(inHoursMatch[1], 10);
-        return dayjs().add(hours, 'hour').toDate();
+        return now.add(hours, 'hour').toDate();
     }
 
     // Абсолютные даты в формате ДД.ММ.ГГГГ
@@ -64,7 +72,7 @@ export function parseDate(text: string): Date | null {
         const [, day, month, year] = ruDateMatch;
         const date = dayjs(`${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`);
         if (date.isValid()) {
-            return date.toDate();
+            return withTime(dayjs.tz(date.format('YYYY-MM-DD'), timeZone));
         }
     }
 
@@ -73,14 +81,14 @@ export function parseDate(text: string): Date | null {
     if (isoDateMatch) {
         const date = dayjs(isoDateMatch[0]);
         if (date.isValid()) {
-            return date.toDate();
+            return withTime(dayjs.tz(date.format('YYYY-MM-DD'), timeZone));
         }
     }
 
     // Попытка парсинга через dayjs напрямую
     const date = dayjs(text);
     if (date.isValid()) {
-        return date.toDate();
+        return dayjs.tz(date.format('YYYY-MM-DD HH:mm:ss'), timeZone).toDate();
     }
 
     return null;
@@ -183,14 +191,15 @@ export function parseAssignee(text: string): string | null {
 }
 
 /**
- * Форматирование даты для отображения
+ * Форматирование даты для отображения (в часовом поясе пользователя)
  */
 export function formatDate(
     date: Date,
     format: 'short' | 'long' | 'relative' = 'short',
-    locale: 'ru' | 'uz' = 'ru'
+    locale: 'ru' | 'uz' = 'ru',
+    timeZone: string = config.timezone.default
 ): string {
-    const d = dayjs(date);
+    const d = dayjs(date).tz(timeZone);
 
     switch (format) {
         case 'short':
@@ -203,7 +212,7 @@ export function formatDate(
             return d.locale('ru').format('DD MMMM YYYY, HH:mm');
 
         case 'relative':
-            const now = dayjs();
+            const now = dayjs().tz(timeZone);
             const diffDays = d.diff(now, 'day');
             const diffHours = d.diff(now, 'hour');
 
@@ -230,6 +239,7 @@ export function formatDate(
 
 /**
  * Парсинг времени из текста (часы и минуты)
+ * Время местное: к дате его привязывает parseDate с часовым поясом пользователя
  */
 export function parseTime(text: string): { hours: number; minutes: number } | null {
     const patterns = [
@@ -253,6 +263,18 @@ export function parseTime(text: string): { hours: number; minutes: number } | nu
     return null;
 }
 
+/**
+ * Проверка названия часового пояса (IANA, например 'Asia/Tashkent')
+ */
+export function isValidTimezone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Извлечение хештегов из текста
  */